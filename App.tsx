@@ -1,90 +1,165 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { HashRouter, Routes, Route, NavLink, Link } from 'react-router-dom';
-import { DEFAULT_SETTINGS, DEFAULT_JOB, WorkLog, UserSettings, AppState, Job, ShiftTemplate } from './types';
+import { DEFAULT_SETTINGS, DEFAULT_JOB, WorkLog, UserSettings, AppState, Job, ShiftTemplate, ActiveShift, Payslip } from './types';
 import { Dashboard } from './components/Dashboard';
 import { WorkLogger } from './components/WorkLogger';
 import { Settings } from './components/Settings';
 import { DataManagement } from './components/DataManagement';
 import { PayslipVerifier } from './components/PayslipVerifier';
+import { RosterReconciliation } from './components/RosterReconciliation';
 import { CalendarView } from './components/CalendarView';
 import { YearlyWrapUp } from './components/YearlyWrapUp';
-import { LayoutDashboard, Timer, Settings as SettingsIcon, Plus, FileCheck, Calendar, Sparkles } from 'lucide-react';
+import { LogHistory } from './components/LogHistory';
+import { ShiftTimer, ShiftTimerBadge } from './components/ShiftTimer';
+import { LayoutDashboard, Timer, Settings as SettingsIcon, Plus, FileCheck, Calendar, Sparkles, AlertCircle } from 'lucide-react';
+import { buildLogFromShift, isOnBreak } from './services/shiftTimer';
+import { migrateState, CURRENT_SCHEMA_VERSION } from './services/migrations';
+import { validateState, resolveDataIssues, DataIssue, DataIssueMode } from './services/validation';
+import { DataIssuesReport } from './components/DataIssuesReport';
+import { StorageAdapter, StorageChanges, StorageConflictError, diffState, hasChanges, applyChanges, rebaseChanges, mergeRecordChanges, mergeFields, describeStorageError, createLocalStorageAdapter } from './services/storage';
+import { createIndexedDbStorage, isIndexedDbAvailable } from './services/indexedDbStorage';
 
-const STORAGE_KEY = 'paylevel_up_data_v1';
+const defaultStorage = isIndexedDbAvailable() ? createIndexedDbStorage() : createLocalStorageAdapter();
 
-const App: React.FC = () => {
+// Edits are stamped so calendar re-exports replace the old event
+const touchLog = (log: WorkLog): WorkLog => ({ ...log, updatedAt: Date.now(), sequence: (log.sequence || 0) + 1 });
+
+interface AppProps {
+  storage?: StorageAdapter;
+}
+
+const App: React.FC<AppProps> = ({ storage = defaultStorage }) => {
   const [logs, setLogs] = useState<WorkLog[]>([]);
   const [settings, setSettings] = useState<UserSettings>(DEFAULT_SETTINGS);
   const [jobs, setJobs] = useState<Job[]>([]);
   const [templates, setTemplates] = useState<ShiftTemplate[]>([]);
+  const [payslips, setPayslips] = useState<Payslip[]>([]);
   const [isLoaded, setIsLoaded] = useState(false);
   
   // Global active job state (default to 'all')
   const [activeJobId, setActiveJobId] = useState<string>('all');
 
-  // Load from local storage on mount
-  useEffect(() => {
-    const saved = localStorage.getItem(STORAGE_KEY);
-    if (saved) {
-      try {
-        const parsed: AppState = JSON.parse(saved);
-        
-        // --- MIGRATION LOGIC ---
-        let currentJobs = parsed.jobs || [];
-        let currentLogs = parsed.logs || [];
-        let currentSettings = { ...DEFAULT_SETTINGS, ...parsed.settings };
-        let currentTemplates = parsed.templates || [];
-
-        // Migration: If no jobs exist, create Main Job from old settings
-        if (currentJobs.length === 0) {
-           const oldSettings = parsed.settings as UserSettings;
-           const mainJob: Job = {
-             ...DEFAULT_JOB,
-             id: crypto.randomUUID(),
-             name: 'Main Job',
-             hourlyRate: oldSettings.hourlyRate || DEFAULT_JOB.hourlyRate,
-             weekendHourlyRate: oldSettings.weekendHourlyRate || oldSettings.hourlyRate || DEFAULT_JOB.weekendHourlyRate,
-             targetHours: oldSettings.targetHours || DEFAULT_JOB.targetHours,
-             nextHourlyRate: oldSettings.nextHourlyRate || DEFAULT_JOB.nextHourlyRate,
-             nextWeekendHourlyRate: oldSettings.nextWeekendHourlyRate || oldSettings.nextHourlyRate || DEFAULT_JOB.nextWeekendHourlyRate
-           };
-           currentJobs = [mainJob];
-
-           // Assign existing logs to this new job
-           currentLogs = currentLogs.map(log => ({
-             ...log,
-             jobId: log.jobId || mainJob.id
-           }));
-        }
+  // Running clock-in shift (persisted so it survives reloads)
+  const [activeShift, setActiveShift] = useState<ActiveShift | undefined>(undefined);
 
-        setLogs(currentLogs);
-        setJobs(currentJobs);
-        setSettings(currentSettings);
-        setTemplates(currentTemplates);
-        
-        // Restore active job selection
-        if (parsed.activeJobId) {
-            setActiveJobId(parsed.activeJobId);
-        }
+  // Malformed records found when loading saved data
+  const [dataIssues, setDataIssues] = useState<DataIssue[]>([]);
 
-      } catch (e) {
-        console.error("Failed to parse saved data", e);
-      }
-    } else {
+  // Last state handed to the storage adapter; null forces a full rewrite
+  const lastSavedRef = useRef<AppState | null>(null);
+  // Storage revision this tab's state is based on
+  const revisionRef = useRef(0);
+  const saveQueueRef = useRef<Promise<void>>(Promise.resolve());
+  const loadFailedRef = useRef(false);
+  const [storageError, setStorageError] = useState<string | null>(null);
+  const [syncNotice, setSyncNotice] = useState<string | null>(null);
+  const [saveAttempt, setSaveAttempt] = useState(0);
+
+  // Replace in-memory state with a saved one. lastSavedRef is set first so the
+  // save effect sees nothing to write.
+  const adoptState = (state: AppState) => {
+    lastSavedRef.current = state;
+    setLogs(state.logs);
+    setJobs(state.jobs);
+    setSettings(state.settings);
+    setTemplates(state.templates);
+    setPayslips(state.payslips);
+    setActiveJobId(state.activeJobId || 'all');
+    setActiveShift(state.activeShift);
+  };
+
+  // Fold another tab's changes (relative to `saved`, what this tab last wrote)
+  // into the current state, keeping edits made here since. The store no longer
+  // matches anything this tab saved, so the next save rewrites everything.
+  const mergeIncoming = (saved: AppState, incoming: StorageChanges) => {
+    lastSavedRef.current = null;
+    setLogs(prev => mergeRecordChanges(saved.logs, prev, incoming.logs));
+    setJobs(prev => mergeRecordChanges(saved.jobs, prev, incoming.jobs));
+    setTemplates(prev => mergeRecordChanges(saved.templates, prev, incoming.templates));
+    setPayslips(prev => mergeRecordChanges(saved.payslips, prev, incoming.payslips));
+    const meta = incoming.meta;
+    if (!meta) return;
+    setSettings(prev => mergeFields(saved.settings, prev, meta.settings));
+    setActiveJobId(prev => prev === saved.activeJobId ? (meta.activeJobId || 'all') : prev);
+    setActiveShift(prev => prev === saved.activeShift ? meta.activeShift : prev);
+  };
+
+  // Load from storage on mount
+  useEffect(() => {
+    let cancelled = false;
+    storage.load().then(saved => {
+      if (cancelled) return;
+      if (saved) {
+        const parsed = migrateState(saved.state);
+        revisionRef.current = saved.revision;
+        adoptState(parsed);
+        setDataIssues(validateState(parsed));
+        // Migrated records are new objects, so write everything once
+        if (saved.state.schemaVersion !== parsed.schemaVersion) lastSavedRef.current = null;
+      } else {
         // New user
         const initialJob = { ...DEFAULT_JOB, id: crypto.randomUUID() };
         setJobs([initialJob]);
-    }
-    setIsLoaded(true);
-  }, []);
+      }
+      setIsLoaded(true);
+    }).catch(e => {
+      if (cancelled) return;
+      console.error("Failed to load saved data", e);
+      // Don't let an empty state overwrite data we couldn't read
+      loadFailedRef.current = true;
+      setStorageError(`無法讀取已儲存的資料，本次變更不會被儲存 (${e instanceof Error ? e.message : e})。`);
+      setIsLoaded(true);
+    });
+    return () => { cancelled = true; };
+  }, [storage]);
 
-  // Save to local storage on change
+  // Save changed records on change
   useEffect(() => {
-    if (isLoaded) {
-      const stateToSave: AppState = { logs, settings, jobs, templates, activeJobId };
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(stateToSave));
-    }
-  }, [logs, settings, jobs, templates, isLoaded, activeJobId]);
+    if (!isLoaded || loadFailedRef.current) return;
+    const stateToSave: AppState = { schemaVersion: CURRENT_SCHEMA_VERSION, logs, settings, jobs, templates, payslips, activeJobId, activeShift };
+    const changes = diffState(lastSavedRef.current, stateToSave);
+    if (!hasChanges(changes)) return;
+    const base = lastSavedRef.current;
+    lastSavedRef.current = stateToSave;
+    saveQueueRef.current = saveQueueRef.current
+      .then(async () => {
+        try {
+          revisionRef.current = await storage.save(changes, revisionRef.current);
+        } catch (e) {
+          if (!(e instanceof StorageConflictError)) throw e;
+          // Another tab saved first: re-apply only this tab's changes on top of its data
+          const latest = await storage.load();
+          const latestState = latest ? migrateState(latest.state) : null;
+          const rebased = rebaseChanges(changes, base, latestState);
+          revisionRef.current = await storage.save(rebased, latest?.revision ?? 0);
+          mergeIncoming(stateToSave, diffState(stateToSave, applyChanges(latestState, rebased)));
+          setSyncNotice('另一個分頁同時修改了資料，已合併兩邊的變更。請檢查最近的紀錄。');
+        }
+      })
+      .then(() => setStorageError(null))
+      .catch(e => {
+        console.error("Failed to save data", e);
+        lastSavedRef.current = null;
+        setStorageError(describeStorageError(e));
+      });
+  }, [logs, settings, jobs, templates, payslips, isLoaded, activeJobId, activeShift, storage, saveAttempt]);
+
+  // Pick up saves made in other tabs
+  useEffect(() => {
+    if (!isLoaded || loadFailedRef.current) return;
+    return storage.subscribe(revision => {
+      if (revision === revisionRef.current) return;
+      // Queued behind this tab's own pending saves
+      saveQueueRef.current = saveQueueRef.current
+        .then(async () => {
+          const latest = await storage.load();
+          if (!latest || latest.revision === revisionRef.current) return;
+          revisionRef.current = latest.revision;
+          adoptState(migrateState(latest.state));
+        })
+        .catch(e => console.error("Failed to sync from another tab", e));
+    });
+  }, [isLoaded, storage]);
 
   // Handle Dark Mode
   useEffect(() => {
@@ -107,12 +182,58 @@ const App: React.FC = () => {
     setLogs(prev => [log, ...prev]);
   };
 
+  const handleImportLogs = (newLogs: WorkLog[]) => {
+    setLogs(prev => [...newLogs, ...prev]);
+  };
+
+  const handleImportCsv = (newLogs: WorkLog[], newJobs: Job[]) => {
+    setJobs(prev => [...prev, ...newJobs]);
+    setLogs(prev => [...newLogs, ...prev]);
+  };
+
+  const handleUpdateLog = (updatedLog: WorkLog) => {
+    setLogs(prev => prev.map(l => l.id === updatedLog.id ? touchLog(updatedLog) : l));
+  };
+
   const handleDeleteLog = (id: string) => {
     if (window.confirm("確定要刪除此紀錄嗎？")) {
       setLogs(prev => prev.filter(l => l.id !== id));
     }
   };
   
+  const handleDeleteLogs = (ids: string[]) => {
+    if (window.confirm(`確定要刪除 ${ids.length} 筆紀錄嗎？`)) {
+      const idSet = new Set(ids);
+      setLogs(prev => prev.filter(l => !idSet.has(l.id)));
+    }
+  };
+
+  const handleMoveLogs = (ids: string[], jobId: string) => {
+    const idSet = new Set(ids);
+    setLogs(prev => prev.map(l => idSet.has(l.id) ? touchLog({ ...l, jobId }) : l));
+  };
+  
+  const handleClockIn = (jobId: string) => {
+    setActiveShift({ jobId, startedAt: Date.now(), breaks: [], notes: '' });
+  };
+
+  const handleClockOut = () => {
+    if (!activeShift) return;
+    const log = buildLogFromShift(activeShift);
+    if (log.duration <= 0) {
+      alert("工時太短，未有儲存紀錄。");
+    } else {
+      handleAddLog(log);
+    }
+    setActiveShift(undefined);
+  };
+
+  const handleCancelShift = () => {
+    if (window.confirm("取消此更？計時將會被捨棄。")) {
+      setActiveShift(undefined);
+    }
+  };
+  
   const handleUpdateJob = (updatedJob: Job) => {
       setJobs(prev => prev.map(j => j.id === updatedJob.id ? updatedJob : j));
   };
@@ -126,40 +247,55 @@ const App: React.FC = () => {
           alert("至少需要保留一份工作。");
           return;
       }
-      if (window.confirm("確定刪除此工作？相關的工時紀錄也會被刪除且無法復原。")) {
+      if (window.confirm("確定刪除此工作？相關的工時紀錄、範本及薪資單也會被刪除且無法復原。")) {
           setJobs(prev => prev.filter(j => j.id !== jobId));
           setLogs(prev => prev.filter(l => l.jobId !== jobId));
+          setTemplates(prev => prev.filter(t => t.jobId !== jobId));
+          setPayslips(prev => prev.filter(p => p.jobId !== jobId));
           if (activeJobId === jobId) setActiveJobId('all');
+          if (activeShift?.jobId === jobId) setActiveShift(undefined);
       }
   };
 
+  // `data` has already been migrated and validated by DataManagement
   const handleImport = (data: AppState) => {
     if (window.confirm("匯入數據將覆蓋現有紀錄。確定繼續？")) {
       setLogs(data.logs);
-      setSettings({
-          ...DEFAULT_SETTINGS,
-          ...data.settings
-      });
-      setTemplates(data.templates || []);
-
-      if (!data.jobs || data.jobs.length === 0) {
-           const oldSettings = data.settings as UserSettings;
-           const mainJob: Job = {
-             ...DEFAULT_JOB,
-             id: crypto.randomUUID(),
-             hourlyRate: oldSettings.hourlyRate || DEFAULT_JOB.hourlyRate,
-             weekendHourlyRate: oldSettings.weekendHourlyRate || oldSettings.hourlyRate || DEFAULT_JOB.weekendHourlyRate,
-           };
-           setJobs([mainJob]);
-           setLogs(data.logs.map(l => ({...l, jobId: mainJob.id})));
-      } else {
-          setJobs(data.jobs);
-      }
+      setSettings(data.settings);
+      setTemplates(data.templates);
+      setPayslips(data.payslips);
+      setJobs(data.jobs);
       // Restore imported active job or default to all
       setActiveJobId(data.activeJobId || 'all');
     }
   };
 
+  const handleResolveDataIssues = (mode: DataIssueMode) => {
+    const resolved = resolveDataIssues({ logs, settings, jobs, templates, payslips }, mode);
+    setLogs(resolved.logs);
+    setJobs(resolved.jobs);
+    setTemplates(resolved.templates);
+    setPayslips(resolved.payslips);
+    setDataIssues([]);
+  };
+
+  const handleMergeImport = (merged: Pick<AppState, 'logs' | 'jobs' | 'templates' | 'payslips' | 'settings'>) => {
+    setLogs(merged.logs);
+    setJobs(merged.jobs);
+    setTemplates(merged.templates);
+    setPayslips(merged.payslips);
+    setSettings(merged.settings);
+  };
+
+  // Saving an existing payslip replaces it
+  const handleSavePayslip = (payslip: Payslip) => {
+    setPayslips(prev => prev.some(p => p.id === payslip.id) ? prev.map(p => p.id === payslip.id ? payslip : p) : [payslip, ...prev]);
+  };
+
+  const handleDeletePayslip = (id: string) => {
+    setPayslips(prev => prev.filter(p => p.id !== id));
+  };
+
   if (!isLoaded) return <div className="h-screen flex items-center justify-center bg-gray-50 text-primary dark:bg-gray-900">載入中...</div>;
 
   return (
@@ -178,13 +314,13 @@ const App: React.FC = () => {
           </div>
         </nav>
 
-        {/* Floating Action Button for Quick Add */}
+        {/* Floating Action Button for Quick Add (shows the running shift when clocked in) */}
         <Link 
           to="/log"
-          className="fixed bottom-24 right-6 md:bottom-10 md:right-10 bg-primary hover:bg-indigo-700 text-white p-4 rounded-full shadow-lg shadow-indigo-200 hover:shadow-xl hover:scale-105 transition-all z-40 flex items-center justify-center"
-          aria-label="快速新增"
+          className={`fixed bottom-24 right-6 md:bottom-10 md:right-10 text-white p-4 rounded-full shadow-lg hover:shadow-xl hover:scale-105 transition-all z-40 flex items-center justify-center ${activeShift ? (isOnBreak(activeShift) ? 'bg-amber-500 shadow-amber-200' : 'bg-emerald-500 shadow-emerald-200 animate-pulse') : 'bg-primary hover:bg-indigo-700 shadow-indigo-200'}`}
+          aria-label={activeShift ? "進行中的班次" : "快速新增"}
         >
-          <Plus className="w-6 h-6" strokeWidth={3} />
+          {activeShift ? <Timer className="w-6 h-6" strokeWidth={3} /> : <Plus className="w-6 h-6" strokeWidth={3} />}
         </Link>
 
         {/* Header */}
@@ -195,12 +331,14 @@ const App: React.FC = () => {
                   <Route path="/" element={`你好, ${settings.userName}`} />
                   <Route path="/calendar" element="收入日曆" />
                   <Route path="/log" element="工時記錄" />
+                  <Route path="/history" element="紀錄總覽" />
                   <Route path="/verify" element="薪資單核對" />
                   <Route path="/settings" element="系統設定" />
                   <Route path="/wrapped" element={<span className="flex items-center gap-2"><Sparkles className="text-amber-400 fill-amber-400"/> 年度回顧</span>} />
                 </Routes>
               </h1>
-              <div className="flex flex-col items-end">
+              <div className="flex items-center gap-2">
+                {activeShift && <ShiftTimerBadge activeShift={activeShift} />}
                 <div className="text-xs font-medium px-3 py-1 bg-indigo-50 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-300 rounded-full">
                    {jobs.length > 1 ? (activeJobId === 'all' ? `${jobs.length} 份工作` : jobs.find(j => j.id === activeJobId)?.name) : (jobs[0] ? `${settings.currency} ${jobs[0].hourlyRate}/hr` : '')}
                 </div>
@@ -210,6 +348,31 @@ const App: React.FC = () => {
 
         {/* Main Content Area */}
         <main className="max-w-3xl mx-auto p-6">
+          {storageError && (
+            <div className="mb-6 p-4 rounded-xl border border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/30 text-red-700 dark:text-red-200 text-sm flex items-start gap-3">
+              <AlertCircle className="w-5 h-5 shrink-0" />
+              <div className="flex-1">{storageError}</div>
+              {!loadFailedRef.current && <button onClick={() => setSaveAttempt(n => n + 1)} className="text-xs font-bold underline">重試</button>}
+            </div>
+          )}
+          {syncNotice && (
+            <div className="mb-6 p-4 rounded-xl border border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-900/30 text-amber-800 dark:text-amber-200 text-sm flex items-start gap-3">
+              <AlertCircle className="w-5 h-5 shrink-0" />
+              <div className="flex-1">{syncNotice}</div>
+              <button onClick={() => setSyncNotice(null)} className="text-xs font-bold underline">知道了</button>
+            </div>
+          )}
+          {dataIssues.length > 0 && (
+            <div className="mb-6">
+              <DataIssuesReport
+                title="已儲存的資料有問題"
+                issues={dataIssues}
+                onRepair={() => handleResolveDataIssues('repair')}
+                onSkip={() => handleResolveDataIssues('skip')}
+                onDismiss={() => setDataIssues([])}
+              />
+            </div>
+          )}
           <Routes>
             <Route path="/" element={
               <Dashboard 
@@ -219,6 +382,7 @@ const App: React.FC = () => {
                 onUpdateJob={handleUpdateJob} 
                 activeJobId={activeJobId} 
                 onJobChange={setActiveJobId} 
+                templates={templates}
               />
             } />
             <Route path="/calendar" element={
@@ -228,30 +392,68 @@ const App: React.FC = () => {
                 jobs={jobs} 
                 activeJobId={activeJobId}
                 onJobChange={setActiveJobId}
-              />
-            } />
-            <Route path="/log" element={
-              <WorkLogger 
-                logs={logs} 
-                jobs={jobs} 
-                onAddLog={handleAddLog} 
-                onDeleteLog={handleDeleteLog} 
                 templates={templates}
+                onAddLog={handleAddLog}
+                onUpdateLog={handleUpdateLog}
                 onUpdateTemplates={setTemplates}
-                activeJobId={activeJobId}
-                onJobChange={setActiveJobId}
               />
             } />
-            <Route path="/verify" element={
-              <PayslipVerifier 
+            <Route path="/log" element={
+              <div className="space-y-6">
+                <ShiftTimer 
+                  jobs={jobs}
+                  activeJobId={activeJobId}
+                  activeShift={activeShift}
+                  onClockIn={handleClockIn}
+                  onUpdateShift={setActiveShift}
+                  onClockOut={handleClockOut}
+                  onCancelShift={handleCancelShift}
+                />
+                <WorkLogger 
+                  logs={logs} 
+                  jobs={jobs} 
+                  onAddLog={handleAddLog} 
+                  onUpdateLog={handleUpdateLog}
+                  onDeleteLog={handleDeleteLog} 
+                  templates={templates}
+                  onUpdateTemplates={setTemplates}
+                  activeJobId={activeJobId}
+                  onJobChange={setActiveJobId}
+                />
+              </div>
+            } />
+            <Route path="/history" element={
+              <LogHistory 
                 logs={logs} 
                 settings={settings} 
                 jobs={jobs} 
-                onAddLog={handleAddLog} 
-                activeJobId={activeJobId}
-                onJobChange={setActiveJobId}
+                onDeleteLogs={handleDeleteLogs}
+                onMoveLogs={handleMoveLogs}
               />
             } />
+            <Route path="/verify" element={
+              <div className="space-y-6">
+                <PayslipVerifier 
+                  logs={logs} 
+                  settings={settings} 
+                  jobs={jobs} 
+                  onAddLog={handleAddLog} 
+                  activeJobId={activeJobId}
+                  onJobChange={setActiveJobId}
+                  payslips={payslips}
+                  onSavePayslip={handleSavePayslip}
+                  onDeletePayslip={handleDeletePayslip}
+                />
+                <RosterReconciliation
+                  logs={logs}
+                  settings={settings}
+                  jobs={jobs}
+                  templates={templates}
+                  activeJobId={activeJobId}
+                  onImportLogs={handleImportLogs}
+                />
+              </div>
+            } />
             <Route path="/settings" element={
               <div className="space-y-6">
                 <Settings 
@@ -262,7 +464,7 @@ const App: React.FC = () => {
                     onUpdateJob={handleUpdateJob}
                     onDeleteJob={handleDeleteJob}
                 />
-                <DataManagement appState={{ logs, settings, jobs, templates, activeJobId }} onImport={handleImport} onUpdateSettings={setSettings} />
+                <DataManagement appState={{ logs, settings, jobs, templates, payslips, activeJobId }} onImport={handleImport} onImportCsv={handleImportCsv} onMerge={handleMergeImport} onUpdateSettings={setSettings} />
                 <div className="text-center text-xs text-gray-400 pt-10 pb-4 dark:text-gray-600">
                   PayLevel Up v2.2 • Multi-adjustment & Global State
                 </div>
@@ -1,7 +1,13 @@
 
 import React, { useState, useMemo } from 'react';
-import { WorkLog, UserSettings, Job } from '../types';
-import { ChevronLeft, ChevronRight, X, Calendar as CalendarIcon, Briefcase } from 'lucide-react';
+import { WorkLog, UserSettings, Job, ShiftTemplate } from '../types';
+import { useNavigate } from 'react-router-dom';
+import { ChevronLeft, ChevronRight, X, Calendar as CalendarIcon, Briefcase, Pencil, Check, Repeat } from 'lucide-react';
+import { isWeekendDate, getHolidayName, isPastListedHolidays, LISTED_HOLIDAYS_THROUGH } from '../services/holidays';
+import { calculateLogsPay, summarisePayInRange } from '../services/payEngine';
+import { getPlannedShifts, plannedShiftToLog, skipOccurrence, PlannedShift } from '../services/recurrence';
+import { getLogStatus, getStatusMeta } from '../services/logStatus';
+import { formatLocalDate } from '../services/dates';
 
 interface CalendarViewProps {
   logs: WorkLog[];
@@ -9,9 +15,14 @@ interface CalendarViewProps {
   jobs: Job[];
   activeJobId: string;
   onJobChange: (id: string) => void;
+  templates: ShiftTemplate[];
+  onAddLog: (log: WorkLog) => void;
+  onUpdateLog: (log: WorkLog) => void;
+  onUpdateTemplates: (templates: ShiftTemplate[]) => void;
 }
 
-export const CalendarView: React.FC<CalendarViewProps> = ({ logs, settings, jobs, activeJobId, onJobChange }) => {
+export const CalendarView: React.FC<CalendarViewProps> = ({ logs, settings, jobs, activeJobId, onJobChange, templates, onAddLog, onUpdateLog, onUpdateTemplates }) => {
+  const navigate = useNavigate();
   const [currentDate, setCurrentDate] = useState(new Date());
   
   // Selection State
@@ -21,22 +32,15 @@ export const CalendarView: React.FC<CalendarViewProps> = ({ logs, settings, jobs
   const year = currentDate.getFullYear();
   const month = currentDate.getMonth();
 
-  // Helper: Get hourly rate for a specific log's job and date
-  const getLogValue = (log: WorkLog) => {
-    const job = jobs.find(j => j.id === log.jobId);
-    if (!job) return 0;
-    const d = new Date(log.date);
-    const day = d.getDay();
-    const isWeekend = day === 0 || day === 6;
-    return log.duration * (isWeekend ? job.weekendHourlyRate : job.hourlyRate);
-  };
-
   // Filter logs first
   const filteredLogs = useMemo(() => {
       if (activeJobId === 'all') return logs;
       return logs.filter(l => l.jobId === activeJobId);
   }, [logs, activeJobId]);
 
+  // Earnings via the shared pay engine; overnight shifts split across days
+  const payBreakdowns = useMemo(() => calculateLogsPay(filteredLogs, jobs, settings), [filteredLogs, jobs, settings]);
+
   // 1. Generate Calendar Grid
   const calendarDays = useMemo(() => {
     const firstDayOfMonth = new Date(year, month, 1);
@@ -57,17 +61,42 @@ export const CalendarView: React.FC<CalendarViewProps> = ({ logs, settings, jobs
   const dailyStats = useMemo(() => {
     const stats: Record<string, { hours: number; earnings: number; count: number }> = {};
     
-    filteredLogs.forEach(log => {
-      if (!stats[log.date]) {
-        stats[log.date] = { hours: 0, earnings: 0, count: 0 };
-      }
-      stats[log.date].hours += log.duration;
-      stats[log.date].earnings += getLogValue(log);
-      stats[log.date].count += 1;
+    payBreakdowns.forEach(pay => {
+      pay.lines.forEach(line => {
+        if (!stats[line.date]) {
+          stats[line.date] = { hours: 0, earnings: 0, count: 0 };
+        }
+        stats[line.date].hours += line.hours;
+        stats[line.date].earnings += line.amount;
+      });
+      if (stats[pay.date]) stats[pay.date].count += 1;
     });
 
     return stats;
-  }, [filteredLogs, jobs]);
+  }, [payBreakdowns]);
+
+  // Planned shifts from recurring templates (visible month plus any selection)
+  const plannedShifts = useMemo(() => {
+      const monthStart = `${year}-${String(month + 1).padStart(2, '0')}-01`;
+      const monthEnd = `${year}-${String(month + 1).padStart(2, '0')}-31`;
+      const from = selectStart && selectStart < monthStart ? selectStart : monthStart;
+      const to = selectEnd && selectEnd > monthEnd ? selectEnd : monthEnd;
+      return getPlannedShifts(templates, logs, from, to).filter(p => activeJobId === 'all' || p.jobId === activeJobId);
+  }, [templates, logs, year, month, selectStart, selectEnd, activeJobId]);
+
+  // Planned hours per day: recurring-template shifts plus rostered logs not yet worked
+  const plannedByDate = useMemo(() => {
+      const byDate: Record<string, number> = {};
+      plannedShifts.forEach(p => { byDate[p.date] = (byDate[p.date] || 0) + p.duration; });
+      filteredLogs.filter(l => l.status === 'planned').forEach(l => { byDate[l.date] = (byDate[l.date] || 0) + l.duration; });
+      return byDate;
+  }, [plannedShifts, filteredLogs]);
+
+  const confirmPlanned = (shift: PlannedShift) => onAddLog(plannedShiftToLog(shift));
+
+  const skipPlanned = (shift: PlannedShift) => {
+      onUpdateTemplates(templates.map(t => t.id === shift.templateId ? skipOccurrence(t, shift.date) : t));
+  };
 
   // 3. Selection Logic
   const handleDateClick = (dateStr: string) => {
@@ -96,17 +125,12 @@ export const CalendarView: React.FC<CalendarViewProps> = ({ logs, settings, jobs
     const rangeStart = selectStart;
     const rangeEnd = selectEnd || selectStart;
     const rangeLogs = filteredLogs.filter(l => l.date >= rangeStart && l.date <= rangeEnd);
-    
-    let totalHours = 0;
-    let totalEarnings = 0;
+    const totals = summarisePayInRange(payBreakdowns, rangeStart, rangeEnd);
 
-    rangeLogs.forEach(l => {
-        totalHours += l.duration;
-        totalEarnings += getLogValue(l);
-    });
-
-    return { totalHours, totalEarnings };
-  }, [selectStart, selectEnd, filteredLogs, jobs]);
+    const sortedLogs = [...rangeLogs].sort((a, b) => a.date.localeCompare(b.date) || a.startTime.localeCompare(b.startTime));
+    const rangePlanned = plannedShifts.filter(p => p.date >= rangeStart && p.date <= rangeEnd);
+    return { totalHours: totals.totalHours, totalEarnings: totals.amount, rangeLogs: sortedLogs, rangePlanned };
+  }, [selectStart, selectEnd, filteredLogs, payBreakdowns, plannedShifts]);
 
   const prevMonth = () => setCurrentDate(new Date(year, month - 1, 1));
   const nextMonth = () => setCurrentDate(new Date(year, month + 1, 1));
@@ -150,6 +174,12 @@ export const CalendarView: React.FC<CalendarViewProps> = ({ logs, settings, jobs
         </div>
       </div>
 
+      {isPastListedHolidays(`${year}-01-01`, settings) && (
+        <div className="bg-amber-50 border border-amber-100 text-amber-700 text-[10px] px-3 py-2 mb-1">
+            {year} 年的農曆及另行公佈假期未有內置資料 (只到 {LISTED_HOLIDAYS_THROUGH} 年)，請在設定加入自訂假期
+        </div>
+      )}
+
       {/* Grid */}
       <div className="bg-white rounded-b-2xl shadow-sm border border-gray-100 p-2">
         <div className="grid grid-cols-7 mb-2 border-b border-gray-100 pb-2">
@@ -162,25 +192,34 @@ export const CalendarView: React.FC<CalendarViewProps> = ({ logs, settings, jobs
                 if (!item.day) return <div key={`empty-${idx}`} className="bg-gray-50/30"></div>;
                 
                 const stats = dailyStats[item.fullDate];
+                const planned = plannedByDate[item.fullDate];
                 const selected = isSelected(item.fullDate);
-                const isToday = item.fullDate === new Date().toISOString().slice(0, 10);
-                const isWeekend = new Date(item.fullDate).getDay() % 6 === 0;
+                const isToday = item.fullDate === formatLocalDate(new Date());
+                const isWeekend = isWeekendDate(item.fullDate);
+                const holidayName = getHolidayName(item.fullDate, settings);
 
                 return (
                     <div 
                         key={item.fullDate}
                         onClick={() => handleDateClick(item.fullDate)}
-                        className={`relative border border-gray-50 p-1 cursor-pointer select-none flex flex-col justify-between ${selected ? 'bg-indigo-100/50' : 'hover:bg-gray-50'}`}
+                        title={holidayName}
+                        className={`relative border border-gray-50 p-1 cursor-pointer select-none flex flex-col justify-between ${selected ? 'bg-indigo-100/50' : (holidayName ? 'bg-red-50/60 hover:bg-red-50' : 'hover:bg-gray-50')}`}
                     >
                         <div className="flex justify-between items-start">
-                            <span className={`text-xs font-medium ${isToday ? 'bg-primary text-white w-5 h-5 flex items-center justify-center rounded-full' : (isWeekend ? 'text-red-400' : 'text-gray-700')}`}>
+                            <span className={`text-xs font-medium ${isToday ? 'bg-primary text-white w-5 h-5 flex items-center justify-center rounded-full' : (isWeekend || holidayName ? 'text-red-400' : 'text-gray-700')}`}>
                                 {item.day}
                             </span>
                         </div>
+                        {holidayName && <div className="text-[8px] leading-tight text-red-400 truncate">{holidayName}</div>}
                         {stats && (
                             <div className="text-right mt-1">
                                 <div className="text-[10px] font-bold text-red-500/80">{stats.earnings.toFixed(0)}</div>
-                                <div className="text-[9px] text-gray-400 hidden sm:block">{stats.hours}h</div>
+                                <div className="text-[9px] text-gray-400 hidden sm:block">{parseFloat(stats.hours.toFixed(2))}h</div>
+                            </div>
+                        )}
+                        {planned && (
+                            <div className="text-right text-[9px] text-emerald-600 border border-dashed border-emerald-300 rounded px-0.5 mt-0.5 truncate">
+                                計劃 {parseFloat(planned.toFixed(2))}h
                             </div>
                         )}
                     </div>
@@ -201,6 +240,52 @@ export const CalendarView: React.FC<CalendarViewProps> = ({ logs, settings, jobs
                  <div className="bg-gray-50 p-2 rounded-lg flex-1 text-center"><div className="text-[10px] text-gray-500">總工時</div><div className="font-bold text-gray-800">{selectedStats.totalHours.toFixed(2)}</div></div>
                  <div className="bg-indigo-50 p-2 rounded-lg flex-1 text-center"><div className="text-[10px] text-indigo-500">總收入</div><div className="font-bold text-indigo-700">{settings.currency} {selectedStats.totalEarnings.toLocaleString()}</div></div>
             </div>
+            {selectedStats.rangeLogs.length > 0 && (
+                <div className="mt-3 pt-2 border-t border-gray-100 max-h-40 overflow-y-auto space-y-1">
+                    {selectedStats.rangeLogs.map(log => {
+                        const logJob = jobs.find(j => j.id === log.jobId);
+                        const status = getLogStatus(log);
+                        return (
+                            <div key={log.id} className="flex items-center justify-between text-xs">
+                                <div className="flex items-center gap-2 min-w-0">
+                                    <div className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: logJob?.color || '#ccc' }}></div>
+                                    <span className="text-gray-600 font-mono">{log.date.slice(5)}</span>
+                                    <span className="text-gray-500 truncate">{log.startTime} - {log.endTime}</span>
+                                    <span className="font-medium text-gray-700">{log.duration}h</span>
+                                    {status !== 'worked' && <span className={`text-[9px] px-1 rounded ${getStatusMeta(status).className}`}>{getStatusMeta(status).label}</span>}
+                                </div>
+                                <div className="flex items-center">
+                                    {status === 'planned' && <button onClick={() => onUpdateLog({ ...log, status: 'worked' })} className="p-1 text-gray-400 hover:text-emerald-600" title="確認已工作"><Check className="w-3 h-3" /></button>}
+                                    <button onClick={() => navigate('/log', { state: { editLogId: log.id } })} className="p-1 text-gray-400 hover:text-indigo-600" title="編輯"><Pencil className="w-3 h-3" /></button>
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+            {selectedStats.rangePlanned.length > 0 && (
+                <div className="mt-3 pt-2 border-t border-dashed border-emerald-200 max-h-40 overflow-y-auto space-y-1">
+                    <div className="text-[10px] font-bold text-emerald-600 flex items-center gap-1"><Repeat className="w-3 h-3" /> 計劃排班 (未計入)</div>
+                    {selectedStats.rangePlanned.map(shift => {
+                        const shiftJob = jobs.find(j => j.id === shift.jobId);
+                        return (
+                            <div key={`${shift.templateId}-${shift.date}`} className="flex items-center justify-between text-xs">
+                                <div className="flex items-center gap-2 min-w-0">
+                                    <div className="w-2 h-2 rounded-full flex-shrink-0 border border-dashed" style={{ borderColor: shiftJob?.color || '#ccc' }}></div>
+                                    <span className="text-gray-600 font-mono">{shift.date.slice(5)}</span>
+                                    <span className="text-gray-500 truncate">{shift.startTime} - {shift.endTime}</span>
+                                    <span className="font-medium text-gray-700">{shift.duration}h</span>
+                                </div>
+                                <div className="flex items-center">
+                                    <button onClick={() => confirmPlanned(shift)} className="p-1 text-gray-400 hover:text-emerald-600" title="確認"><Check className="w-3 h-3" /></button>
+                                    <button onClick={() => navigate('/log', { state: { plannedShift: shift } })} className="p-1 text-gray-400 hover:text-indigo-600" title="修改後確認"><Pencil className="w-3 h-3" /></button>
+                                    <button onClick={() => skipPlanned(shift)} className="p-1 text-gray-400 hover:text-red-500" title="跳過"><X className="w-3 h-3" /></button>
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
         </div>
       )}
     </div>
@@ -0,0 +1,207 @@
+import React, { useState, useMemo, useRef } from 'react';
+import { WorkLog, Job } from '../types';
+import { Upload, CheckCircle, AlertTriangle, X, ArrowRight, ArrowLeft } from 'lucide-react';
+import { parseCsv } from '../services/csv';
+import {
+  CSV_FIELDS, DATE_FORMATS, TIME_FORMATS, NEW_JOB,
+  CsvImportOptions, CsvField, CsvDateFormat, CsvTimeFormat,
+  guessMapping, parseCsvRows, findUnknownJobNames, buildCsvImport,
+} from '../services/csvImport';
+
+interface CsvImportWizardProps {
+  logs: WorkLog[];
+  jobs: Job[];
+  defaultJobId: string;
+  onImport: (logs: WorkLog[], newJobs: Job[]) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_ROWS = 20;
+
+export const CsvImportWizard: React.FC<CsvImportWizardProps> = ({ logs, jobs, defaultJobId, onImport, onClose }) => {
+  const [step, setStep] = useState<'upload' | 'map' | 'preview'>('upload');
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<string[][]>([]);
+  const [options, setOptions] = useState<CsvImportOptions | null>(null);
+  const [fallbackJobId, setFallbackJobId] = useState(defaultJobId);
+  const [jobMapping, setJobMapping] = useState<Record<string, string>>({});
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      if (!file) return;
+      const reader = new FileReader();
+      reader.onload = (event) => {
+          const parsed = parseCsv(event.target?.result as string);
+          const mapping = guessMapping(parsed[0] || []);
+          setFileName(file.name);
+          setRows(parsed);
+          setOptions({
+              hasHeader: mapping.date >= 0,
+              mapping: mapping.date >= 0 ? mapping : { date: 0, start: 1, end: 2, break: -1, duration: -1, job: -1, notes: 3, status: -1 },
+              dateFormat: 'auto',
+              timeFormat: 'auto',
+          });
+          setStep('map');
+      };
+      reader.readAsText(file);
+      e.target.value = '';
+  };
+
+  const columnCount = Math.max(0, ...rows.map(r => r.length));
+  const columnLabel = (i: number) => options?.hasHeader && rows[0]?.[i] ? rows[0][i] : `第 ${i + 1} 欄`;
+
+  const parsedRows = useMemo(() => options ? parseCsvRows(rows, options) : [], [rows, options]);
+  const unknownJobs = useMemo(() => findUnknownJobNames(parsedRows.filter(r => r.errors.length === 0), jobs), [parsedRows, jobs]);
+  const result = useMemo(
+      () => buildCsvImport(parsedRows, jobs, jobMapping, fallbackJobId, logs),
+      [parsedRows, jobs, jobMapping, fallbackJobId, logs]
+  );
+
+  const invalidCount = result.rows.filter(r => r.errors.length > 0).length;
+  const duplicateCount = result.rows.filter(r => r.duplicate).length;
+
+  const setField = (field: CsvField, index: number) => {
+      if (!options) return;
+      setOptions({ ...options, mapping: { ...options.mapping, [field]: index } });
+  };
+
+  const handleConfirm = () => {
+      if (result.logs.length === 0) return;
+      onImport(result.logs, result.newJobs);
+      onClose();
+  };
+
+  return (
+    <div className="mt-4 p-4 rounded-xl border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-900/30 space-y-3 text-sm">
+      <div className="flex justify-between items-center">
+          <h4 className="font-semibold text-gray-700 dark:text-gray-200">匯入 CSV / 試算表 {fileName && <span className="text-xs text-gray-400 font-normal">({fileName})</span>}</h4>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><X className="w-4 h-4" /></button>
+      </div>
+
+      {step === 'upload' && (
+          <div className="space-y-2">
+              <p className="text-xs text-gray-500 dark:text-gray-400">上載由試算表或僱主工時系統匯出的 CSV 檔案。本 App 的 CSV 匯出亦可直接匯入。</p>
+              <button onClick={() => fileInputRef.current?.click()} className="w-full py-3 rounded-lg border-2 border-dashed border-gray-300 dark:border-gray-600 text-gray-500 hover:border-primary hover:text-primary flex items-center justify-center gap-2">
+                  <Upload className="w-4 h-4" /> 選擇 CSV 檔案
+              </button>
+              <input type="file" ref={fileInputRef} onChange={handleFile} accept=".csv,.txt" className="hidden" />
+          </div>
+      )}
+
+      {step === 'map' && options && (
+          <div className="space-y-3">
+              <label className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-300">
+                  <input type="checkbox" checked={options.hasHeader} onChange={(e) => setOptions({ ...options, hasHeader: e.target.checked })} />
+                  第一行是標題
+              </label>
+              <div className="grid grid-cols-2 gap-2">
+                  {CSV_FIELDS.map(field => (
+                      <label key={field.value} className="text-xs text-gray-500 dark:text-gray-400">
+                          {field.label}
+                          <select
+                              value={options.mapping[field.value]}
+                              onChange={(e) => setField(field.value, Number(e.target.value))}
+                              className="mt-1 w-full bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600 rounded-lg p-1.5 text-xs dark:text-white"
+                          >
+                              <option value={-1}>— 不使用 —</option>
+                              {Array.from({ length: columnCount }, (_, i) => <option key={i} value={i}>{columnLabel(i)}</option>)}
+                          </select>
+                      </label>
+                  ))}
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                  <label className="text-xs text-gray-500 dark:text-gray-400">
+                      日期格式
+                      <select value={options.dateFormat} onChange={(e) => setOptions({ ...options, dateFormat: e.target.value as CsvDateFormat })} className="mt-1 w-full bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600 rounded-lg p-1.5 text-xs dark:text-white">
+                          {DATE_FORMATS.map(f => <option key={f.value} value={f.value}>{f.label}</option>)}
+                      </select>
+                  </label>
+                  <label className="text-xs text-gray-500 dark:text-gray-400">
+                      時間格式
+                      <select value={options.timeFormat} onChange={(e) => setOptions({ ...options, timeFormat: e.target.value as CsvTimeFormat })} className="mt-1 w-full bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600 rounded-lg p-1.5 text-xs dark:text-white">
+                          {TIME_FORMATS.map(f => <option key={f.value} value={f.value}>{f.label}</option>)}
+                      </select>
+                  </label>
+              </div>
+              <p className="text-[10px] text-gray-400">* 有工時欄時以其為準 (已扣休息)；否則由開始/結束時間計算。</p>
+              <div className="flex gap-2">
+                  <button onClick={() => setStep('upload')} className="px-3 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg text-xs flex items-center gap-1"><ArrowLeft className="w-3 h-3" /> 返回</button>
+                  <button onClick={() => setStep('preview')} disabled={options.mapping.date < 0} className="flex-1 bg-primary hover:bg-indigo-700 text-white py-2 rounded-lg text-xs font-bold flex items-center justify-center gap-1 disabled:opacity-50">預覽 <ArrowRight className="w-3 h-3" /></button>
+              </div>
+          </div>
+      )}
+
+      {step === 'preview' && options && (
+          <div className="space-y-3">
+              <div className="grid grid-cols-2 gap-2 items-center">
+                  <span className="text-xs text-gray-500 dark:text-gray-400">{options.mapping.job >= 0 ? '沒有工作名稱的行' : '所有行'}匯入至</span>
+                  <select value={fallbackJobId} onChange={(e) => setFallbackJobId(e.target.value)} className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600 rounded-lg p-1.5 text-xs dark:text-white">
+                      {jobs.map(j => <option key={j.id} value={j.id}>{j.name}</option>)}
+                  </select>
+              </div>
+
+              {unknownJobs.length > 0 && (
+                  <div className="p-3 rounded-lg border border-indigo-100 dark:border-indigo-800 bg-indigo-50 dark:bg-indigo-900/30 space-y-2">
+                      <div className="text-xs font-bold text-indigo-800 dark:text-indigo-200">配對工作</div>
+                      {unknownJobs.map(name => (
+                          <div key={name} className="grid grid-cols-2 gap-2 items-center">
+                              <span className="text-xs text-gray-700 dark:text-gray-200 truncate">{name}</span>
+                              <select
+                                  value={jobMapping[name] || fallbackJobId}
+                                  onChange={(e) => setJobMapping({ ...jobMapping, [name]: e.target.value })}
+                                  className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600 rounded-lg p-1.5 text-xs dark:text-white"
+                              >
+                                  {jobs.map(j => <option key={j.id} value={j.id}>{j.name}</option>)}
+                                  <option value={NEW_JOB}>+ 新增工作「{name}」</option>
+                              </select>
+                          </div>
+                      ))}
+                  </div>
+              )}
+
+              <div className={`p-3 rounded-lg border text-xs ${result.logs.length > 0 ? 'bg-green-50 border-green-100 text-green-800 dark:bg-green-900/30 dark:border-green-800 dark:text-green-200' : 'bg-yellow-50 border-yellow-100 text-yellow-800'}`}>
+                  <div className="font-bold flex items-center gap-1"><CheckCircle className="w-3 h-3" /> {result.logs.length} 筆可匯入</div>
+                  {(invalidCount > 0 || duplicateCount > 0) && (
+                      <div className="mt-1">{invalidCount > 0 && `${invalidCount} 筆有錯誤`}{invalidCount > 0 && duplicateCount > 0 && '，'}{duplicateCount > 0 && `${duplicateCount} 筆已存在 (略過)`}</div>
+                  )}
+                  {result.newJobs.length > 0 && <div className="mt-1">將新增工作: {result.newJobs.map(j => j.name).join(', ')}</div>}
+              </div>
+
+              <div className="max-h-64 overflow-y-auto rounded-lg border border-gray-200 dark:border-gray-700">
+                  <table className="w-full text-[10px]">
+                      <thead className="bg-gray-100 dark:bg-gray-800 text-gray-500 sticky top-0">
+                          <tr><th className="p-1 text-left">行</th><th className="p-1 text-left">日期</th><th className="p-1 text-left">時間</th><th className="p-1 text-right">工時</th><th className="p-1 text-left">工作</th></tr>
+                      </thead>
+                      <tbody>
+                          {result.rows.slice(0, PREVIEW_ROWS).map(row => (
+                              <React.Fragment key={row.line}>
+                                  <tr className={`border-t border-gray-100 dark:border-gray-700 ${row.errors.length > 0 ? 'bg-red-50 dark:bg-red-900/20' : row.duplicate ? 'text-gray-400 line-through' : 'dark:text-gray-200'}`}>
+                                      <td className="p-1 font-mono">{row.line}</td>
+                                      <td className="p-1 font-mono">{row.date}</td>
+                                      <td className="p-1 font-mono">{row.startTime === '-' ? '-' : `${row.startTime}-${row.endTime}`}</td>
+                                      <td className="p-1 text-right">{row.duration}h</td>
+                                      <td className="p-1 truncate">{row.jobName || jobs.find(j => j.id === fallbackJobId)?.name}</td>
+                                  </tr>
+                                  {row.errors.length > 0 && (
+                                      <tr className="bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-300">
+                                          <td></td>
+                                          <td colSpan={4} className="p-1 flex items-center gap-1"><AlertTriangle className="w-3 h-3" /> {row.errors.join('；')}</td>
+                                      </tr>
+                                  )}
+                              </React.Fragment>
+                          ))}
+                      </tbody>
+                  </table>
+                  {result.rows.length > PREVIEW_ROWS && <div className="text-[10px] text-gray-400 p-1 text-center">...及另外 {result.rows.length - PREVIEW_ROWS} 行</div>}
+              </div>
+
+              <div className="flex gap-2">
+                  <button onClick={() => setStep('map')} className="px-3 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg text-xs flex items-center gap-1"><ArrowLeft className="w-3 h-3" /> 欄位</button>
+                  <button onClick={handleConfirm} disabled={result.logs.length === 0} className="flex-1 bg-primary hover:bg-indigo-700 text-white py-2 rounded-lg text-xs font-bold disabled:opacity-50">匯入 {result.logs.length} 筆紀錄</button>
+              </div>
+          </div>
+      )}
+    </div>
+  );
+};
@@ -1,9 +1,19 @@
 
 import React, { useState, useMemo } from 'react';
-import { WorkLog, UserSettings, Job } from '../types';
+import { WorkLog, UserSettings, Job, ShiftTemplate } from '../types';
 import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Cell, CartesianGrid } from 'recharts';
-import { Sparkles, TrendingUp, CalendarRange, Activity, Filter, ArrowUpCircle, Trophy, ChevronRight } from 'lucide-react';
+import { Sparkles, TrendingUp, CalendarRange, Activity, Filter, ArrowUpCircle, Trophy, ChevronRight, ChevronLeft, Target, Repeat, PiggyBank, Wallet } from 'lucide-react';
 import { Link } from 'react-router-dom';
+import { isPenaltyRateDay } from '../services/holidays';
+import { calculateLogsPay, summarisePay, summarisePayInRange, groupLinesByDate } from '../services/payEngine';
+import { calculateNetPay, hasTaxSetup } from '../services/tax';
+import { calculateContributionsInRange, hasContributions } from '../services/contributions';
+import { getPayCycle, getPayPeriod, getPreviousPayPeriod, getNextPayPeriod, getUpcomingPayday, getCycleTaxPeriod, describePayCycle, formatPayPeriod } from '../services/payCycles';
+import { parseLocalDate, formatLocalDate, addDays } from '../services/dates';
+import { hasLadder, canPromote, promoteToNextLevel, getNextLevel, getLadderSteps } from '../services/careerLadder';
+import { forecastTarget, hoursPerWeekNeeded, projectDate, VELOCITY_WINDOWS } from '../services/forecast';
+import { getPlannedShifts, plannedShiftToLog } from '../services/recurrence';
+import { isWorkedLog } from '../services/logStatus';
 
 interface DashboardProps {
   logs: WorkLog[];
@@ -12,60 +22,52 @@ interface DashboardProps {
   onUpdateJob: (updatedJob: Job) => void;
   activeJobId: string;
   onJobChange: (id: string) => void;
+  templates: ShiftTemplate[];
 }
 
+// How far ahead planned (recurring) shifts are projected
+const PROJECTION_WEEKS = 4;
+
 type TrendMode = 'recent' | 'week' | 'biweek' | 'month' | 'history';
 
-export const Dashboard: React.FC<DashboardProps> = ({ logs, settings, jobs, onUpdateJob, activeJobId, onJobChange }) => {
+export const Dashboard: React.FC<DashboardProps> = ({ logs, settings, jobs, onUpdateJob, activeJobId, onJobChange, templates }) => {
   // UI States
   const [trendMode, setTrendMode] = useState<TrendMode>('recent');
-  const [trendDate, setTrendDate] = useState(new Date().toISOString().slice(0, 10)); 
-  const [trendMonth, setTrendMonth] = useState(new Date().toISOString().slice(0, 7)); 
-  const [selectedMonthStr, setSelectedMonthStr] = useState(new Date().toISOString().slice(0, 7)); 
-  const [selectedBiWeekEndStr, setSelectedBiWeekEndStr] = useState(new Date().toISOString().slice(0, 10)); 
+  const [trendDate, setTrendDate] = useState(() => formatLocalDate(new Date()));
+  const [trendMonth, setTrendMonth] = useState(() => formatLocalDate(new Date()).slice(0, 7));
+  const [selectedMonthStr, setSelectedMonthStr] = useState(() => formatLocalDate(new Date()).slice(0, 7));
+  const [selectedPeriodDate, setSelectedPeriodDate] = useState(() => formatLocalDate(new Date()));
+  const [paceTargetDate, setPaceTargetDate] = useState(() => {
+      const d = new Date();
+      d.setMonth(d.getMonth() + 3);
+      return formatLocalDate(d);
+  });
 
   // Detect latest year for Wrapped
   const latestDataYear = useMemo(() => {
       if (logs.length === 0) return new Date().getFullYear();
-      const years = logs.map(l => new Date(l.date).getFullYear());
+      const years = logs.map(l => parseLocalDate(l.date).getFullYear());
       return Math.max(...years);
   }, [logs]);
 
-  // Filter logs based on selected Job
+  // Filter logs based on selected Job; planned/cancelled/sick shifts don't count
   const filteredLogs = useMemo(() => {
-      if (activeJobId === 'all') return logs;
-      return logs.filter(l => l.jobId === activeJobId);
+      return logs.filter(l => isWorkedLog(l) && (activeJobId === 'all' || l.jobId === activeJobId));
   }, [logs, activeJobId]);
 
-  // Helper: Get rate for a specific log (looks up its job)
-  const getLogEarnings = (log: WorkLog) => {
-    const job = jobs.find(j => j.id === log.jobId);
-    if (!job) return 0;
-    const d = new Date(log.date);
-    const day = d.getDay();
-    const isWeekend = day === 0 || day === 6;
-    const rate = isWeekend ? job.weekendHourlyRate : job.hourlyRate;
-    return log.duration * rate;
-  };
+  // Priced once; overnight shifts are allocated to the day each part was worked
+  const payBreakdowns = useMemo(() => calculateLogsPay(filteredLogs, jobs, settings), [filteredLogs, jobs, settings]);
+  const dailyTotals = useMemo(() => groupLinesByDate(payBreakdowns), [payBreakdowns]);
 
-  const getLogNextEarnings = (log: WorkLog) => {
-    const job = jobs.find(j => j.id === log.jobId);
-    if (!job) return 0;
-    const d = new Date(log.date);
-    const day = d.getDay();
-    const isWeekend = day === 0 || day === 6;
-    const rate = isWeekend ? job.nextWeekendHourlyRate : job.nextHourlyRate;
-    return log.duration * rate;
-  };
-  
-  const calculateTotalEarnings = (logsToCalc: WorkLog[]) => {
-      return logsToCalc.reduce((sum, log) => sum + getLogEarnings(log), 0);
-  };
+  const showNet = hasTaxSetup(settings);
 
-  const calculateAfterTax = (gross: number) => {
-      const tax = gross * ((settings.taxRate || 0) / 100);
-      return gross - tax;
-  };
+  // Super / MPF for the calendar year so far
+  const contributionsYtd = useMemo(() => {
+      const jobsWithRules = jobs.filter(j => hasContributions(j) && (activeJobId === 'all' || j.id === activeJobId));
+      if (jobsWithRules.length === 0) return null;
+      const today = formatLocalDate(new Date());
+      return calculateContributionsInRange(payBreakdowns, jobsWithRules, `${today.slice(0, 4)}-01-01`, today);
+  }, [payBreakdowns, jobs, activeJobId]);
 
   // 1. Basic Progress Stats (Only if single job selected, or aggregate hours?)
   // For 'All', we sum hours. Target is tricky for 'All', maybe show N/A or sum targets.
@@ -81,22 +83,59 @@ export const Dashboard: React.FC<DashboardProps> = ({ logs, settings, jobs, onUp
       if (job) {
           targetHours = job.targetHours;
           progressPercent = Math.min(100, Math.max(0, (totalHours / targetHours) * 100));
-          canLevelUp = totalHours >= targetHours && (job.hourlyRate < job.nextHourlyRate);
+          canLevelUp = canPromote(job, totalHours);
           activeJobForLevelUp = job;
       }
   }
 
+  // Forecast from recent logging velocity (single job only)
+  const hoursRemaining = Math.max(0, targetHours - totalHours);
+  const forecast = useMemo(() => forecastTarget(filteredLogs, hoursRemaining), [filteredLogs, hoursRemaining]);
+  const neededPace = hoursPerWeekNeeded(hoursRemaining, paceTargetDate);
+
+  // Career ladder path (whole route, not just the next step)
+  const weeklyVelocity = forecast.expectedPace;
+  const ladderSteps = activeJobForLevelUp && hasLadder(activeJobForLevelUp) ? getLadderSteps(activeJobForLevelUp, totalHours) : [];
+  const ladderMaxHours = ladderSteps.length > 0 ? Math.max(1, ladderSteps[ladderSteps.length - 1].level.thresholdHours) : 1;
+  const nextLevelName = activeJobForLevelUp ? getNextLevel(activeJobForLevelUp)?.name : undefined;
+
   const handleLevelUp = () => {
-    if (activeJobForLevelUp && window.confirm(`Congratulations!\n\nUpdate rates for ${activeJobForLevelUp.name}?`)) {
-        onUpdateJob({
-            ...activeJobForLevelUp,
-            hourlyRate: activeJobForLevelUp.nextHourlyRate,
-            weekendHourlyRate: activeJobForLevelUp.nextWeekendHourlyRate,
-        });
+    const label = nextLevelName ? ` to ${nextLevelName}` : '';
+    if (activeJobForLevelUp && window.confirm(`Congratulations!\n\nUpdate rates for ${activeJobForLevelUp.name}${label}?`)) {
+        // New rates apply from today; earlier shifts keep the rate they were worked at
+        onUpdateJob(promoteToNextLevel(activeJobForLevelUp, formatLocalDate(new Date())));
     }
   };
 
-  const potentialNextEarnings = filteredLogs.reduce((sum, log) => sum + getLogNextEarnings(log), 0);
+  // Forward projection from planned shifts (recurring templates and rostered
+  // logs). Priced alongside confirmed logs so overtime thresholds account for
+  // hours already worked this week.
+  const projection = useMemo(() => {
+      const today = new Date();
+      const end = new Date(today);
+      end.setDate(end.getDate() + PROJECTION_WEEKS * 7 - 1);
+      const from = formatLocalDate(today);
+      const to = formatLocalDate(end);
+      const plannedLogs = [
+          ...getPlannedShifts(templates, logs, from, to).map(plannedShiftToLog),
+          ...logs.filter(l => l.status === 'planned' && l.date >= from && l.date <= to),
+      ].filter(l => activeJobId === 'all' || l.jobId === activeJobId)
+       .sort((a, b) => a.date.localeCompare(b.date) || a.startTime.localeCompare(b.startTime))
+       .map(l => ({ ...l, status: 'planned' as const }));
+      const plannedIds = new Set(plannedLogs.map(l => l.id));
+      const pay = summarisePay(calculateLogsPay([...filteredLogs, ...plannedLogs], jobs, settings, { includePlanned: true }).filter(b => plannedIds.has(b.logId)));
+
+      // First planned shift that takes cumulative hours past the target
+      let runningHours = 0;
+      const reachDate = hoursRemaining > 0 ? plannedLogs.find(l => (runningHours += l.duration) >= hoursRemaining)?.date : undefined;
+      return { count: plannedLogs.length, hours: pay.totalHours, earnings: pay.amount, reachDate };
+  }, [templates, logs, filteredLogs, activeJobId, jobs, settings, hoursRemaining]);
+
+  const currentPay = summarisePay(payBreakdowns);
+  const potentialNextEarnings = summarisePay(calculateLogsPay(filteredLogs, jobs, settings, { useNextLevel: true })).amount;
+  // Extra per hour at the next level, using this job's own weekday/weekend mix
+  const upliftPerHour = currentPay.totalHours > 0 ? (potentialNextEarnings - currentPay.amount) / currentPay.totalHours : 0;
+  const upliftPerWeek = upliftPerHour * forecast.expectedPace;
 
   // 2. Chart Data Generation
   const chartData = useMemo(() => {
@@ -111,8 +150,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ logs, settings, jobs, onUp
       for (let i = 5; i >= 0; i--) {
         const d = new Date(today.getFullYear(), today.getMonth() - i, 1);
         const monthKey = `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
-        const monthLogs = filteredLogs.filter(l => l.date.startsWith(monthKey));
-        const monthTotal = monthLogs.reduce((sum, l) => sum + l.duration, 0);
+        const monthTotal = summarisePayInRange(payBreakdowns, `${monthKey}-01`, `${monthKey}-31`).totalHours;
         data.push({ name: `${d.getMonth() + 1}月`, hours: monthTotal, fullDate: monthKey, isWeekend: false });
       }
       return data;
@@ -121,22 +159,20 @@ export const Dashboard: React.FC<DashboardProps> = ({ logs, settings, jobs, onUp
     // Daily Logic Setup
     if (trendMode === 'recent') { startDate = new Date(); startDate.setDate(startDate.getDate() - 6); } 
     else if (trendMode === 'week') { 
-        const target = new Date(trendDate); const day = target.getDay(); 
+        const target = parseLocalDate(trendDate); const day = target.getDay(); 
         const diff = target.getDate() - day + (day === 0 ? -6 : 1); startDate = new Date(target.setDate(diff)); 
     }
-    else if (trendMode === 'biweek') { const end = new Date(trendDate); startDate = new Date(end.getTime() - (13 * 24 * 60 * 60 * 1000)); daysCount = 14; }
+    else if (trendMode === 'biweek') { startDate = parseLocalDate(addDays(trendDate, -13)); daysCount = 14; }
     else if (trendMode === 'month') { const [y, m] = trendMonth.split('-').map(Number); startDate = new Date(y, m - 1, 1); daysCount = new Date(y, m, 0).getDate(); }
 
     for (let i = 0; i < daysCount; i++) {
       const d = new Date(startDate);
       d.setDate(startDate.getDate() + i);
-      const dateStr = d.toISOString().split('T')[0];
+      const dateStr = formatLocalDate(d);
       
-      const dayLogs = filteredLogs.filter(l => l.date === dateStr);
-      const dayTotal = dayLogs.reduce((sum, l) => sum + l.duration, 0);
+      const dayTotal = dailyTotals[dateStr]?.totalHours || 0;
       
-      const dayOfWeek = d.getDay();
-      const isWeekend = dayOfWeek === 0 || dayOfWeek === 6;
+      const isWeekend = isPenaltyRateDay(dateStr, settings);
       
       let name = trendMode === 'month' ? `${d.getDate()}` : d.toLocaleDateString('zh-HK', { weekday: 'short' });
       if (trendMode === 'biweek' && i % 7 === 0) name = `${d.getDate()}/${d.getMonth()+1} ${name}`;
@@ -144,48 +180,53 @@ export const Dashboard: React.FC<DashboardProps> = ({ logs, settings, jobs, onUp
       data.push({ name, hours: dayTotal, fullDate: dateStr, isWeekend });
     }
     return data;
-  }, [filteredLogs, trendMode, trendDate, trendMonth]);
+  }, [payBreakdowns, dailyTotals, trendMode, trendDate, trendMonth, settings]);
 
   // 3. Stats Calculations
   const calculateMonthlyStats = () => {
-    const selectedLogs = filteredLogs.filter(l => l.date.startsWith(selectedMonthStr));
-    const selectedHours = selectedLogs.reduce((sum, l) => sum + l.duration, 0);
-    const selectedEarnings = calculateTotalEarnings(selectedLogs);
+    const selected = summarisePayInRange(payBreakdowns, `${selectedMonthStr}-01`, `${selectedMonthStr}-31`);
+    const selectedHours = selected.totalHours;
+    const selectedEarnings = selected.amount;
     
     const [y, m] = selectedMonthStr.split('-').map(Number);
     const prevMonthDate = new Date(y, m - 2, 1); 
-    const prevMonthStr = prevMonthDate.toISOString().slice(0, 7);
-    const prevLogs = filteredLogs.filter(l => l.date.startsWith(prevMonthStr));
-    const prevHours = prevLogs.reduce((sum, l) => sum + l.duration, 0);
+    const prevMonthStr = formatLocalDate(prevMonthDate).slice(0, 7);
+    const prevHours = summarisePayInRange(payBreakdowns, `${prevMonthStr}-01`, `${prevMonthStr}-31`).totalHours;
 
-    return { selectedHours, selectedEarnings, selectedNet: calculateAfterTax(selectedEarnings), prevHours, prevMonthStr };
+    return { selectedHours, selectedOvertime: selected.overtimeHours, selectedAllowances: selected.allowances, selectedEarnings, selectedNet: calculateNetPay(selectedEarnings, 'monthly', settings).net, prevHours, prevMonthStr };
   };
 
-  const { selectedHours: monthHours, selectedEarnings: monthEarnings, selectedNet: monthNet, prevHours: prevMonthHours, prevMonthStr } = calculateMonthlyStats();
+  const { selectedHours: monthHours, selectedOvertime: monthOvertime, selectedAllowances: monthAllowances, selectedEarnings: monthEarnings, selectedNet: monthNet, prevHours: prevMonthHours, prevMonthStr } = calculateMonthlyStats();
 
-  const calculateBiWeeklyStats = () => {
-    const endDate = new Date(selectedBiWeekEndStr);
-    const msPerDay = 24 * 60 * 60 * 1000;
-    const startDateTimestamp = endDate.getTime() - (13 * msPerDay);
-    const startDateStr = new Date(startDateTimestamp).toISOString().slice(0, 10);
-    const prevEndTimestamp = endDate.getTime() - (14 * msPerDay);
-    const prevStartDateStr = new Date(prevEndTimestamp - (13 * msPerDay)).toISOString().slice(0, 10);
-    const prevEndDateStr = new Date(prevEndTimestamp).toISOString().slice(0, 10);
+  // Pay period card: the selected job's pay cycle. "All jobs" uses the cycle the
+  // jobs share, or the default cycle when they differ (net pay is then only an estimate).
+  const viewCycles = jobs.filter(j => activeJobId === 'all' || j.id === activeJobId).map(j => getPayCycle(j, settings));
+  const mixedCycles = viewCycles.some(c => JSON.stringify(c) !== JSON.stringify(viewCycles[0]));
+  const payCycle = !mixedCycles && viewCycles.length > 0 ? viewCycles[0] : getPayCycle(undefined, settings);
+  // The month card withholds tax as a monthly payslip; exact only for monthly pay
+  const isMonthlyNet = !mixedCycles && payCycle.frequency === 'monthly';
+  const today = formatLocalDate(new Date());
 
-    const currentLogs = filteredLogs.filter(l => l.date >= startDateStr && l.date <= selectedBiWeekEndStr);
-    const prevLogs = filteredLogs.filter(l => l.date >= prevStartDateStr && l.date <= prevEndDateStr);
-    
-    const currentPeriodHours = currentLogs.reduce((sum, l) => sum + l.duration, 0);
-    const prevPeriodHours = prevLogs.reduce((sum, l) => sum + l.duration, 0);
-    const currentPeriodEarnings = calculateTotalEarnings(currentLogs);
+  const calculatePayPeriodStats = () => {
+    const period = getPayPeriod(payCycle, selectedPeriodDate);
+    const previous = getPreviousPayPeriod(payCycle, period);
+    const current = summarisePayInRange(payBreakdowns, period.start, period.end);
+    const prevPeriodHours = summarisePayInRange(payBreakdowns, previous.start, previous.end).totalHours;
 
-    return { currentPeriodHours, currentPeriodEarnings, currentPeriodNet: calculateAfterTax(currentPeriodEarnings), prevPeriodHours };
+    return { period, currentPeriodHours: current.totalHours, currentPeriodOvertime: current.overtimeHours, currentPeriodAllowances: current.allowances, currentPeriodEarnings: current.amount, currentPeriodNet: calculateNetPay(current.amount, getCycleTaxPeriod(payCycle), settings).net, prevPeriodHours };
   };
 
-  const { currentPeriodHours: biWeekHours, currentPeriodEarnings: biWeekEarnings, currentPeriodNet: biWeekNet, prevPeriodHours: prevBiWeekHours } = calculateBiWeeklyStats();
+  const { period: payPeriod, currentPeriodHours: periodHours, currentPeriodOvertime: periodOvertime, currentPeriodAllowances: periodAllowances, currentPeriodEarnings: periodEarnings, currentPeriodNet: periodNet, prevPeriodHours } = calculatePayPeriodStats();
+  const isCurrentPeriod = payPeriod.start <= today && today <= payPeriod.end;
 
-  const isMonthlyPrimary = settings.payFrequency === 'monthly';
-  const trendDiff = biWeekHours - prevBiWeekHours;
+  // Next payday for each job in view
+  const paydays = jobs
+      .filter(j => activeJobId === 'all' || j.id === activeJobId)
+      .map(j => ({ job: j, ...getUpcomingPayday(getPayCycle(j, settings), today) }))
+      .sort((a, b) => a.payday.localeCompare(b.payday));
+
+  const isMonthlyPrimary = payCycle.frequency === 'monthly';
+  const trendDiff = periodHours - prevPeriodHours;
 
   return (
     <div className="space-y-6 animate-fade-in">
@@ -248,7 +289,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ logs, settings, jobs, onUp
           <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-6">
             <div className="flex justify-between items-end mb-2">
             <div>
-                <h2 className="text-gray-500 text-xs font-medium uppercase tracking-wide">加薪目標進度 ({activeJobForLevelUp?.name})</h2>
+                <h2 className="text-gray-500 text-xs font-medium uppercase tracking-wide">加薪目標進度 ({activeJobForLevelUp?.name}{nextLevelName ? ` → ${nextLevelName}` : ''})</h2>
                 <div className="flex items-baseline gap-2 mt-1">
                 <span className="text-4xl font-bold text-primary">{totalHours.toFixed(1)}</span>
                 <span className="text-gray-400 text-lg">/ {targetHours} 小時</span>
@@ -261,6 +302,72 @@ export const Dashboard: React.FC<DashboardProps> = ({ logs, settings, jobs, onUp
             <div className="h-4 bg-gray-100 rounded-full overflow-hidden w-full">
             <div className="h-full bg-gradient-to-r from-indigo-500 to-purple-500 transition-all duration-1000 ease-out" style={{ width: `${progressPercent}%` }} />
             </div>
+
+            {/* Level-up Forecast */}
+            {hoursRemaining > 0 && (
+                <div className="mt-4 pt-4 border-t border-dashed border-gray-100 space-y-3">
+                    <div className="flex justify-between items-start">
+                        <div>
+                            <div className="text-xs text-gray-500">預計升級日期</div>
+                            <div className="text-lg font-bold text-gray-800">{forecast.expectedDate ? formatLocalDate(forecast.expectedDate) : '未有足夠紀錄'}</div>
+                            {forecast.optimisticDate && (
+                                <div className="text-[10px] text-gray-400">
+                                    範圍: {formatLocalDate(forecast.optimisticDate)} ~ {forecast.pessimisticDate ? formatLocalDate(forecast.pessimisticDate) : '—'}
+                                </div>
+                            )}
+                        </div>
+                        <div className="text-right text-[10px] text-gray-500 space-y-0.5">
+                            {VELOCITY_WINDOWS.map(w => (
+                                <div key={w}>{w} 週平均: <span className="font-mono font-semibold text-gray-700">{forecast.velocities[w].toFixed(1)}h</span>/週</div>
+                            ))}
+                        </div>
+                    </div>
+                    <div className="bg-gray-50 rounded-lg p-3 flex flex-wrap items-center gap-2 text-xs text-gray-600">
+                        <Target className="w-4 h-4 text-primary" />
+                        <span>想在</span>
+                        <input type="date" value={paceTargetDate} onChange={(e) => setPaceTargetDate(e.target.value)} className="text-xs border rounded p-1" />
+                        <span>前達標，每週需</span>
+                        <span className="font-bold text-primary">{neededPace === null ? '—' : `${neededPace.toFixed(1)}h`}</span>
+                        {neededPace !== null && forecast.expectedPace > 0 && (
+                            <span className={neededPace <= forecast.expectedPace ? 'text-green-600' : 'text-amber-600'}>
+                                ({neededPace <= forecast.expectedPace ? '目前進度可達' : `需比現時多 ${(neededPace - forecast.expectedPace).toFixed(1)}h`})
+                            </span>
+                        )}
+                    </div>
+                </div>
+            )}
+
+            {/* Career Ladder Path */}
+            {ladderSteps.length > 0 && (
+                <div className="mt-6">
+                    <div className="relative h-2 bg-gray-100 rounded-full">
+                        <div className="absolute inset-y-0 left-0 bg-indigo-300 rounded-full" style={{ width: `${Math.min(100, (totalHours / ladderMaxHours) * 100)}%` }} />
+                        {ladderSteps.map(step => (
+                            <div 
+                                key={step.index}
+                                title={`${step.level.name} @ ${step.level.thresholdHours}h`}
+                                className={`absolute -top-1 w-4 h-4 -ml-2 rounded-full border-2 border-white ${step.isCurrent ? 'bg-primary' : (step.reached ? 'bg-indigo-400' : 'bg-gray-300')}`}
+                                style={{ left: `${(step.level.thresholdHours / ladderMaxHours) * 100}%` }}
+                            />
+                        ))}
+                    </div>
+                    <div className="mt-4 space-y-1">
+                        {ladderSteps.filter(step => step.index > (activeJobForLevelUp?.currentLevelIndex || 0)).map(step => {
+                            const eta = projectDate(step.hoursRemaining, weeklyVelocity);
+                            return (
+                                <div key={step.index} className="flex justify-between items-center text-xs">
+                                    <span className="font-medium text-gray-700">{step.level.name} <span className="text-gray-400">({settings.currency} {step.level.hourlyRate}/hr)</span></span>
+                                    <span className="text-gray-500">
+                                        {step.hoursRemaining > 0 ? `尚差 ${step.hoursRemaining.toFixed(1)}h` : '已達標'}
+                                        <span className="ml-2 text-gray-400">{step.hoursRemaining > 0 ? (eta ? `預計 ${formatLocalDate(eta)}` : '預計 —') : ''}</span>
+                                    </span>
+                                </div>
+                            );
+                        })}
+                    </div>
+                    <p className="text-[10px] text-gray-400 mt-2">* 預計日期按最近 8 週平均每週 {weeklyVelocity.toFixed(1)} 小時計算</p>
+                </div>
+            )}
           </div>
       )}
 
@@ -273,28 +380,79 @@ export const Dashboard: React.FC<DashboardProps> = ({ logs, settings, jobs, onUp
             <input type="month" value={selectedMonthStr} onChange={(e) => setSelectedMonthStr(e.target.value)} className="text-xs font-medium bg-transparent border-none text-gray-600 text-right cursor-pointer p-0" />
           </div>
           <p className="text-2xl font-bold text-gray-800 relative z-10">{settings.currency} {monthEarnings.toLocaleString(undefined, {maximumFractionDigits: 0})}</p>
-          {(settings.taxRate || 0) > 0 && <p className="text-xs text-gray-400 mt-1 relative z-10">稅後約: <span className="font-semibold text-gray-600">{settings.currency} {monthNet.toLocaleString(undefined, {maximumFractionDigits: 0})}</span></p>}
+          {showNet && <p className="text-xs text-gray-400 mt-1 relative z-10">{isMonthlyNet ? '稅後約' : '稅後約 (按月估算)'}: <span className="font-semibold text-gray-600">{settings.currency} {monthNet.toLocaleString(undefined, {maximumFractionDigits: 0})}</span></p>}
           <div className="mt-2 text-xs text-gray-500 flex justify-between items-end relative z-10 pt-2 border-t border-dashed border-gray-100">
-             <span>{monthHours.toFixed(1)} hrs</span>
+             <span>{monthHours.toFixed(1)} hrs{monthOvertime > 0 && <span className="ml-1 text-orange-500">(OT {monthOvertime.toFixed(1)})</span>}{monthAllowances > 0 && <span className="ml-1 text-teal-600">(津貼 {monthAllowances.toLocaleString(undefined, {maximumFractionDigits: 0})})</span>}</span>
              <span className={`${monthHours >= prevMonthHours ? 'text-green-600' : 'text-gray-500'}`}>{monthHours >= prevMonthHours ? '+' : ''}{(monthHours - prevMonthHours).toFixed(1)} vs Last</span>
           </div>
         </div>
 
-        {/* Bi-Weekly Card */}
+        {/* Pay Period Card */}
         <div className={`bg-white p-4 rounded-xl border relative overflow-hidden transition-all ${!isMonthlyPrimary ? 'border-indigo-300 shadow-md ring-1 ring-indigo-100' : 'border-gray-100 shadow-sm opacity-80'}`}>
            <div className="flex justify-between items-start mb-4 relative z-10">
-            <div className="flex items-center gap-2 text-gray-500"><Activity className="w-4 h-4" /><span className="text-xs font-medium">兩週收入</span></div>
-            <input type="date" value={selectedBiWeekEndStr} onChange={(e) => setSelectedBiWeekEndStr(e.target.value)} className="text-xs font-medium bg-transparent border-none text-gray-600 text-right cursor-pointer p-0 max-w-[85px]" />
+            <div className="flex items-center gap-2 text-gray-500"><Activity className="w-4 h-4" /><span className="text-xs font-medium">{isCurrentPeriod ? '本期收入' : '發薪週期收入'}</span></div>
+            <div className="flex items-center gap-1 text-xs font-medium text-gray-600">
+                <button onClick={() => setSelectedPeriodDate(getPreviousPayPeriod(payCycle, payPeriod).start)} className="p-0.5 hover:text-indigo-600"><ChevronLeft className="w-3 h-3" /></button>
+                <button onClick={() => setSelectedPeriodDate(today)} title="回到本期" className="font-mono">{formatPayPeriod(payPeriod)}</button>
+                <button onClick={() => setSelectedPeriodDate(getNextPayPeriod(payCycle, payPeriod).start)} className="p-0.5 hover:text-indigo-600"><ChevronRight className="w-3 h-3" /></button>
+            </div>
           </div>
-          <p className="text-2xl font-bold text-gray-800">{settings.currency} {biWeekEarnings.toLocaleString(undefined, {maximumFractionDigits: 0})}</p>
-          {(settings.taxRate || 0) > 0 && <p className="text-xs text-gray-400 mt-1 relative z-10">稅後約: <span className="font-semibold text-gray-600">{settings.currency} {biWeekNet.toLocaleString(undefined, {maximumFractionDigits: 0})}</span></p>}
+          <p className="text-2xl font-bold text-gray-800">{settings.currency} {periodEarnings.toLocaleString(undefined, {maximumFractionDigits: 0})}</p>
+          {showNet && <p className="text-xs text-gray-400 mt-1 relative z-10">{mixedCycles ? '稅後約 (估算)' : '稅後約'}: <span className="font-semibold text-gray-600">{settings.currency} {periodNet.toLocaleString(undefined, {maximumFractionDigits: 0})}</span></p>}
           <div className="mt-2 text-xs text-gray-500 flex justify-between items-end relative z-10 pt-2 border-t border-dashed border-gray-100">
-             <span>{biWeekHours.toFixed(1)} hrs</span>
-             <span className="font-mono">{trendDiff > 0 ? '+' : ''}{trendDiff.toFixed(1)} trend</span>
+             <span>{periodHours.toFixed(1)} hrs{periodOvertime > 0 && <span className="ml-1 text-orange-500">(OT {periodOvertime.toFixed(1)})</span>}{periodAllowances > 0 && <span className="ml-1 text-teal-600">(津貼 {periodAllowances.toLocaleString(undefined, {maximumFractionDigits: 0})})</span>}</span>
+             <span className="font-mono">{trendDiff > 0 ? '+' : ''}{trendDiff.toFixed(1)} vs 上期</span>
           </div>
+          <p className="text-[10px] text-gray-400 mt-1">{mixedCycles ? '各工作發薪週期不同，按預設週期: ' : ''}{describePayCycle(payCycle)} • 發薪日 {payPeriod.payday}</p>
         </div>
       </div>
 
+      {/* Upcoming Paydays */}
+      {paydays.length > 0 && (
+          <div className="bg-white p-4 rounded-xl border border-gray-100 shadow-sm space-y-2">
+              {paydays.map(({ job, payday, daysUntil, period }) => (
+                  <div key={job.id} className="flex items-center justify-between text-xs">
+                      <div className="flex items-center gap-2 text-gray-600">
+                          <Wallet className="w-4 h-4 text-gray-400" />
+                          {paydays.length > 1 && <span className="w-2 h-2 rounded-full" style={{ backgroundColor: job.color }}></span>}
+                          <span>下次發薪{paydays.length > 1 ? ` (${job.name})` : ''}: <span className="font-semibold text-gray-800">{payday}</span></span>
+                          <span className="text-[10px] text-gray-400 font-mono">週期 {formatPayPeriod(period)}</span>
+                      </div>
+                      <span className={`font-bold ${daysUntil === 0 ? 'text-green-600' : 'text-indigo-600'}`}>{daysUntil === 0 ? '今天發薪!' : `${daysUntil} 天後`}</span>
+                  </div>
+              ))}
+          </div>
+      )}
+
+      {/* Retirement Contributions YTD */}
+      {contributionsYtd && (
+          <div className="bg-white p-4 rounded-xl border border-gray-100 shadow-sm">
+              <div className="flex items-center gap-2 text-gray-500 mb-2"><PiggyBank className="w-4 h-4" /><span className="text-xs font-medium">退休供款 (Super / MPF) • 今年至今</span></div>
+              <div className="grid grid-cols-3 gap-2 text-center">
+                  <div><p className="text-[10px] text-gray-400">僱主</p><p className="text-lg font-bold text-gray-800">{settings.currency} {contributionsYtd.employer.toLocaleString(undefined, {maximumFractionDigits: 0})}</p></div>
+                  <div><p className="text-[10px] text-gray-400">僱員</p><p className="text-lg font-bold text-gray-800">{settings.currency} {contributionsYtd.employee.toLocaleString(undefined, {maximumFractionDigits: 0})}</p></div>
+                  <div><p className="text-[10px] text-gray-400">自願</p><p className="text-lg font-bold text-gray-800">{settings.currency} {contributionsYtd.voluntary.toLocaleString(undefined, {maximumFractionDigits: 0})}</p></div>
+              </div>
+              <p className="text-[10px] text-gray-400 mt-2">* 按紀錄工時及各工作的供款規則預計，上下限按每月計算</p>
+          </div>
+      )}
+
+      {/* Planned Shift Projection */}
+      {projection.count > 0 && (
+          <div className="bg-emerald-50 dark:bg-emerald-900/20 p-4 rounded-xl border border-emerald-100 dark:border-emerald-800">
+              <div className="flex justify-between items-center mb-2">
+                  <div className="flex items-center gap-2 text-emerald-700 dark:text-emerald-300"><Repeat className="w-4 h-4" /><span className="text-xs font-bold">未來 {PROJECTION_WEEKS} 週排班預估</span></div>
+                  <Link to="/calendar" className="text-[10px] text-emerald-600 dark:text-emerald-400 hover:underline flex items-center">月曆確認 <ChevronRight className="w-3 h-3" /></Link>
+              </div>
+              <div className="flex items-end justify-between">
+                  <p className="text-2xl font-bold text-gray-800 dark:text-white">{settings.currency} {projection.earnings.toLocaleString(undefined, {maximumFractionDigits: 0})}</p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">{projection.count} 更 • {projection.hours.toFixed(1)} hrs</p>
+              </div>
+              {projection.reachDate && <p className="text-[10px] text-emerald-700 dark:text-emerald-300 mt-1">按排班將於 {projection.reachDate} 達到目標時數</p>}
+              <p className="text-[10px] text-gray-400 mt-1">* 計劃排班未確認前不計入總工時及收入</p>
+          </div>
+      )}
+
       {/* Chart */}
       <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
          <div className="flex justify-between items-center mb-6">
@@ -337,6 +495,12 @@ export const Dashboard: React.FC<DashboardProps> = ({ logs, settings, jobs, onUp
                <p className="text-lg font-bold text-emerald-700">{settings.currency} {potentialNextEarnings.toLocaleString(undefined, {maximumFractionDigits: 0})}</p>
             </div>
          </div>
+         {activeJobId !== 'all' && upliftPerWeek > 0 && (
+             <div className="text-right text-xs text-emerald-700">
+                 <div>{forecast.expectedDate ? `預計 ${formatLocalDate(forecast.expectedDate)} 升級後` : '升級後'}</div>
+                 <div>每週約多賺 <span className="font-bold">{settings.currency} {upliftPerWeek.toLocaleString(undefined, {maximumFractionDigits: 0})}</span></div>
+             </div>
+         )}
        </div>
     </div>
   );
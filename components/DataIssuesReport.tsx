@@ -0,0 +1,56 @@
+import React, { useState } from 'react';
+import { AlertTriangle, Wrench, ChevronDown, ChevronUp } from 'lucide-react';
+import { DataIssue } from '../services/validation';
+
+interface DataIssuesReportProps {
+  title: string;
+  issues: DataIssue[];
+  onRepair: () => void;
+  onSkip: () => void;
+  onDismiss?: () => void;
+  dismissLabel?: string;
+}
+
+const KIND_LABELS: Record<DataIssue['kind'], string> = { log: '紀錄', job: '工作', template: '範本', payslip: '薪資單' };
+const VISIBLE_ISSUES = 5;
+
+export const DataIssuesReport: React.FC<DataIssuesReportProps> = ({ title, issues, onRepair, onSkip, onDismiss, dismissLabel = '稍後' }) => {
+  const [showAll, setShowAll] = useState(false);
+  const unrepairable = issues.filter(i => !i.repairable).length;
+  const visible = showAll ? issues : issues.slice(0, VISIBLE_ISSUES);
+
+  return (
+    <div className="p-4 rounded-xl border border-orange-200 dark:border-orange-800 bg-orange-50 dark:bg-orange-900/30 text-orange-900 dark:text-orange-100 space-y-3 text-sm">
+      <div>
+          <div className="font-bold flex items-center gap-2"><AlertTriangle className="w-4 h-4" /> {title}</div>
+          <p className="text-xs mt-1">
+              {issues.length} 項資料格式有問題。{unrepairable > 0 ? `其中 ${unrepairable} 項無法修復，修復時會被略過。` : '全部都可以修復。'}
+          </p>
+      </div>
+
+      <div className="space-y-1 max-h-64 overflow-y-auto">
+          {visible.map((issue, i) => (
+              <div key={`${issue.kind}-${issue.id}-${i}`} className="p-2 rounded-lg bg-white/70 dark:bg-gray-800/70 text-[10px]">
+                  <div className="font-semibold font-mono">
+                      {KIND_LABELS[issue.kind]}: {issue.label}
+                      {!issue.repairable && <span className="ml-2 text-red-600 dark:text-red-300">無法修復</span>}
+                  </div>
+                  <div className="text-orange-700 dark:text-orange-200">{issue.problems.join('；')}</div>
+              </div>
+          ))}
+      </div>
+      {issues.length > VISIBLE_ISSUES && (
+          <button onClick={() => setShowAll(!showAll)} className="text-xs flex items-center gap-1 underline">
+              {showAll ? <><ChevronUp className="w-3 h-3" /> 收起</> : <><ChevronDown className="w-3 h-3" /> 顯示全部 {issues.length} 項</>}
+          </button>
+      )}
+
+      <div className="flex gap-2">
+          <button onClick={onRepair} className="flex-1 bg-primary hover:bg-indigo-700 text-white py-2 rounded-lg text-xs font-bold flex items-center justify-center gap-1"><Wrench className="w-3 h-3" /> 修復</button>
+          <button onClick={onSkip} className="flex-1 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 py-2 rounded-lg text-xs font-bold">略過有問題的項目</button>
+          {onDismiss && <button onClick={onDismiss} className="px-3 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg text-xs">{dismissLabel}</button>}
+      </div>
+      <p className="text-[10px] opacity-70">* 修復: 無效工作改為第一份工作、無效時間改為手動工時、負數工時按時間重新計算。略過: 不載入有問題的紀錄、範本與薪資單 (工作一律修復)。</p>
+    </div>
+  );
+};
@@ -1,17 +1,36 @@
 
 import React, { useRef, useState, useMemo } from 'react';
-import { AppState, UserSettings } from '../types';
-import { Download, Upload, CheckCircle, AlertCircle, FileSpreadsheet } from 'lucide-react';
+import { AppState, UserSettings, WorkLog, Job } from '../types';
+import { Download, Upload, CheckCircle, AlertCircle, FileSpreadsheet, CalendarDays, Table } from 'lucide-react';
+import { CsvImportWizard } from './CsvImportWizard';
+import { ImportMergeReview } from './ImportMergeReview';
+import { DataIssuesReport } from './DataIssuesReport';
+import { migrateState } from '../services/migrations';
+import { validateState, resolveDataIssues, DataIssue, DataIssueMode } from '../services/validation';
+import { calculateLogsPay, summariseBands } from '../services/payEngine';
+import { describeAllowanceLines } from '../services/allowances';
+import { getLogStatus } from '../services/logStatus';
+import { buildShiftCalendar } from '../services/calendarExport';
+import { formatLocalDate } from '../services/dates';
+import { escapeCsvField } from '../services/csv';
+import { getPayCycle, getPayPeriod } from '../services/payCycles';
 
 interface DataManagementProps {
   appState: AppState;
   onImport: (data: AppState) => void;
+  onImportCsv: (logs: WorkLog[], newJobs: Job[]) => void;
+  onMerge: (merged: Pick<AppState, 'logs' | 'jobs' | 'templates' | 'payslips' | 'settings'>) => void;
   onUpdateSettings: (settings: UserSettings) => void;
 }
 
-export const DataManagement: React.FC<DataManagementProps> = ({ appState, onImport, onUpdateSettings }) => {
+// How far ahead recurring shifts are written into the calendar export
+const ICAL_PLANNED_WEEKS = 12;
+
+export const DataManagement: React.FC<DataManagementProps> = ({ appState, onImport, onImportCsv, onMerge, onUpdateSettings }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [status, setStatus] = useState<{type: 'success' | 'error', msg: string} | null>(null);
+  const [showCsvWizard, setShowCsvWizard] = useState(false);
+  const [pendingImport, setPendingImport] = useState<{ data: AppState; fileName: string; issues: DataIssue[] } | null>(null);
 
   const backupNeeded = useMemo(() => {
       const lastBackup = appState.settings.lastBackupTimestamp || 0;
@@ -39,23 +58,38 @@ export const DataManagement: React.FC<DataManagementProps> = ({ appState, onImpo
   const handleExportCSV = () => {
     const logs = appState.logs;
     const jobs = appState.jobs;
-    const header = ['Date', 'Job Name', 'Start Time', 'End Time', 'Duration (Hours)', 'Hourly Rate', 'Earnings', 'Notes'];
+    // One column per time-of-day band used by any job
+    const bandNames = [...new Set<string>(jobs.flatMap(j => (j.penaltyBands || []).map(b => b.name)))];
+    const header = ['Date', 'Job Name', 'Start Time', 'End Time', 'Duration (Hours)', 'Overtime (Hours)', ...bandNames.map(n => `${n} (Hours)`), 'Hourly Rate', 'Allowances', 'Allowance Items', 'Earnings', 'Status', 'Pay Period Start', 'Pay Period End', 'Payday', 'Notes'];
+    const payById = new Map(calculateLogsPay(logs, jobs, appState.settings).map(p => [p.logId, p]));
     
     const rows = logs.map(log => {
         const job = jobs.find(j => j.id === log.jobId);
-        const isWeekend = new Date(log.date).getDay() % 6 === 0;
-        const rate = job ? (isWeekend ? job.weekendHourlyRate : job.hourlyRate) : 0;
-        const earnings = log.duration * rate;
+        const pay = payById.get(log.id);
+        // Earnings include allowances; the rate covers the hours only
+        const rate = pay && pay.totalHours > 0 ? (pay.amount - pay.allowances) / pay.totalHours : 0;
+        const earnings = pay?.amount || 0;
+        const bands = summariseBands(pay?.lines || []);
+        // Grouped by the job's real pay cycle, so the rows can be totalled per payslip
+        const period = getPayPeriod(getPayCycle(job, appState.settings), log.date);
         
         return [
             log.date,
-            job?.name || 'Unknown',
+            escapeCsvField(job?.name || 'Unknown'),
             log.startTime,
             log.endTime,
             log.duration.toString(),
-            rate.toString(),
+            (pay?.overtimeHours || 0).toFixed(2),
+            ...bandNames.map(n => (bands[n]?.hours || 0).toFixed(2)),
+            rate.toFixed(2),
+            (pay?.allowances || 0).toFixed(2),
+            escapeCsvField(describeAllowanceLines(pay?.lines || [])),
             earnings.toFixed(2),
-            `"${log.notes.replace(/"/g, '""')}"` // Escape quotes
+            getLogStatus(log),
+            period.start,
+            period.end,
+            period.payday,
+            escapeCsvField(log.notes)
         ].join(',');
     });
     
@@ -72,6 +106,29 @@ export const DataManagement: React.FC<DataManagementProps> = ({ appState, onImpo
     setTimeout(() => setStatus(null), 3000);
   };
 
+  const handleExportICal = () => {
+    const today = new Date();
+    const horizon = new Date(today);
+    horizon.setDate(horizon.getDate() + ICAL_PLANNED_WEEKS * 7);
+    const ics = buildShiftCalendar(appState.logs, appState.templates || [], appState.jobs, appState.settings, formatLocalDate(today), formatLocalDate(horizon));
+
+    const link = document.createElement("a");
+    link.setAttribute("href", "data:text/calendar;charset=utf-8," + encodeURIComponent(ics));
+    link.setAttribute("download", "paylevel_shifts.ics");
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+
+    setStatus({ type: 'success', msg: 'Calendar exported! Re-importing updates existing events.' });
+    setTimeout(() => setStatus(null), 3000);
+  };
+
+  const handleImportCsv = (logs: WorkLog[], newJobs: Job[]) => {
+    onImportCsv(logs, newJobs);
+    setStatus({ type: 'success', msg: `Imported ${logs.length} logs from CSV!` });
+    setTimeout(() => setStatus(null), 3000);
+  };
+
   const handleImportClick = () => {
     fileInputRef.current?.click();
   };
@@ -87,24 +144,37 @@ export const DataManagement: React.FC<DataManagementProps> = ({ appState, onImpo
       try {
         const result = e.target?.result;
         if (typeof result === 'string') {
-          const parsedData = JSON.parse(result) as AppState;
-          
-          if (!parsedData.logs || !parsedData.settings) {
-            throw new Error("Invalid file format");
-          }
-          
-          onImport(parsedData);
-          setStatus({ type: 'success', msg: 'Data imported successfully!' });
+          const parsedData = migrateState(JSON.parse(result));
+          setPendingImport({ data: parsedData, fileName: file.name, issues: validateState(parsedData) });
         }
       } catch (error) {
-        setStatus({ type: 'error', msg: 'Failed to import: Invalid JSON file.' });
+        const reason = error instanceof SyntaxError || !(error instanceof Error) ? 'Invalid JSON file.' : error.message;
+        setStatus({ type: 'error', msg: `Failed to import: ${reason}` });
+        setTimeout(() => setStatus(null), 3000);
       } finally {
         if (fileInputRef.current) fileInputRef.current.value = '';
-        setTimeout(() => setStatus(null), 3000);
       }
     };
   };
 
+  const handleMerge = (merged: Pick<AppState, 'logs' | 'jobs' | 'templates' | 'payslips' | 'settings'>) => {
+    onMerge(merged);
+    setPendingImport(null);
+    setStatus({ type: 'success', msg: 'Data merged successfully!' });
+    setTimeout(() => setStatus(null), 3000);
+  };
+
+  const handleResolveIssues = (mode: DataIssueMode) => {
+    if (!pendingImport) return;
+    setPendingImport({ ...pendingImport, data: resolveDataIssues(pendingImport.data, mode), issues: [] });
+  };
+
+  const handleReplaceAll = () => {
+    if (!pendingImport) return;
+    onImport(pendingImport.data);
+    setPendingImport(null);
+  };
+
   return (
     <div className="bg-white dark:bg-gray-800 p-6 rounded-2xl shadow-sm border border-gray-100 dark:border-gray-700 transition-colors">
       <div className="flex justify-between items-center mb-4">
@@ -137,6 +207,16 @@ export const DataManagement: React.FC<DataManagementProps> = ({ appState, onImpo
           <span className="text-sm font-medium text-gray-600 dark:text-gray-300 group-hover:text-green-600">Export CSV</span>
         </button>
 
+        <button 
+          onClick={handleExportICal}
+          className="flex-1 flex flex-col items-center justify-center gap-2 p-4 rounded-xl border border-gray-200 dark:border-gray-700 hover:border-orange-500 hover:bg-orange-50 dark:hover:bg-orange-900/30 transition-all group"
+        >
+          <div className="p-3 bg-gray-100 dark:bg-gray-700 rounded-full group-hover:bg-white dark:group-hover:bg-gray-600 group-hover:text-orange-600 transition-colors">
+             <CalendarDays className="w-6 h-6 text-gray-600 dark:text-gray-300 group-hover:text-orange-600" />
+          </div>
+          <span className="text-sm font-medium text-gray-600 dark:text-gray-300 group-hover:text-orange-600">Export iCal</span>
+        </button>
+
         <button 
           onClick={handleImportClick}
           className="flex-1 flex flex-col items-center justify-center gap-2 p-4 rounded-xl border border-gray-200 dark:border-gray-700 hover:border-secondary hover:bg-emerald-50 dark:hover:bg-emerald-900/30 transition-all group"
@@ -156,6 +236,49 @@ export const DataManagement: React.FC<DataManagementProps> = ({ appState, onImpo
         />
       </div>
 
+      {pendingImport && pendingImport.issues.length > 0 && (
+        <div className="mt-4">
+          <DataIssuesReport
+            title={`匯入檔案有問題 (${pendingImport.fileName})`}
+            issues={pendingImport.issues}
+            onRepair={() => handleResolveIssues('repair')}
+            onSkip={() => handleResolveIssues('skip')}
+            onDismiss={() => setPendingImport(null)}
+            dismissLabel="取消匯入"
+          />
+        </div>
+      )}
+
+      {pendingImport && pendingImport.issues.length === 0 && (
+        <ImportMergeReview
+          current={appState}
+          incoming={pendingImport.data}
+          fileName={pendingImport.fileName}
+          onMerge={handleMerge}
+          onReplaceAll={handleReplaceAll}
+          onCancel={() => setPendingImport(null)}
+        />
+      )}
+
+      {showCsvWizard ? (
+        <CsvImportWizard
+          logs={appState.logs}
+          jobs={appState.jobs}
+          defaultJobId={appState.activeJobId && appState.activeJobId !== 'all' ? appState.activeJobId : appState.jobs[0]?.id || ''}
+          onImport={handleImportCsv}
+          onClose={() => setShowCsvWizard(false)}
+        />
+      ) : (
+        <button
+          onClick={() => setShowCsvWizard(true)}
+          className="w-full mb-4 py-2 rounded-xl border border-dashed border-gray-300 dark:border-gray-600 text-sm text-gray-600 dark:text-gray-300 hover:border-primary hover:text-primary flex items-center justify-center gap-2 transition-colors"
+        >
+          <Table className="w-4 h-4" /> Import CSV / Spreadsheet
+        </button>
+      )}
+
+      <p className="text-[10px] text-gray-400 my-4">* iCal 包含所有紀錄及未來 {ICAL_PLANNED_WEEKS} 週的固定班次。檔名固定，放到雲端硬碟 (如 iCloud / Google Drive) 覆蓋舊檔即可作為訂閱來源；重複匯入會更新現有活動而不會重複。</p>
+
       {status && (
         <div className={`p-3 rounded-lg flex items-center gap-2 text-sm ${
           status.type === 'success' ? 'bg-green-50 dark:bg-green-900/30 text-green-700 dark:text-green-200' : 'bg-red-50 dark:bg-red-900/30 text-red-700 dark:text-red-200'
@@ -0,0 +1,113 @@
+import React, { useState, useMemo } from 'react';
+import { AppState, WorkLog, Job, ShiftTemplate, Payslip } from '../types';
+import { GitMerge, ChevronDown, ChevronUp, AlertTriangle } from 'lucide-react';
+import { planMerge, applyMerge, getDefaultChoices, MERGE_CATEGORIES, MergeItem, MergeChoice, MergeCategory } from '../services/mergeImport';
+
+interface ImportMergeReviewProps {
+  current: Pick<AppState, 'logs' | 'jobs' | 'templates' | 'payslips' | 'settings'>;
+  incoming: AppState;
+  fileName: string;
+  onMerge: (merged: Pick<AppState, 'logs' | 'jobs' | 'templates' | 'payslips' | 'settings'>) => void;
+  onReplaceAll: () => void;
+  onCancel: () => void;
+}
+
+export const ImportMergeReview: React.FC<ImportMergeReviewProps> = ({ current, incoming, fileName, onMerge, onReplaceAll, onCancel }) => {
+  const plan = useMemo(() => planMerge(current, incoming), [current, incoming]);
+  const [choices, setChoices] = useState<Record<string, MergeChoice>>(() => getDefaultChoices(plan));
+  const [useIncomingSettings, setUseIncomingSettings] = useState(false);
+  const [expanded, setExpanded] = useState<MergeCategory | null>(null);
+
+  const jobName = (jobId: string) => [...current.jobs, ...(incoming.jobs || [])].find(j => j.id === jobId)?.name || 'Unknown';
+  const describeLog = (log: WorkLog) => `${log.date} ${log.startTime === '-' ? '' : `${log.startTime}-${log.endTime} `}${log.duration}h • ${jobName(log.jobId)}${log.status && log.status !== 'worked' ? ` • ${log.status}` : ''}${log.notes ? ` • ${log.notes}` : ''}`;
+  const describeJob = (job: Job) => `工作: ${job.name} (${job.hourlyRate}/hr)`;
+  const describeTemplate = (template: ShiftTemplate) => `範本: ${template.name} ${template.startTime}-${template.endTime}`;
+  const describePayslip = (payslip: Payslip) => `薪資單: ${payslip.periodStart} - ${payslip.periodEnd} • ${jobName(payslip.jobId)} • ${payslip.gross.toFixed(2)}`;
+
+  const describe = (item: MergeItem, side: 'local' | 'incoming'): string | null => {
+      if (item.kind === 'log') { const r = item[side]; return r ? describeLog(r) : null; }
+      if (item.kind === 'job') { const r = item[side]; return r ? describeJob(r) : null; }
+      if (item.kind === 'payslip') { const r = item[side]; return r ? describePayslip(r) : null; }
+      const r = item[side];
+      return r ? describeTemplate(r) : null;
+  };
+
+  const setCategory = (category: MergeCategory, choice: MergeChoice) => {
+      const next = { ...choices };
+      plan.items.filter(i => i.category === category).forEach(i => { next[i.key] = choice; });
+      setChoices(next);
+  };
+
+  const handleMerge = () => {
+      onMerge(applyMerge(current, plan, choices, useIncomingSettings ? incoming.settings : undefined));
+  };
+
+  return (
+    <div className="mt-4 p-4 rounded-xl border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-900/30 space-y-3 text-sm">
+      <div>
+          <h4 className="font-semibold text-gray-700 dark:text-gray-200 flex items-center gap-2"><GitMerge className="w-4 h-4 text-primary" /> 合併匯入 <span className="text-xs text-gray-400 font-normal">({fileName})</span></h4>
+          <p className="text-[10px] text-gray-400 mt-1">{plan.unchanged} 項相同，已略過。請檢查以下差異，選擇保留本機或使用匯入的版本。</p>
+      </div>
+
+      {MERGE_CATEGORIES.map(category => {
+          const items = plan.items.filter(i => i.category === category.value);
+          if (items.length === 0) return null;
+          const accepted = items.filter(i => choices[i.key] === 'incoming').length;
+          const isOpen = expanded === category.value;
+          return (
+              <div key={category.value} className="rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">
+                  <div className="p-3 flex items-center justify-between gap-2">
+                      <button onClick={() => setExpanded(isOpen ? null : category.value)} className="flex-1 text-left">
+                          <div className="font-semibold text-gray-700 dark:text-gray-200 text-xs flex items-center gap-1">
+                              {category.label} ({items.length}) {isOpen ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+                          </div>
+                          <div className="text-[10px] text-gray-400">{category.hint} • 已選匯入 {accepted}</div>
+                      </button>
+                      <div className="flex gap-1 text-[10px]">
+                          <button onClick={() => setCategory(category.value, 'incoming')} className="px-2 py-1 rounded bg-indigo-50 text-indigo-700 dark:bg-indigo-900/40 dark:text-indigo-200">全部匯入</button>
+                          <button onClick={() => setCategory(category.value, 'local')} className="px-2 py-1 rounded bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300">全部保留本機</button>
+                      </div>
+                  </div>
+                  {isOpen && (
+                      <div className="border-t border-gray-100 dark:border-gray-700 max-h-64 overflow-y-auto divide-y divide-gray-100 dark:divide-gray-700">
+                          {items.map(item => {
+                              const local = describe(item, 'local');
+                              const theirs = describe(item, 'incoming');
+                              return (
+                                  <label key={item.key} className="flex items-start gap-2 p-2 text-[10px] cursor-pointer">
+                                      <input
+                                          type="checkbox"
+                                          className="mt-0.5"
+                                          checked={choices[item.key] === 'incoming'}
+                                          onChange={(e) => setChoices({ ...choices, [item.key]: e.target.checked ? 'incoming' : 'local' })}
+                                      />
+                                      <div className="flex-1 space-y-0.5 font-mono">
+                                          {local && <div className="text-gray-500 dark:text-gray-400">本機: {local}</div>}
+                                          {theirs && <div className="text-indigo-700 dark:text-indigo-300">匯入: {theirs}</div>}
+                                      </div>
+                                  </label>
+                              );
+                          })}
+                      </div>
+                  )}
+              </div>
+          );
+      })}
+
+      {plan.items.length === 0 && <div className="text-xs text-green-700 dark:text-green-300 p-2">匯入的紀錄與本機完全相同。</div>}
+
+      <label className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-300">
+          <input type="checkbox" checked={useIncomingSettings} onChange={(e) => setUseIncomingSettings(e.target.checked)} />
+          同時使用匯入檔案的設定 (貨幣、稅率、地區等)
+      </label>
+
+      <div className="flex gap-2">
+          <button onClick={handleMerge} className="flex-1 bg-primary hover:bg-indigo-700 text-white py-2 rounded-lg text-xs font-bold">合併</button>
+          <button onClick={onCancel} className="px-4 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg text-xs">取消</button>
+      </div>
+      <button onClick={onReplaceAll} className="w-full py-2 rounded-lg border border-red-200 dark:border-red-800 text-red-600 dark:text-red-300 text-xs font-bold flex items-center justify-center gap-1 hover:bg-red-50 dark:hover:bg-red-900/30">
+          <AlertTriangle className="w-3 h-3" /> 全部取代 (刪除本機所有紀錄並使用匯入檔案)
+      </button>
+    </div>
+  );
+};
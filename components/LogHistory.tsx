@@ -0,0 +1,248 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { WorkLog, UserSettings, Job, LogStatus } from '../types';
+import { Search, Filter, Trash2, Pencil, ChevronLeft, ChevronRight, ArrowUpDown, Briefcase, Clock, X } from 'lucide-react';
+import { PRESET_TAGS } from './WorkLogger';
+import { calculateLogsPay } from '../services/payEngine';
+import { isPenaltyRateDay } from '../services/holidays';
+import { LOG_STATUSES, getLogStatus, getStatusMeta, isWorkedLog } from '../services/logStatus';
+
+interface LogHistoryProps {
+  logs: WorkLog[];
+  settings: UserSettings;
+  jobs: Job[];
+  onDeleteLogs: (ids: string[]) => void;
+  onMoveLogs: (ids: string[], jobId: string) => void;
+}
+
+type SortKey = 'date' | 'duration' | 'earnings';
+type DayFilter = 'all' | 'weekday' | 'weekend';
+
+const PAGE_SIZE = 20;
+
+export const LogHistory: React.FC<LogHistoryProps> = ({ logs, settings, jobs, onDeleteLogs, onMoveLogs }) => {
+  const navigate = useNavigate();
+
+  // Filters
+  const [jobFilter, setJobFilter] = useState('all');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [dayFilter, setDayFilter] = useState<DayFilter>('all');
+  const [statusFilter, setStatusFilter] = useState<LogStatus | 'all'>('all');
+  const [searchText, setSearchText] = useState('');
+  const [tagFilter, setTagFilter] = useState('');
+  const [minDuration, setMinDuration] = useState('');
+  const [maxDuration, setMaxDuration] = useState('');
+
+  // Sorting, Paging & Selection
+  const [sortKey, setSortKey] = useState<SortKey>('date');
+  const [sortDesc, setSortDesc] = useState(true);
+  const [page, setPage] = useState(0);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [moveTargetJobId, setMoveTargetJobId] = useState('');
+
+  // Earnings per log, computed once for filtering/sorting/totals
+  const rows = useMemo(() => {
+      const payById = new Map(calculateLogsPay(logs, jobs, settings).map(p => [p.logId, p]));
+      return logs.map(log => ({ log, earnings: payById.get(log.id)?.amount || 0 }));
+  }, [logs, jobs, settings]);
+
+  const filteredRows = useMemo(() => {
+    const text = searchText.trim().toLowerCase();
+    const min = parseFloat(minDuration);
+    const max = parseFloat(maxDuration);
+
+    const result = rows.filter(({ log }) => {
+        if (jobFilter !== 'all' && log.jobId !== jobFilter) return false;
+        if (statusFilter !== 'all' && getLogStatus(log) !== statusFilter) return false;
+        if (fromDate && log.date < fromDate) return false;
+        if (toDate && log.date > toDate) return false;
+        if (dayFilter !== 'all') {
+            const isWeekend = isPenaltyRateDay(log.date, settings);
+            if (dayFilter === 'weekend' ? !isWeekend : isWeekend) return false;
+        }
+        if (text && !log.notes.toLowerCase().includes(text)) return false;
+        if (tagFilter && !log.notes.includes(tagFilter)) return false;
+        if (!isNaN(min) && log.duration < min) return false;
+        if (!isNaN(max) && log.duration > max) return false;
+        return true;
+    });
+
+    const dir = sortDesc ? -1 : 1;
+    return result.sort((a, b) => {
+        if (sortKey === 'duration') return (a.log.duration - b.log.duration) * dir;
+        if (sortKey === 'earnings') return (a.earnings - b.earnings) * dir;
+        return (a.log.date.localeCompare(b.log.date) || a.log.startTime.localeCompare(b.log.startTime)) * dir;
+    });
+  }, [rows, jobFilter, statusFilter, fromDate, toDate, dayFilter, searchText, tagFilter, minDuration, maxDuration, sortKey, sortDesc, settings]);
+
+  // Reset paging when the filter changes; drop selections that no longer exist
+  useEffect(() => { setPage(0); }, [jobFilter, statusFilter, fromDate, toDate, dayFilter, searchText, tagFilter, minDuration, maxDuration, sortKey, sortDesc]);
+  useEffect(() => {
+      setSelectedIds(prev => new Set([...prev].filter(id => logs.some(l => l.id === id))));
+  }, [logs]);
+
+  // Only worked shifts count towards the hour total
+  const totals = useMemo(() => filteredRows.reduce((acc, r) => ({
+      hours: acc.hours + (isWorkedLog(r.log) ? r.log.duration : 0),
+      earnings: acc.earnings + r.earnings,
+  }), { hours: 0, earnings: 0 }), [filteredRows]);
+
+  const pageCount = Math.max(1, Math.ceil(filteredRows.length / PAGE_SIZE));
+  // Deleting rows can leave the current page past the end
+  useEffect(() => { setPage(p => Math.min(p, Math.max(0, pageCount - 1))); }, [filteredRows.length]);
+  const pageRows = filteredRows.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE);
+  const allFilteredSelected = filteredRows.length > 0 && filteredRows.every(r => selectedIds.has(r.log.id));
+
+  const toggleSelect = (id: string) => {
+      setSelectedIds(prev => {
+          const next = new Set(prev);
+          if (next.has(id)) next.delete(id); else next.add(id);
+          return next;
+      });
+  };
+
+  const toggleSelectAll = () => {
+      setSelectedIds(allFilteredSelected ? new Set() : new Set(filteredRows.map(r => r.log.id)));
+  };
+
+  const handleSort = (key: SortKey) => {
+      if (sortKey === key) setSortDesc(!sortDesc);
+      else { setSortKey(key); setSortDesc(true); }
+  };
+
+  const handleBulkDelete = () => {
+      if (selectedIds.size === 0) return;
+      onDeleteLogs([...selectedIds]);
+  };
+
+  const handleBulkMove = () => {
+      if (selectedIds.size === 0 || !moveTargetJobId) return;
+      const target = jobs.find(j => j.id === moveTargetJobId);
+      if (window.confirm(`將 ${selectedIds.size} 筆紀錄移至 "${target?.name}"？`)) {
+          onMoveLogs([...selectedIds], moveTargetJobId);
+          setSelectedIds(new Set());
+      }
+  };
+
+  const clearFilters = () => {
+      setJobFilter('all'); setStatusFilter('all'); setFromDate(''); setToDate(''); setDayFilter('all');
+      setSearchText(''); setTagFilter(''); setMinDuration(''); setMaxDuration('');
+  };
+
+  const inputClass = "w-full bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 text-gray-900 dark:text-white text-xs rounded-lg p-2";
+
+  const SortButton = ({ k, label }: { k: SortKey, label: string }) => (
+      <button onClick={() => handleSort(k)} className={`flex items-center gap-1 px-2 py-1 rounded-md text-xs ${sortKey === k ? 'bg-indigo-50 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-300 font-bold' : 'text-gray-500 dark:text-gray-400'}`}>
+          {label} {sortKey === k && <ArrowUpDown className="w-3 h-3" />}{sortKey === k && (sortDesc ? '↓' : '↑')}
+      </button>
+  );
+
+  return (
+    <div className="space-y-6 animate-fade-in pb-20">
+      {/* Filters */}
+      <div className="bg-white dark:bg-gray-800 p-5 rounded-2xl shadow-sm border border-gray-100 dark:border-gray-700 space-y-3">
+          <div className="flex justify-between items-center">
+              <h2 className="text-sm font-bold text-gray-700 dark:text-gray-200 flex items-center gap-2"><Filter className="w-4 h-4 text-primary" /> 篩選</h2>
+              <button onClick={clearFilters} className="text-xs text-gray-400 hover:text-gray-600 flex items-center gap-1"><X className="w-3 h-3" /> 清除</button>
+          </div>
+          <div className="relative">
+              <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none"><Search className="h-4 w-4 text-gray-400" /></div>
+              <input type="text" value={searchText} onChange={(e) => setSearchText(e.target.value)} placeholder="搜尋備註..." className={`${inputClass} pl-9`} />
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+              <select value={jobFilter} onChange={(e) => setJobFilter(e.target.value)} className={inputClass}>
+                  <option value="all">所有工作</option>
+                  {jobs.map(j => <option key={j.id} value={j.id}>{j.name}</option>)}
+              </select>
+              <select value={dayFilter} onChange={(e) => setDayFilter(e.target.value as DayFilter)} className={inputClass}>
+                  <option value="all">平日及週末</option>
+                  <option value="weekday">只限平日</option>
+                  <option value="weekend">只限週末/假日</option>
+              </select>
+              <input type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} title="由" className={inputClass} />
+              <input type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} title="至" className={inputClass} />
+              <select value={statusFilter} onChange={(e) => setStatusFilter(e.target.value as LogStatus | 'all')} className={inputClass}>
+                  <option value="all">所有狀態</option>
+                  {LOG_STATUSES.map(s => <option key={s.value} value={s.value}>{s.label}</option>)}
+              </select>
+              <select value={tagFilter} onChange={(e) => setTagFilter(e.target.value)} className={inputClass}>
+                  <option value="">所有標籤</option>
+                  {PRESET_TAGS.map(t => <option key={t} value={t}>{t}</option>)}
+              </select>
+              <input type="number" min="0" step="0.1" value={minDuration} onChange={(e) => setMinDuration(e.target.value)} placeholder="最少時數" className={inputClass} />
+              <input type="number" min="0" step="0.1" value={maxDuration} onChange={(e) => setMaxDuration(e.target.value)} placeholder="最多時數" className={inputClass} />
+          </div>
+      </div>
+
+      {/* Totals for current filter */}
+      <div className="grid grid-cols-3 gap-3">
+          <div className="bg-white dark:bg-gray-800 p-3 rounded-xl border border-gray-100 dark:border-gray-700 text-center"><div className="text-[10px] text-gray-500">紀錄</div><div className="font-bold text-gray-800 dark:text-gray-100">{filteredRows.length}</div></div>
+          <div className="bg-white dark:bg-gray-800 p-3 rounded-xl border border-gray-100 dark:border-gray-700 text-center"><div className="text-[10px] text-gray-500">總工時</div><div className="font-bold text-gray-800 dark:text-gray-100">{totals.hours.toFixed(2)}h</div></div>
+          <div className="bg-indigo-50 dark:bg-indigo-900/30 p-3 rounded-xl border border-indigo-100 dark:border-indigo-800 text-center"><div className="text-[10px] text-indigo-500">總收入</div><div className="font-bold text-indigo-700 dark:text-indigo-300">{settings.currency} {totals.earnings.toLocaleString(undefined, {maximumFractionDigits: 0})}</div></div>
+      </div>
+
+      {/* Toolbar: sort + bulk actions */}
+      <div className="flex flex-wrap justify-between items-center gap-2">
+          <div className="flex items-center gap-1">
+              <input type="checkbox" checked={allFilteredSelected} onChange={toggleSelectAll} className="mr-2" title="全選" />
+              <SortButton k="date" label="日期" />
+              <SortButton k="duration" label="時數" />
+              <SortButton k="earnings" label="收入" />
+          </div>
+          {selectedIds.size > 0 && (
+              <div className="flex items-center gap-2 text-xs">
+                  <span className="text-gray-500">已選 {selectedIds.size}</span>
+                  <select value={moveTargetJobId} onChange={(e) => setMoveTargetJobId(e.target.value)} className="bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-lg p-1.5 text-xs">
+                      <option value="">移至工作...</option>
+                      {jobs.map(j => <option key={j.id} value={j.id}>{j.name}</option>)}
+                  </select>
+                  <button onClick={handleBulkMove} disabled={!moveTargetJobId} className="px-2 py-1.5 rounded-lg bg-indigo-600 text-white font-bold disabled:opacity-50 flex items-center gap-1"><Briefcase className="w-3 h-3" /> 移動</button>
+                  <button onClick={handleBulkDelete} className="px-2 py-1.5 rounded-lg bg-red-500 text-white font-bold flex items-center gap-1"><Trash2 className="w-3 h-3" /> 刪除</button>
+              </div>
+          )}
+      </div>
+
+      {/* Rows */}
+      <div className="space-y-2">
+          {pageRows.map(({ log, earnings }) => {
+              const logJob = jobs.find(j => j.id === log.jobId);
+              const status = getLogStatus(log);
+              return (
+                  <div key={log.id} className={`bg-white dark:bg-gray-800 p-3 rounded-xl shadow-sm border flex items-center gap-3 transition-colors ${selectedIds.has(log.id) ? 'border-indigo-300 dark:border-indigo-600' : 'border-gray-100 dark:border-gray-700'}`}>
+                      <input type="checkbox" checked={selectedIds.has(log.id)} onChange={() => toggleSelect(log.id)} />
+                      <div className="flex-1 min-w-0">
+                          <div className="flex items-center gap-2 mb-0.5">
+                              <span className="font-semibold text-sm text-gray-800 dark:text-gray-200">{log.date}</span>
+                              <span className="text-xs bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 px-2 py-0.5 rounded-full font-mono">{log.duration.toFixed(2)} h</span>
+                              {logJob && <span className="text-[10px] px-1.5 py-0.5 rounded text-white font-medium" style={{ backgroundColor: logJob.color }}>{logJob.name}</span>}
+                              {status !== 'worked' && <span className={`text-[10px] px-1.5 py-0.5 rounded ${getStatusMeta(status).className}`}>{getStatusMeta(status).label}</span>}
+                          </div>
+                          <div className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400 truncate">
+                              <Clock className="w-3 h-3 flex-shrink-0" />
+                              <span>{log.startTime} - {log.endTime}</span>
+                              {!!log.breakMinutes && <span className="text-amber-600 dark:text-amber-400">(休息 {log.breakMinutes}m)</span>}
+                              {log.notes && <span className="italic truncate">• {log.notes}</span>}
+                          </div>
+                      </div>
+                      <div className="text-right text-xs font-bold text-gray-700 dark:text-gray-200 whitespace-nowrap">{settings.currency} {earnings.toFixed(2)}</div>
+                      <button onClick={() => navigate('/log', { state: { editLogId: log.id } })} className="p-2 text-gray-300 dark:text-gray-600 hover:text-indigo-500 rounded-lg"><Pencil className="w-4 h-4" /></button>
+                  </div>
+              );
+          })}
+          {filteredRows.length === 0 && (
+              <div className="text-xs text-gray-400 text-center italic py-8 bg-white dark:bg-gray-800 rounded-xl border border-dashed border-gray-200 dark:border-gray-700">沒有符合條件的紀錄</div>
+          )}
+      </div>
+
+      {/* Pagination */}
+      {pageCount > 1 && (
+          <div className="flex justify-center items-center gap-4 text-xs text-gray-600 dark:text-gray-300">
+              <button onClick={() => setPage(p => Math.max(0, p - 1))} disabled={page === 0} className="p-2 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-30"><ChevronLeft className="w-4 h-4" /></button>
+              <span>{page + 1} / {pageCount}</span>
+              <button onClick={() => setPage(p => Math.min(pageCount - 1, p + 1))} disabled={page >= pageCount - 1} className="p-2 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-30"><ChevronRight className="w-4 h-4" /></button>
+          </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,119 @@
+import React, { useMemo } from 'react';
+import { Payslip, Job, UserSettings } from '../types';
+import { History, AlertTriangle, FolderOpen, CheckCircle, RotateCcw, Trash2 } from 'lucide-react';
+import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Cell, CartesianGrid, ReferenceLine } from 'recharts';
+import { getPayslipDifference, getPayslipShortfall, getPayslipStatus, getPayslipStatusMeta, getUnresolvedUnderpayment, sortPayslips } from '../services/payslips';
+
+interface PayslipHistoryProps {
+  payslips: Payslip[];
+  jobs: Job[];
+  settings: UserSettings;
+  editingId: string | null;
+  onOpen: (payslip: Payslip) => void;
+  onSave: (payslip: Payslip) => void;
+  onDelete: (id: string) => void;
+}
+
+// Periods shown in the discrepancy chart
+const TREND_PERIODS = 12;
+
+export const PayslipHistory: React.FC<PayslipHistoryProps> = ({ payslips, jobs, settings, editingId, onOpen, onSave, onDelete }) => {
+  const sorted = useMemo(() => sortPayslips(payslips), [payslips]);
+  const unresolved = useMemo(() => getUnresolvedUnderpayment(payslips), [payslips]);
+  const unresolvedCount = payslips.filter(p => p.status === 'underpaid').length;
+
+  const trendData = useMemo(() => sorted.slice(0, TREND_PERIODS).reverse().map(p => ({
+      name: p.periodEnd.slice(5),
+      difference: parseFloat(getPayslipDifference(p).toFixed(2)),
+  })), [sorted]);
+
+  const jobFor = (jobId: string) => jobs.find(j => j.id === jobId);
+
+  const handleToggleResolved = (payslip: Payslip) => {
+      const status = payslip.status === 'resolved' ? getPayslipStatus(payslip) : 'resolved';
+      onSave({ ...payslip, status, timestamp: Date.now() });
+  };
+
+  const handleDelete = (payslip: Payslip) => {
+      if (window.confirm(`確定刪除 ${payslip.periodStart} - ${payslip.periodEnd} 的薪資單紀錄？`)) onDelete(payslip.id);
+  };
+
+  if (payslips.length === 0) {
+      return (
+          <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100 text-center text-xs text-gray-400">
+              <History className="w-5 h-5 mx-auto mb-2" />
+              尚未儲存任何薪資單。核對後按「儲存薪資單」即可保留紀錄。
+          </div>
+      );
+  }
+
+  return (
+    <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100 space-y-4">
+        <h2 className="text-lg font-semibold text-gray-800 flex items-center gap-2"><History className="w-5 h-5 text-primary" /> 薪資單紀錄 <span className="text-xs font-normal text-gray-400">({payslips.length})</span></h2>
+
+        {unresolved > 0 && (
+            <div className="p-3 rounded-lg border border-red-100 bg-red-50 text-red-800 flex items-center justify-between text-xs">
+                <span className="font-bold flex items-center gap-1"><AlertTriangle className="w-4 h-4" /> 未解決少付 ({unresolvedCount} 張薪資單)</span>
+                <span className="text-lg font-black">{settings.currency} {unresolved.toLocaleString(undefined, {minimumFractionDigits: 2, maximumFractionDigits: 2})}</span>
+            </div>
+        )}
+
+        {trendData.length > 1 && (
+            <div>
+                <div className="text-xs font-medium text-gray-500 mb-2">差異趨勢 (薪資單 - App 預計)</div>
+                <div className="h-40 w-full">
+                    <ResponsiveContainer width="100%" height="100%">
+                        <BarChart data={trendData} margin={{ top: 5, right: 5, left: -20, bottom: 0 }}>
+                            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#F3F4F6" />
+                            <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{ fill: '#9CA3AF', fontSize: 10 }} />
+                            <YAxis axisLine={false} tickLine={false} tick={{ fill: '#9CA3AF', fontSize: 11 }} />
+                            <Tooltip cursor={{ fill: '#F3F4F6' }} contentStyle={{ borderRadius: '8px' }} formatter={(value: number) => [`${settings.currency} ${value}`, '差異']} />
+                            <ReferenceLine y={0} stroke="#D1D5DB" />
+                            <Bar dataKey="difference" radius={[4, 4, 0, 0]} maxBarSize={32}>
+                                {trendData.map((entry, index) => (
+                                    <Cell key={`cell-${index}`} fill={entry.difference < 0 ? '#EF4444' : '#10B981'} />
+                                ))}
+                            </Bar>
+                        </BarChart>
+                    </ResponsiveContainer>
+                </div>
+            </div>
+        )}
+
+        <div className="space-y-2">
+            {sorted.map(p => {
+                const job = jobFor(p.jobId);
+                const status = getPayslipStatusMeta(p.status);
+                const difference = getPayslipDifference(p);
+                const shortfall = getPayslipShortfall(p);
+                return (
+                    <div key={p.id} className={`p-3 rounded-lg border text-xs flex items-center justify-between gap-2 ${editingId === p.id ? 'border-indigo-300 bg-indigo-50/50' : 'border-gray-100'}`}>
+                        <div className="min-w-0">
+                            <div className="font-bold text-gray-700 flex items-center gap-2">
+                                <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: job?.color || '#ccc' }}></span>
+                                {p.periodStart} - {p.periodEnd}
+                                <span className={`px-1.5 py-0.5 rounded text-[10px] ${status.className}`}>{status.label}</span>
+                            </div>
+                            <div className="text-gray-500 mt-0.5">
+                                {job?.name || 'Unknown'} • Gross {settings.currency} {p.gross.toFixed(2)} / App {p.expectedGross.toFixed(2)}
+                                <span className={`ml-1 font-semibold ${difference < 0 ? 'text-red-600' : 'text-green-600'}`}>({difference > 0 ? '+' : ''}{difference.toFixed(2)})</span>
+                            </div>
+                            {shortfall > 0 && <div className="text-[10px] text-red-600">少付 {settings.currency} {shortfall.toFixed(2)}{p.status === 'resolved' ? ' (已解決)' : ''}</div>}
+                            {p.notes && <div className="text-[10px] text-gray-400 truncate">{p.notes}</div>}
+                        </div>
+                        <div className="flex items-center gap-1 shrink-0">
+                            <button onClick={() => onOpen(p)} title="開啟" className="p-1.5 text-gray-400 hover:text-indigo-600"><FolderOpen className="w-4 h-4" /></button>
+                            {(p.status === 'underpaid' || p.status === 'resolved') && (
+                                <button onClick={() => handleToggleResolved(p)} title={p.status === 'resolved' ? '重新標記為未解決' : '標記為已解決'} className="p-1.5 text-gray-400 hover:text-green-600">
+                                    {p.status === 'resolved' ? <RotateCcw className="w-4 h-4" /> : <CheckCircle className="w-4 h-4" />}
+                                </button>
+                            )}
+                            <button onClick={() => handleDelete(p)} title="刪除" className="p-1.5 text-gray-400 hover:text-red-500"><Trash2 className="w-4 h-4" /></button>
+                        </div>
+                    </div>
+                );
+            })}
+        </div>
+    </div>
+  );
+};
@@ -1,7 +1,18 @@
 
 import React, { useState, useMemo, useEffect } from 'react';
-import { WorkLog, UserSettings, Job } from '../types';
+import { WorkLog, UserSettings, Job, Payslip } from '../types';
 import { FileCheck, Calendar, Calculator, AlertTriangle, CheckCircle, PlusCircle, MinusCircle, Percent, Briefcase, Trash2, Plus, Save, Tag } from 'lucide-react';
+import { calculateLogsPay, linesInRange, summariseLines, summariseBands } from '../services/payEngine';
+import { hasOvertimeRules, describeTier } from '../services/overtime';
+import { isWorkedLog } from '../services/logStatus';
+import { getRatesForDate } from '../services/rateHistory';
+import { calculatePeriodTax, getTaxProfile } from '../services/tax';
+import { calculatePeriodContributions, hasContributions } from '../services/contributions';
+import { getPayslipStatus } from '../services/payslips';
+import { formatLocalDate } from '../services/dates';
+import { getPayCycle, getPayPeriod, getRecentPayPeriods, getCycleTaxPeriod, describePayCycle, formatPayPeriod } from '../services/payCycles';
+import { hasAllowances, summariseAllowances, getAllowanceUnitMeta } from '../services/allowances';
+import { PayslipHistory } from './PayslipHistory';
 
 interface PayslipVerifierProps {
   logs: WorkLog[];
@@ -10,6 +21,9 @@ interface PayslipVerifierProps {
   onAddLog: (log: WorkLog) => void;
   activeJobId: string;
   onJobChange: (id: string) => void;
+  payslips: Payslip[];
+  onSavePayslip: (payslip: Payslip) => void;
+  onDeletePayslip: (id: string) => void;
 }
 
 interface AdjustmentItem {
@@ -30,28 +44,53 @@ const ADJUSTMENT_TYPES = [
     { label: '扣除 (Deduction)', value: 'Deduction' }
 ];
 
-export const PayslipVerifier: React.FC<PayslipVerifierProps> = ({ logs, settings, jobs, onAddLog, activeJobId, onJobChange }) => {
+// Pay periods offered in the period picker
+const RECENT_PERIOD_COUNT = 12;
+
+// Shifts longer than this without a recorded break usually attract a meal break payment
+const MEAL_BREAK_AFTER_HOURS = 5;
+
+export const PayslipVerifier: React.FC<PayslipVerifierProps> = ({ logs, settings, jobs, onAddLog, activeJobId, onJobChange, payslips, onSavePayslip, onDeletePayslip }) => {
   // Determine which job to use. If 'all' is selected, default to first job for calculation context or force selection.
   const effectiveJobId = activeJobId === 'all' ? (jobs[0]?.id || '') : activeJobId;
   const activeJob = jobs.find(j => j.id === effectiveJobId);
 
-  const [endDate, setEndDate] = useState(new Date().toISOString().slice(0, 10));
-  const [periodLength, setPeriodLength] = useState<'14' | '30'>('14'); 
+  // Any date in the pay period being checked; snaps to the job's pay cycle
+  const [periodDate, setPeriodDate] = useState(() => formatLocalDate(new Date()));
+  const payCycle = getPayCycle(activeJob, settings);
+  const payPeriod = getPayPeriod(payCycle, periodDate);
+  const recentPeriods = getRecentPayPeriods(payCycle, formatLocalDate(new Date()), RECENT_PERIOD_COUNT);
+  const periodOptions = recentPeriods.some(p => p.end === payPeriod.end) ? recentPeriods : [payPeriod, ...recentPeriods];
   const [slipWeekdayHours, setSlipWeekdayHours] = useState<string>('0');
   const [slipWeekendHours, setSlipWeekendHours] = useState<string>('0');
-  const [slipAllowances, setSlipAllowances] = useState<string>('0');
-  const [slipTaxRate, setSlipTaxRate] = useState<string>(settings.taxRate?.toString() || '0');
+  const [slipAllowances, setSlipAllowances] = useState<string>('');
+  const [slipTaxWithheld, setSlipTaxWithheld] = useState<string>('');
+  const [slipEmployerContribution, setSlipEmployerContribution] = useState<string>('');
+  const [slipEmployeeContribution, setSlipEmployeeContribution] = useState<string>('');
 
   // Dynamic Adjustments (Other Items)
   const [adjustments, setAdjustments] = useState<AdjustmentItem[]>([]);
 
-  const addAdjustment = (category = 'General', name = '') => {
+  // Saved payslip being edited; saving without one creates a new record
+  const [editingPayslipId, setEditingPayslipId] = useState<string | null>(null);
+  const [payslipNotes, setPayslipNotes] = useState('');
+  // Only while the form still shows that record's job and period
+  const editingPayslip = payslips.find(p => p.id === editingPayslipId && p.jobId === effectiveJobId && p.periodStart === payPeriod.start && p.periodEnd === payPeriod.end);
+
+  // Switching job or period starts a new record instead of overwriting the open one
+  useEffect(() => {
+      if (!editingPayslipId || editingPayslip) return;
+      setEditingPayslipId(null);
+      setPayslipNotes('');
+  }, [effectiveJobId, payPeriod.start, payPeriod.end]);
+
+  const addAdjustment = (category = 'General', name = '', rate = '') => {
       setAdjustments([...adjustments, { 
           id: crypto.randomUUID(), 
           category, 
           name: name || '', 
           hours: '', 
-          rate: '', 
+          rate, 
           amount: '' 
       }]);
   };
@@ -90,7 +129,7 @@ export const PayslipVerifier: React.FC<PayslipVerifierProps> = ({ logs, settings
         onAddLog({
             id: crypto.randomUUID(),
             jobId: effectiveJobId,
-            date: endDate, // Use period end date
+            date: payPeriod.end, // Use period end date
             startTime: '-',
             endTime: '-',
             duration: parseFloat(adj.hours),
@@ -101,55 +140,151 @@ export const PayslipVerifier: React.FC<PayslipVerifierProps> = ({ logs, settings
   };
 
   const totalAdjustments = adjustments.reduce((sum, item) => sum + (parseFloat(item.amount) || 0), 0);
+  const mealBreakItems = adjustments.filter(a => a.category === 'Meal Break');
+  const sumAdjustmentHours = (category: string) => adjustments.filter(a => a.category === category).reduce((sum, a) => sum + (parseFloat(a.hours) || 0), 0);
+  const slipOvertime1Hours = sumAdjustmentHours('Overtime 1');
+  const slipOvertime2Hours = sumAdjustmentHours('Overtime 2');
 
   // Calculate App Data
   const appStats = useMemo(() => {
     if (!activeJob) return null;
-    const end = new Date(endDate);
-    const days = parseInt(periodLength);
-    const startTimestamp = end.getTime() - ((days - 1) * 24 * 60 * 60 * 1000);
-    const start = new Date(startTimestamp);
-    const startStr = start.toISOString().slice(0, 10);
-    const endStr = endDate;
-
-    const periodLogs = logs.filter(l => l.date >= startStr && l.date <= endStr && l.jobId === activeJob.id);
-
-    let weekdayHours = 0;
-    let weekendHours = 0;
-
-    periodLogs.forEach(log => {
-      const d = new Date(log.date);
-      const day = d.getDay();
-      if (day === 0 || day === 6) weekendHours += log.duration;
-      else weekdayHours += log.duration;
-    });
+    const startStr = payPeriod.start;
+    const endStr = payPeriod.end;
+
+    const periodLogs = logs.filter(l => l.date >= startStr && l.date <= endStr && l.jobId === activeJob.id && isWorkedLog(l));
+    // Hours are counted on the day worked, so overnight shifts can straddle periods
+    const jobLogs = logs.filter(l => l.jobId === activeJob.id);
+    const lines = linesInRange(calculateLogsPay(jobLogs, jobs, settings), startStr, endStr);
+    const pay = summariseLines(lines);
+    // First overtime tier maps to "Overtime 1" payslip items, later tiers to "Overtime 2"
+    const overtimeLines = lines.filter(l => l.category === 'overtime');
+    const overtime1Hours = overtimeLines.filter(l => !l.tier).reduce((sum, l) => sum + l.hours, 0);
+    const overtime2Hours = overtimeLines.filter(l => (l.tier || 0) > 0).reduce((sum, l) => sum + l.hours, 0);
+
+    // Recorded unpaid breaks, for reconciling "Meal Break" payslip items
+    const shiftsWithBreak = periodLogs.filter(l => (l.breakMinutes || 0) > 0);
+    const breakHours = shiftsWithBreak.reduce((sum, l) => sum + (l.breakMinutes || 0) / 60, 0);
+    const longShiftsWithoutBreak = periodLogs.filter(l => l.startTime !== '-' && !l.breakMinutes && l.duration > MEAL_BREAK_AFTER_HOURS).length;
 
     return {
       startStr,
       endStr,
-      weekdayHours,
-      weekendHours,
-      estimatedBasePay: (weekdayHours * activeJob.hourlyRate) + (weekendHours * activeJob.weekendHourlyRate)
+      weekdayHours: pay.baseHours,
+      weekendHours: pay.penaltyHours,
+      overtimeHours: pay.overtimeHours,
+      overtime1Hours,
+      overtime2Hours,
+      bands: summariseBands(lines),
+      estimatedBasePay: pay.amount - pay.allowances,
+      allowances: pay.allowances,
+      allowanceItems: summariseAllowances(lines),
+      lines,
+      breakCount: shiftsWithBreak.length,
+      breakHours,
+      longShiftsWithoutBreak
     };
-  }, [logs, endDate, periodLength, effectiveJobId, activeJob]);
+  }, [logs, payPeriod.start, payPeriod.end, effectiveJobId, activeJob, jobs, settings]);
 
   // Calculations
   const inputWeekday = parseFloat(slipWeekdayHours) || 0;
   const inputWeekend = parseFloat(slipWeekendHours) || 0;
-  const inputAllowance = parseFloat(slipAllowances) || 0;
-  const inputTaxRate = parseFloat(slipTaxRate) || 0;
 
   if (!appStats || !activeJob) return <div>Please add a job first.</div>;
 
-  const appTotalGross = appStats.estimatedBasePay + inputAllowance; 
-  const appNetPay = appTotalGross * (1 - inputTaxRate/100);
+  // Jobs with allowance definitions expect them; otherwise the payslip's figure is taken as right.
+  // Blank field: assume the expected amount
+  const expectedAllowances = hasAllowances(activeJob) ? appStats.allowances : null;
+  const inputAllowance = slipAllowances.trim() === '' ? (expectedAllowances ?? 0) : parseFloat(slipAllowances) || 0;
+  const appAllowances = expectedAllowances ?? inputAllowance;
+  const allowancesMatch = expectedAllowances === null || inputAllowance >= expectedAllowances - 0.01;
+
+  const taxPeriod = getCycleTaxPeriod(payCycle);
+  const appTotalGross = appStats.estimatedBasePay + appAllowances;
+  const appTax = calculatePeriodTax(appTotalGross, taxPeriod, settings);
+  const showContributions = hasContributions(activeJob);
+  const appContributions = calculatePeriodContributions(appStats.lines, activeJob, taxPeriod);
+  const appEmployeeContribution = appContributions.employee + appContributions.voluntary;
+  const appNetPay = appTotalGross - appTax - appEmployeeContribution;
+
+  const slipRates = getRatesForDate(activeJob, payPeriod.end);
+  const slipTotalGross = (inputWeekday * slipRates.hourlyRate) + (inputWeekend * slipRates.weekendHourlyRate) + inputAllowance + totalAdjustments;
+  // Blank tax field: estimate from the tax profile
+  const slipTax = slipTaxWithheld.trim() === '' ? calculatePeriodTax(slipTotalGross, taxPeriod, settings) : parseFloat(slipTaxWithheld) || 0;
+  // Blank contribution fields: assume the expected amounts
+  const slipEmployer = slipEmployerContribution.trim() === '' ? null : parseFloat(slipEmployerContribution) || 0;
+  const slipEmployee = slipEmployeeContribution.trim() === '' ? null : parseFloat(slipEmployeeContribution) || 0;
+  const slipNetPay = slipTotalGross - slipTax - (slipEmployee ?? appEmployeeContribution);
+
+  // Prefill overtime items from the job's rules when it has them
+  const overtimeRules = hasOvertimeRules(activeJob.overtime) ? activeJob.overtime : undefined;
+  const addOvertimeAdjustment = (tier: 0 | 1) => {
+      const category = tier === 0 ? 'Overtime 1' : 'Overtime 2';
+      if (!overtimeRules || !overtimeRules.tiers[tier]) {
+          addAdjustment(category, tier === 0 ? 'OT First 2 Hrs' : 'OT After 2 Hrs');
+          return;
+      }
+      addAdjustment(category, describeTier(overtimeRules, tier), (slipRates.hourlyRate * overtimeRules.tiers[tier].multiplier).toFixed(2));
+  };
 
-  const slipTotalGross = (inputWeekday * activeJob.hourlyRate) + (inputWeekend * activeJob.weekendHourlyRate) + inputAllowance + totalAdjustments;
-  const slipNetPay = slipTotalGross * (1 - inputTaxRate/100);
+  const overtimeMatches = Math.abs(slipOvertime1Hours - appStats.overtime1Hours) <= 0.1 && Math.abs(slipOvertime2Hours - appStats.overtime2Hours) <= 0.1;
 
   const diffWeekday = inputWeekday - appStats.weekdayHours;
   const diffWeekend = inputWeekend - appStats.weekendHours;
   const diffPay = slipTotalGross - appTotalGross;
+  // Employer contributions above the expected amount are fine; otherwise allow a cent of rounding
+  const contributionsMatch = (slipEmployer === null || slipEmployer >= appContributions.employer - 0.01)
+    && (slipEmployee === null || Math.abs(slipEmployee - appEmployeeContribution) <= 0.01);
+
+  const toNumber = (value: string) => value.trim() === '' ? undefined : parseFloat(value) || 0;
+
+  const handleSavePayslip = () => {
+      const payslip: Payslip = {
+          id: editingPayslip?.id || crypto.randomUUID(),
+          jobId: activeJob.id,
+          periodStart: appStats.startStr,
+          periodEnd: appStats.endStr,
+          weekdayHours: inputWeekday,
+          weekendHours: inputWeekend,
+          allowances: inputAllowance,
+          adjustments: adjustments.map(a => ({ id: a.id, category: a.category, name: a.name, hours: toNumber(a.hours), rate: toNumber(a.rate), amount: parseFloat(a.amount) || 0 })),
+          gross: slipTotalGross,
+          tax: slipTax,
+          employerContribution: slipEmployer ?? undefined,
+          employeeContribution: slipEmployee ?? undefined,
+          net: slipNetPay,
+          expectedGross: appTotalGross,
+          expectedEmployerContribution: showContributions ? appContributions.employer : undefined,
+          expectedAllowances: expectedAllowances ?? undefined,
+          status: 'matched',
+          notes: payslipNotes.trim() || undefined,
+          timestamp: Date.now(),
+      };
+      onSavePayslip({ ...payslip, status: getPayslipStatus(payslip, editingPayslip?.status) });
+      setEditingPayslipId(payslip.id);
+  };
+
+  // Load a saved payslip back into the form
+  const handleOpenPayslip = (payslip: Payslip) => {
+      onJobChange(payslip.jobId);
+      setPeriodDate(payslip.periodEnd);
+      setSlipWeekdayHours(String(payslip.weekdayHours));
+      setSlipWeekendHours(String(payslip.weekendHours));
+      setSlipAllowances(String(payslip.allowances));
+      setSlipTaxWithheld(String(payslip.tax));
+      setSlipEmployerContribution(payslip.employerContribution?.toString() ?? '');
+      setSlipEmployeeContribution(payslip.employeeContribution?.toString() ?? '');
+      setAdjustments(payslip.adjustments.map(a => ({
+          id: a.id,
+          category: a.category,
+          name: a.name,
+          hours: a.hours?.toString() ?? '',
+          rate: a.rate?.toString() ?? '',
+          amount: a.amount.toString(),
+      })));
+      setPayslipNotes(payslip.notes || '');
+      setEditingPayslipId(payslip.id);
+      window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
 
   const handleAutoFill = (type: 'weekday' | 'weekend') => {
     const diff = type === 'weekday' ? diffWeekday : diffWeekend;
@@ -158,12 +293,13 @@ export const PayslipVerifier: React.FC<PayslipVerifierProps> = ({ logs, settings
     const newLog: WorkLog = {
         id: crypto.randomUUID(),
         jobId: effectiveJobId,
-        date: endDate,
+        date: payPeriod.end,
         startTime: '-',
         endTime: '-',
         duration: parseFloat(diff.toFixed(2)),
         notes: `Payslip ${diff > 0 ? 'Backfill' : 'Correction'} (${type})`,
-        timestamp: Date.now()
+        timestamp: Date.now(),
+        correction: true
     };
     onAddLog(newLog);
   };
@@ -203,8 +339,14 @@ export const PayslipVerifier: React.FC<PayslipVerifierProps> = ({ logs, settings
 
         {/* Inputs */}
         <div className="bg-gray-50 p-4 rounded-xl mb-6 grid grid-cols-2 gap-4">
-             <div><label className="text-xs text-gray-500 block">週期結束日</label><input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} className="w-full text-xs rounded border-gray-300"/></div>
-             <div><label className="text-xs text-gray-500 block">週期長度</label><select value={periodLength} onChange={(e) => setPeriodLength(e.target.value as any)} className="w-full text-xs rounded border-gray-300"><option value="14">14 天</option><option value="30">30 天</option></select></div>
+             <div>
+                 <label className="text-xs text-gray-500 block">發薪週期</label>
+                 <select value={payPeriod.end} onChange={(e) => setPeriodDate(e.target.value)} className="w-full text-xs rounded border-gray-300">
+                     {periodOptions.map(p => <option key={p.end} value={p.end}>{formatPayPeriod(p)} (發薪 {p.payday.slice(5)})</option>)}
+                 </select>
+             </div>
+             <div><label className="text-xs text-gray-500 block">或選擇日期</label><input type="date" value={periodDate} onChange={(e) => e.target.value && setPeriodDate(e.target.value)} className="w-full text-xs rounded border-gray-300"/></div>
+             <p className="col-span-2 text-[10px] text-gray-400">{payPeriod.start} 至 {payPeriod.end} • {describePayCycle(payCycle)}</p>
         </div>
 
         <div className="grid grid-cols-1 gap-8 mb-8">
@@ -218,20 +360,33 @@ export const PayslipVerifier: React.FC<PayslipVerifierProps> = ({ logs, settings
                             <input type="number" value={slipWeekdayHours} onChange={(e) => setSlipWeekdayHours(e.target.value)} className="w-full text-sm font-bold border-gray-200 rounded p-1 text-right"/>
                         </div>
                         <div className="p-3">
-                            <label className="text-[10px] font-bold text-gray-500 block mb-1">週末時數 (Weekend)</label>
+                            <label className="text-[10px] font-bold text-gray-500 block mb-1">週末/假日時數 (Weekend & PH)</label>
                             <input type="number" value={slipWeekendHours} onChange={(e) => setSlipWeekendHours(e.target.value)} className="w-full text-sm font-bold border-gray-200 rounded p-1 text-right"/>
                         </div>
                     </div>
                     
                     <div className="p-4 space-y-3">
                         <div className="flex justify-between items-center">
-                            <label className="text-xs font-medium text-gray-600">基本津貼 (Allowances)</label>
-                            <input type="number" placeholder="0" value={slipAllowances} onChange={(e) => setSlipAllowances(e.target.value)} className="w-24 text-xs border border-gray-300 rounded p-1 text-right"/>
+                            <label className="text-xs font-medium text-gray-600">津貼總額 (Allowances)</label>
+                            <input type="number" placeholder={(expectedAllowances ?? 0).toFixed(2)} value={slipAllowances} onChange={(e) => setSlipAllowances(e.target.value)} className="w-24 text-xs border border-gray-300 rounded p-1 text-right"/>
                         </div>
                         <div className="flex justify-between items-center">
-                            <label className="text-xs font-medium text-gray-600">預扣稅率 (Tax %)</label>
-                            <input type="number" placeholder="0" value={slipTaxRate} onChange={(e) => setSlipTaxRate(e.target.value)} className="w-24 text-xs border border-gray-300 rounded p-1 text-right"/>
+                            <label className="text-xs font-medium text-gray-600">預扣稅款 (Tax withheld)</label>
+                            <input type="number" placeholder={calculatePeriodTax(slipTotalGross, taxPeriod, settings).toFixed(2)} value={slipTaxWithheld} onChange={(e) => setSlipTaxWithheld(e.target.value)} className="w-24 text-xs border border-gray-300 rounded p-1 text-right"/>
                         </div>
+                        {slipTaxWithheld.trim() === '' && <p className="text-[10px] text-gray-400 text-right">留空則按 {getTaxProfile(settings).label} 估算</p>}
+                        {showContributions && (
+                            <>
+                                <div className="flex justify-between items-center">
+                                    <label className="text-xs font-medium text-gray-600">僱主供款 (Employer Super / MPF)</label>
+                                    <input type="number" placeholder={appContributions.employer.toFixed(2)} value={slipEmployerContribution} onChange={(e) => setSlipEmployerContribution(e.target.value)} className="w-24 text-xs border border-gray-300 rounded p-1 text-right"/>
+                                </div>
+                                <div className="flex justify-between items-center">
+                                    <label className="text-xs font-medium text-gray-600">僱員供款 (Employee, 含自願)</label>
+                                    <input type="number" placeholder={appEmployeeContribution.toFixed(2)} value={slipEmployeeContribution} onChange={(e) => setSlipEmployeeContribution(e.target.value)} className="w-24 text-xs border border-gray-300 rounded p-1 text-right"/>
+                                </div>
+                            </>
+                        )}
                     </div>
 
                     {/* Dynamic Adjustments Section */}
@@ -249,10 +404,10 @@ export const PayslipVerifier: React.FC<PayslipVerifierProps> = ({ logs, settings
                                 <button onClick={() => addAdjustment('Meal Break', 'Delayed Meal Brk')} className="flex-shrink-0 text-[10px] bg-orange-50 text-orange-600 border border-orange-100 px-2 py-1 rounded-lg hover:bg-orange-100">
                                     + 膳食補償 (Meal)
                                 </button>
-                                <button onClick={() => addAdjustment('Overtime 1', 'OT First 2 Hrs')} className="flex-shrink-0 text-[10px] bg-blue-50 text-blue-600 border border-blue-100 px-2 py-1 rounded-lg hover:bg-blue-100">
+                                <button onClick={() => addOvertimeAdjustment(0)} className="flex-shrink-0 text-[10px] bg-blue-50 text-blue-600 border border-blue-100 px-2 py-1 rounded-lg hover:bg-blue-100">
                                     + 加班 (OT 1)
                                 </button>
-                                <button onClick={() => addAdjustment('Overtime 2', 'OT After 2 Hrs')} className="flex-shrink-0 text-[10px] bg-indigo-50 text-indigo-600 border border-indigo-100 px-2 py-1 rounded-lg hover:bg-indigo-100">
+                                <button onClick={() => addOvertimeAdjustment(1)} className="flex-shrink-0 text-[10px] bg-indigo-50 text-indigo-600 border border-indigo-100 px-2 py-1 rounded-lg hover:bg-indigo-100">
                                     + 加班 (OT 2)
                                 </button>
                             </div>
@@ -356,11 +511,36 @@ export const PayslipVerifier: React.FC<PayslipVerifierProps> = ({ logs, settings
                 <h3 className="text-sm font-bold text-gray-700 flex items-center gap-2"><Calendar className="w-4 h-4" /> App 紀錄 ({activeJob.name})</h3>
                 <div className="p-4 bg-white border rounded-xl space-y-2 text-sm">
                     <div className="flex justify-between"><span>平日時數</span><span className="font-bold">{appStats.weekdayHours.toFixed(2)}h</span></div>
-                    <div className="flex justify-between"><span>週末時數</span><span className="font-bold">{appStats.weekendHours.toFixed(2)}h</span></div>
+                    <div className="flex justify-between"><span>週末/假日時數</span><span className="font-bold">{appStats.weekendHours.toFixed(2)}h</span></div>
+                    {Object.keys(appStats.bands).map(name => (
+                        <div key={name} className="flex justify-between text-xs text-purple-700"><span>└ {name} 時段</span><span>{appStats.bands[name].hours.toFixed(2)}h ({settings.currency} {appStats.bands[name].amount.toFixed(2)})</span></div>
+                    ))}
+                    {appStats.overtimeHours > 0 && (
+                        <div className="flex justify-between text-orange-600"><span>加班時數 (OT)</span><span className="font-bold">{appStats.overtimeHours.toFixed(2)}h</span></div>
+                    )}
+                    {appStats.breakCount > 0 && (
+                        <div className="flex justify-between text-xs text-gray-500"><span>無薪休息 ({appStats.breakCount} 次)</span><span>{appStats.breakHours.toFixed(2)}h</span></div>
+                    )}
                     <div className="flex justify-between pt-2 text-gray-500 text-xs">
                         <span>基本薪資估算</span>
                         <span>{settings.currency} {appStats.estimatedBasePay.toFixed(2)}</span>
                     </div>
+                    {appAllowances > 0 && (
+                        <div className="flex justify-between text-gray-500 text-xs">
+                            <span>津貼{expectedAllowances === null ? ' (按薪資單)' : ''}</span>
+                            <span>+ {settings.currency} {appAllowances.toFixed(2)}</span>
+                        </div>
+                    )}
+                    <div className="flex justify-between text-gray-500 text-xs">
+                        <span>預計扣稅 ({getTaxProfile(settings).label})</span>
+                        <span>- {settings.currency} {appTax.toFixed(2)}</span>
+                    </div>
+                    {appEmployeeContribution > 0 && (
+                        <div className="flex justify-between text-gray-500 text-xs">
+                            <span>僱員供款</span>
+                            <span>- {settings.currency} {appEmployeeContribution.toFixed(2)}</span>
+                        </div>
+                    )}
                     <div className="flex justify-between border-t pt-2 font-bold text-gray-800"><span>App Net (含津貼/無調整)</span><span>{settings.currency} {appNetPay.toLocaleString()}</span></div>
                 </div>
             </div>
@@ -370,6 +550,58 @@ export const PayslipVerifier: React.FC<PayslipVerifierProps> = ({ logs, settings
              <DiffRow type="weekday" diff={diffWeekday} appVal={appStats.weekdayHours} slipVal={inputWeekday} />
              <DiffRow type="weekend" diff={diffWeekend} appVal={appStats.weekendHours} slipVal={inputWeekend} />
              
+             {(mealBreakItems.length > 0 || appStats.longShiftsWithoutBreak > 0) && (
+                 <div className={`p-3 rounded-lg border flex flex-col gap-1 text-xs ${mealBreakItems.length === appStats.longShiftsWithoutBreak ? 'bg-green-50 border-green-100 text-green-800' : 'bg-orange-50 border-orange-100 text-orange-800'}`}>
+                     <div className="flex justify-between items-center font-bold">
+                        <span>膳食休息核對 (Meal Break)</span>
+                        <span>Slip: {mealBreakItems.length} 項 / App: {appStats.longShiftsWithoutBreak} 更</span>
+                     </div>
+                     <p className="text-[10px] opacity-80">
+                        * App 數字為超過 {MEAL_BREAK_AFTER_HOURS} 小時而沒有紀錄休息的班次；已紀錄 {appStats.breakCount} 次無薪休息，共 {appStats.breakHours.toFixed(2)} 小時。
+                     </p>
+                 </div>
+             )}
+
+             {(appStats.overtimeHours > 0 || slipOvertime1Hours > 0 || slipOvertime2Hours > 0) && (
+                 <div className={`p-3 rounded-lg border flex flex-col gap-1 text-xs ${overtimeMatches ? 'bg-green-50 border-green-100 text-green-800' : 'bg-orange-50 border-orange-100 text-orange-800'}`}>
+                     <div className="font-bold">加班核對 (Overtime)</div>
+                     <div className="flex justify-between"><span>OT 1</span><span>Slip: {slipOvertime1Hours.toFixed(2)}h / App: {appStats.overtime1Hours.toFixed(2)}h</span></div>
+                     <div className="flex justify-between"><span>OT 2</span><span>Slip: {slipOvertime2Hours.toFixed(2)}h / App: {appStats.overtime2Hours.toFixed(2)}h</span></div>
+                     <p className="text-[10px] opacity-80">
+                        {overtimeRules ? '* App 數字按此工作的加班規則自動計算。' : '* 此工作未設定加班規則，可於設定頁面新增。'}
+                     </p>
+                 </div>
+             )}
+
+             {expectedAllowances !== null && (
+                 <div className={`p-3 rounded-lg border flex flex-col gap-1 text-xs ${allowancesMatch ? 'bg-green-50 border-green-100 text-green-800' : 'bg-red-50 border-red-100 text-red-800'}`}>
+                     <div className="flex justify-between items-center font-bold">
+                        <span>津貼核對 (Allowances)</span>
+                        <span>Slip: {inputAllowance.toFixed(2)} / App: {expectedAllowances.toFixed(2)}</span>
+                     </div>
+                     {appStats.allowanceItems.map(item => (
+                         <div key={item.id} className="flex justify-between opacity-80">
+                             <span>└ {item.name} ({parseFloat(item.quantity.toFixed(2))} {getAllowanceUnitMeta(item.unit).short})</span>
+                             <span>{settings.currency} {item.amount.toFixed(2)}</span>
+                         </div>
+                     ))}
+                     <p className="text-[10px] opacity-80">
+                        {appStats.allowanceItems.length > 0 ? '* App 數字按此工作的津貼設定及班次上的津貼計算。' : '* 此週期的班次沒有適用的津貼。'}
+                     </p>
+                 </div>
+             )}
+
+             {showContributions && (slipEmployer !== null || slipEmployee !== null) && (
+                 <div className={`p-3 rounded-lg border flex flex-col gap-1 text-xs ${contributionsMatch ? 'bg-green-50 border-green-100 text-green-800' : 'bg-red-50 border-red-100 text-red-800'}`}>
+                     <div className="font-bold">退休供款核對 (Super / MPF)</div>
+                     {slipEmployer !== null && <div className="flex justify-between"><span>僱主</span><span>Slip: {slipEmployer.toFixed(2)} / App: {appContributions.employer.toFixed(2)}</span></div>}
+                     {slipEmployee !== null && <div className="flex justify-between"><span>僱員</span><span>Slip: {slipEmployee.toFixed(2)} / App: {appEmployeeContribution.toFixed(2)}</span></div>}
+                     <p className="text-[10px] opacity-80">
+                        * 有關入息 {settings.currency} {appContributions.relevantIncome.toFixed(2)} ({activeJob.contributions?.includeOvertime ? '含加班' : '不含加班'})；App 數字按紀錄工時及津貼設定計算，不包括里程津貼。
+                     </p>
+                 </div>
+             )}
+
              {totalAdjustments !== 0 && (
                  <div className="p-3 rounded-lg border border-blue-100 bg-blue-50 flex flex-col gap-1 text-xs text-blue-800">
                      <div className="flex justify-between items-center font-bold">
@@ -385,8 +617,28 @@ export const PayslipVerifier: React.FC<PayslipVerifierProps> = ({ logs, settings
              <div className={`text-right font-bold text-lg mt-4 ${diffPay > 0 ? 'text-red-600' : 'text-green-600'}`}>
                 總差異: {settings.currency} {Math.abs(diffPay).toLocaleString()} ({diffPay > 0 ? '少算' : '多算'})
              </div>
+
+             <div className="flex gap-2 items-center pt-2">
+                 <input type="text" placeholder="備註 (例如: 已向經理查詢)" value={payslipNotes} onChange={(e) => setPayslipNotes(e.target.value)} className="flex-1 text-xs border border-gray-300 rounded p-2"/>
+                 <button onClick={handleSavePayslip} className="bg-primary hover:bg-indigo-700 text-white px-4 py-2 rounded-lg text-xs font-bold flex items-center gap-1"><Save className="w-3 h-3" /> {editingPayslip ? '更新薪資單' : '儲存薪資單'}</button>
+             </div>
+             {editingPayslip && (
+                 <p className="text-[10px] text-gray-400 text-right">
+                     正在編輯 {editingPayslip.periodStart} - {editingPayslip.periodEnd} 的紀錄 • <button onClick={() => { setEditingPayslipId(null); setPayslipNotes(''); }} className="underline">改為新增紀錄</button>
+                 </p>
+             )}
         </div>
       </div>
+
+      <PayslipHistory
+        payslips={payslips}
+        jobs={jobs}
+        settings={settings}
+        editingId={editingPayslipId}
+        onOpen={handleOpenPayslip}
+        onSave={onSavePayslip}
+        onDelete={(id) => { onDeletePayslip(id); if (id === editingPayslipId) setEditingPayslipId(null); }}
+      />
     </div>
   );
 };
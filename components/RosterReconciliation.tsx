@@ -0,0 +1,142 @@
+import React, { useState, useMemo, useRef } from 'react';
+import { WorkLog, UserSettings, Job, ShiftTemplate } from '../types';
+import { ClipboardList, Upload, CheckCircle, AlertTriangle, Scale } from 'lucide-react';
+import { importRoster, reconcilePeriod, RosterImportResult } from '../services/roster';
+import { getPayCycle, getRecentPayPeriods, describePayCycle } from '../services/payCycles';
+import { formatLocalDate } from '../services/dates';
+
+interface RosterReconciliationProps {
+  logs: WorkLog[];
+  settings: UserSettings;
+  jobs: Job[];
+  templates: ShiftTemplate[];
+  activeJobId: string;
+  onImportLogs: (logs: WorkLog[]) => void;
+}
+
+const PERIOD_COUNT = 6;
+
+export const RosterReconciliation: React.FC<RosterReconciliationProps> = ({ logs, settings, jobs, templates, activeJobId, onImportLogs }) => {
+  const [rosterText, setRosterText] = useState('');
+  const [importJobId, setImportJobId] = useState(activeJobId === 'all' ? (jobs[0]?.id || '') : activeJobId);
+  const [preview, setPreview] = useState<RosterImportResult | null>(null);
+  const [periodEnd, setPeriodEnd] = useState(formatLocalDate(new Date()));
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      if (!file) return;
+      const reader = new FileReader();
+      reader.onload = (event) => {
+          const text = event.target?.result as string;
+          setRosterText(text);
+          setPreview(importRoster(text, jobs, importJobId, logs));
+      };
+      reader.readAsText(file);
+      e.target.value = '';
+  };
+
+  const handleConfirmImport = () => {
+      if (!preview || preview.logs.length === 0) return;
+      onImportLogs(preview.logs);
+      setPreview(null);
+      setRosterText('');
+  };
+
+  const activeJob = jobs.find(j => j.id === activeJobId);
+  // "All jobs" follows the first job's pay cycle
+  const payCycle = useMemo(() => getPayCycle(activeJob || jobs[0], settings), [activeJob, jobs, settings]);
+
+  const periods = useMemo(() => {
+      return getRecentPayPeriods(payCycle, periodEnd, PERIOD_COUNT)
+          .map(p => reconcilePeriod(logs, templates, p.start, p.end, activeJobId));
+  }, [logs, templates, payCycle, periodEnd, activeJobId]);
+
+  return (
+    <div className="space-y-6 animate-fade-in pb-20">
+      {/* Roster Import */}
+      <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100 space-y-3">
+        <h2 className="text-lg font-semibold text-gray-800 flex items-center gap-2"><ClipboardList className="w-5 h-5 text-primary" /> 匯入排班表 (Roster)</h2>
+        <p className="text-xs text-gray-500">貼上 CSV (日期, 開始, 結束, 備註) 或上載 .csv / .ics 檔案。匯入的班次會標示為「計劃」，確認工作後才計入工時。</p>
+        <div className="flex gap-2">
+            <select value={importJobId} onChange={(e) => setImportJobId(e.target.value)} className="flex-1 bg-gray-50 border border-gray-200 text-sm rounded-lg p-2">
+                {jobs.map(j => <option key={j.id} value={j.id}>{j.name}</option>)}
+            </select>
+            <button onClick={() => fileInputRef.current?.click()} className="px-3 bg-white border border-gray-300 hover:bg-gray-50 rounded-lg text-xs font-bold flex items-center gap-1"><Upload className="w-3 h-3" /> 上載檔案</button>
+            <input type="file" ref={fileInputRef} onChange={handleFile} accept=".csv,.ics,.txt" className="hidden" />
+        </div>
+        <textarea
+            value={rosterText}
+            onChange={(e) => { setRosterText(e.target.value); setPreview(null); }}
+            rows={4}
+            placeholder={"2026-10-20, 15:30, 18:35, Kindy\n2026-10-22, 15:30, 18:35"}
+            className="w-full bg-gray-50 border border-gray-200 text-xs font-mono rounded-lg p-2"
+        />
+        <p className="text-[10px] text-gray-400">* 如檔案有「工作」欄位或活動名稱包含工作名稱，會自動配對；否則使用上方選擇的工作。</p>
+        {!preview ? (
+            <button onClick={() => setPreview(importRoster(rosterText, jobs, importJobId, logs))} disabled={!rosterText.trim()} className="w-full bg-primary hover:bg-indigo-700 text-white py-2 rounded-lg text-sm font-bold disabled:opacity-50">預覽</button>
+        ) : (
+            <div className="space-y-2">
+                <div className={`p-3 rounded-lg border text-xs ${preview.logs.length > 0 ? 'bg-green-50 border-green-100 text-green-800' : 'bg-yellow-50 border-yellow-100 text-yellow-800'}`}>
+                    <div className="font-bold flex items-center gap-1"><CheckCircle className="w-3 h-3" /> {preview.logs.length} 更可匯入{preview.duplicates > 0 ? `，${preview.duplicates} 更已存在` : ''}</div>
+                    {preview.logs.slice(0, 5).map(l => (
+                        <div key={l.id} className="font-mono text-[10px] mt-1">{l.date} {l.startTime}-{l.endTime} ({l.duration}h) {jobs.find(j => j.id === l.jobId)?.name}</div>
+                    ))}
+                    {preview.logs.length > 5 && <div className="text-[10px] mt-1">...及另外 {preview.logs.length - 5} 更</div>}
+                </div>
+                {preview.errors.length > 0 && (
+                    <div className="p-3 rounded-lg border bg-orange-50 border-orange-100 text-orange-800 text-[10px] space-y-0.5">
+                        <div className="font-bold flex items-center gap-1 text-xs"><AlertTriangle className="w-3 h-3" /> {preview.errors.length} 項未能匯入</div>
+                        {preview.errors.slice(0, 5).map((err, i) => <div key={i}>{err}</div>)}
+                    </div>
+                )}
+                {preview.warnings.length > 0 && (
+                    <div className="p-3 rounded-lg border bg-yellow-50 border-yellow-100 text-yellow-800 text-[10px] space-y-0.5">
+                        <div className="font-bold flex items-center gap-1 text-xs"><AlertTriangle className="w-3 h-3" /> {preview.warnings.length} 更的工作名稱不明確</div>
+                        {preview.warnings.slice(0, 5).map((warning, i) => <div key={i}>{warning}</div>)}
+                    </div>
+                )}
+                <div className="flex gap-2">
+                    <button onClick={handleConfirmImport} disabled={preview.logs.length === 0} className="flex-1 bg-primary hover:bg-indigo-700 text-white py-2 rounded-lg text-sm font-bold disabled:opacity-50">匯入為計劃班次</button>
+                    <button onClick={() => setPreview(null)} className="px-4 bg-white border border-gray-300 rounded-lg text-sm">取消</button>
+                </div>
+            </div>
+        )}
+      </div>
+
+      {/* Rostered vs Worked per Pay Period */}
+      <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+        <div className="flex justify-between items-center mb-4">
+            <h2 className="text-lg font-semibold text-gray-800 flex items-center gap-2"><Scale className="w-5 h-5 text-primary" /> 排班 vs 實際</h2>
+            <input type="date" value={periodEnd} onChange={(e) => setPeriodEnd(e.target.value)} title="最近週期內的日期" className="text-xs rounded border-gray-300" />
+        </div>
+        <p className="text-[10px] text-gray-400 mb-3">{activeJob ? activeJob.name : '所有工作'} • {describePayCycle(payCycle)}</p>
+        <div className="space-y-2">
+            <div className="grid grid-cols-[1.6fr_1fr_1fr_1fr] gap-2 text-[10px] text-gray-400 font-medium px-2">
+                <div>週期</div><div className="text-right">排班</div><div className="text-right">實際</div><div className="text-right">差異</div>
+            </div>
+            {periods.map(p => {
+                const diff = p.workedHours - p.rosteredHours;
+                const notes = [
+                    p.pendingHours > 0 ? `未確認 ${p.pendingHours.toFixed(1)}h` : '',
+                    p.cancelledHours > 0 ? `取消 ${p.cancelledHours.toFixed(1)}h` : '',
+                    p.sickHours > 0 ? `病假 ${p.sickHours.toFixed(1)}h` : '',
+                    p.unrosteredHours > 0 ? `額外 ${p.unrosteredHours.toFixed(1)}h` : '',
+                ].filter(Boolean);
+                return (
+                    <div key={p.from} className="p-2 rounded-lg border border-gray-100 text-xs">
+                        <div className="grid grid-cols-[1.6fr_1fr_1fr_1fr] gap-2 items-center">
+                            <div className="font-mono text-gray-600">{p.from.slice(5)} ~ {p.to.slice(5)}</div>
+                            <div className="text-right">{p.rosteredHours.toFixed(2)}h</div>
+                            <div className="text-right font-bold text-gray-800">{p.workedHours.toFixed(2)}h</div>
+                            <div className={`text-right font-bold ${Math.abs(diff) <= 0.1 ? 'text-green-600' : (diff < 0 ? 'text-orange-600' : 'text-indigo-600')}`}>{diff > 0 ? '+' : ''}{diff.toFixed(2)}</div>
+                        </div>
+                        {notes.length > 0 && <div className="text-[10px] text-gray-400 mt-1">{notes.join(' • ')}</div>}
+                    </div>
+                );
+            })}
+        </div>
+      </div>
+    </div>
+  );
+};
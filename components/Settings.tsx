@@ -1,8 +1,17 @@
 
 import React, { useState, useEffect } from 'react';
-import { UserSettings, Job, DEFAULT_JOB } from '../types';
-import { Briefcase, Calculator, Edit3, Plus, Trash2, Palette, Moon, Sun, Sparkles } from 'lucide-react';
+import { UserSettings, Job, DEFAULT_JOB, RatePeriod, CareerLevel, OvertimeRules, OvertimeTier, PenaltyBand, ContributionRules, PayCycle, PayCycleFrequency, AllowanceDefinition, AllowanceUnit, AllowanceRule } from '../types';
+import { Briefcase, Calculator, Edit3, Plus, Trash2, Palette, Moon, Sun, Sparkles, CalendarDays, History, TrendingUp, Clock, PiggyBank, Wallet, Coins } from 'lucide-react';
 import { Link } from 'react-router-dom';
+import { HOLIDAY_REGIONS, LISTED_HOLIDAYS_THROUGH } from '../services/holidays';
+import { getRatePeriods, withRatePeriods, addRateChange, setCurrentRates } from '../services/rateHistory';
+import { formatLocalDate } from '../services/dates';
+import { withLadder } from '../services/careerLadder';
+import { DEFAULT_OVERTIME_RULES } from '../services/overtime';
+import { CONTRIBUTION_PRESETS } from '../services/contributions';
+import { PAY_CYCLE_FREQUENCIES, getPayCycle, getPayPeriod, getUpcomingPayday, describePayCycle, getCycleTaxPeriod } from '../services/payCycles';
+import { ALLOWANCE_UNITS, ALLOWANCE_RULES } from '../services/allowances';
+import { TAX_PROFILES, TAX_PERIOD_LABELS, getTaxProfile, calculatePeriodTax, TaxPeriod } from '../services/tax';
 
 interface SettingsProps {
   settings: UserSettings;
@@ -52,11 +61,32 @@ const LEVEL_TARGETS: Record<string, number> = {
   'Level 3A': 700, 
 };
 
+// Ladder from the selected level upwards. Thresholds are cumulative hours from
+// the selected level; the path stops where no published hours target exists.
+const buildLadder = (role: string, age: string, fromLevel: string): CareerLevel[] => {
+  const roleData = PAY_RATES[role];
+  const levels: string[] = roleData.levels;
+  const ladder: CareerLevel[] = [];
+  let threshold = 0;
+  for (let i = levels.indexOf(fromLevel); i >= 0 && i < levels.length; i++) {
+    const rates = roleData.rates[levels[i]]?.[age];
+    if (!rates) break;
+    ladder.push({ name: levels[i], thresholdHours: threshold, hourlyRate: rates[0], weekendHourlyRate: rates[1] });
+    const target = LEVEL_TARGETS[levels[i]];
+    if (target === undefined || role !== 'Instructor / Coach') break;
+    threshold += target;
+  }
+  return ladder;
+};
+
 const ROLES = Object.keys(PAY_RATES);
 const AGES = ['17yrs', '18yrs', '19yrs', '20yrs +'];
 
 const COLORS = ['#4F46E5', '#DB2777', '#059669', '#D97706', '#7C3AED', '#2563EB'];
 
+// Sample gross used for the withholding preview
+const TAX_PREVIEW_GROSS: Record<TaxPeriod, number> = { weekly: 1000, fortnightly: 2000, semimonthly: 2000, monthly: 4000 };
+
 export const Settings: React.FC<SettingsProps> = ({ settings, onUpdateSettings, jobs, onAddJob, onUpdateJob, onDeleteJob }) => {
   // UI State
   const [activeJobId, setActiveJobId] = useState<string>(jobs[0]?.id || '');
@@ -77,6 +107,10 @@ export const Settings: React.FC<SettingsProps> = ({ settings, onUpdateSettings,
   
   const [justApplied, setJustApplied] = useState(false);
 
+  // Custom Holiday Form State
+  const [newHolidayDate, setNewHolidayDate] = useState('');
+  const [newHolidayName, setNewHolidayName] = useState('');
+
   useEffect(() => {
     if (jobs.length > 0 && !jobs.find(j => j.id === activeJobId)) {
         setActiveJobId(jobs[0].id);
@@ -130,16 +164,15 @@ export const Settings: React.FC<SettingsProps> = ({ settings, onUpdateSettings,
   const handleApplyRates = () => {
     if (previewData && activeJob) {
       const updatedJob = {
-        ...activeJob,
+        ...setCurrentRates(activeJob, { hourlyRate: previewData.regular, weekendHourlyRate: previewData.weekend }),
         name: `${selectedRole} - ${selectedLevel}`, // Auto update name for convenience
-        hourlyRate: previewData.regular,
-        weekendHourlyRate: previewData.weekend,
         targetHours: previewData.target || activeJob.targetHours,
         nextHourlyRate: previewData.nextRegular || activeJob.nextHourlyRate,
         nextWeekendHourlyRate: previewData.nextWeekend || activeJob.nextWeekendHourlyRate
       };
       
-      onUpdateJob(updatedJob);
+      const ladder = buildLadder(selectedRole, selectedAge, selectedLevel);
+      onUpdateJob(ladder.length > 1 ? withLadder(updatedJob, ladder, 0) : { ...updatedJob, ladder: undefined, currentLevelIndex: undefined });
       setJustApplied(true);
       setTimeout(() => setJustApplied(false), 3000);
     }
@@ -150,6 +183,142 @@ export const Settings: React.FC<SettingsProps> = ({ settings, onUpdateSettings,
       onUpdateJob({ ...activeJob, [field]: value });
   };
   
+  const handleCurrentRateChange = (field: 'hourlyRate' | 'weekendHourlyRate', value: number) => {
+      if (!activeJob) return;
+      onUpdateJob(setCurrentRates(activeJob, { [field]: value }));
+  };
+
+  // Rate timeline editing
+  const handleAddRatePeriod = () => {
+      if (!activeJob) return;
+      onUpdateJob(addRateChange(activeJob, formatLocalDate(new Date()), {
+          hourlyRate: activeJob.hourlyRate,
+          weekendHourlyRate: activeJob.weekendHourlyRate,
+      }));
+  };
+
+  const handleRatePeriodChange = (index: number, field: keyof RatePeriod, value: string | number) => {
+      if (!activeJob) return;
+      const periods = getRatePeriods(activeJob).map((p, i) => i === index ? { ...p, [field]: value } : p);
+      onUpdateJob(withRatePeriods(activeJob, periods));
+  };
+
+  const handleRemoveRatePeriod = (index: number) => {
+      if (!activeJob) return;
+      if (window.confirm("刪除此調薪紀錄？相關日期的工時將以前一段時薪重新計算。")) {
+          onUpdateJob(withRatePeriods(activeJob, getRatePeriods(activeJob).filter((_, i) => i !== index)));
+      }
+  };
+
+  // Career ladder editing
+  const handleLadderChange = (index: number, field: keyof CareerLevel, value: string | number) => {
+      if (!activeJob?.ladder) return;
+      onUpdateJob(withLadder(activeJob, activeJob.ladder.map((l, i) => i === index ? { ...l, [field]: value } : l)));
+  };
+
+  const handleAddLadderLevel = () => {
+      if (!activeJob) return;
+      const ladder = activeJob.ladder || [{ name: 'Current', thresholdHours: 0, hourlyRate: activeJob.hourlyRate, weekendHourlyRate: activeJob.weekendHourlyRate }];
+      const last = ladder[ladder.length - 1];
+      onUpdateJob(withLadder(activeJob, [...ladder, {
+          name: `Level ${ladder.length + 1}`,
+          thresholdHours: last.thresholdHours + (activeJob.targetHours || 0),
+          hourlyRate: activeJob.nextHourlyRate,
+          weekendHourlyRate: activeJob.nextWeekendHourlyRate,
+      }]));
+  };
+
+  const handleRemoveLadderLevel = (index: number) => {
+      if (!activeJob?.ladder) return;
+      const ladder = activeJob.ladder.filter((_, i) => i !== index);
+      const current = activeJob.currentLevelIndex || 0;
+      if (ladder.length <= 1) {
+          onUpdateJob({ ...activeJob, ladder: undefined, currentLevelIndex: undefined });
+      } else {
+          onUpdateJob(withLadder(activeJob, ladder, index < current ? current - 1 : current));
+      }
+  };
+
+  // Overtime rules editing
+  const handleOvertimeChange = (rules: Partial<OvertimeRules>) => {
+      if (!activeJob?.overtime) return;
+      onUpdateJob({ ...activeJob, overtime: { ...activeJob.overtime, ...rules } });
+  };
+
+  const handleOvertimeTierChange = (index: number, field: keyof OvertimeTier, value: string) => {
+      if (!activeJob?.overtime) return;
+      const tiers = activeJob.overtime.tiers.map((t, i) => i === index ? { ...t, [field]: value === '' ? undefined : Number(value) } : t);
+      handleOvertimeChange({ tiers });
+  };
+
+  const handleAddOvertimeTier = () => {
+      if (!activeJob?.overtime) return;
+      // The previous "remaining" tier now needs a fixed length
+      const tiers = activeJob.overtime.tiers.map(t => ({ ...t, hours: t.hours ?? 2 }));
+      const last = tiers[tiers.length - 1];
+      handleOvertimeChange({ tiers: [...tiers, { multiplier: last ? last.multiplier + 0.5 : 1.5 }] });
+  };
+
+  // Time-of-day penalty bands
+  const handleAddPenaltyBand = () => {
+      if (!activeJob) return;
+      const bands = activeJob.penaltyBands || [];
+      const band: PenaltyBand = bands.length === 0
+          ? { name: 'Evening', startTime: '19:00', endTime: '00:00', loadingPercent: 15 }
+          : { name: 'Early Morning', startTime: '00:00', endTime: '07:00', loadingPercent: 15 };
+      handleJobChange('penaltyBands', [...bands, band]);
+  };
+
+  const handlePenaltyBandChange = (index: number, changes: Partial<PenaltyBand>) => {
+      if (!activeJob?.penaltyBands) return;
+      handleJobChange('penaltyBands', activeJob.penaltyBands.map((b, i) => i === index ? { ...b, ...changes } : b));
+  };
+
+  const handleRemovePenaltyBand = (index: number) => {
+      if (!activeJob?.penaltyBands) return;
+      const bands = activeJob.penaltyBands.filter((_, i) => i !== index);
+      handleJobChange('penaltyBands', bands.length > 0 ? bands : undefined);
+  };
+
+  // Allowances (per shift / hour / km / pay period)
+  const handleAddAllowance = () => {
+      if (!activeJob) return;
+      const allowance: AllowanceDefinition = { id: crypto.randomUUID(), name: 'Meal', unit: 'shift', amount: 0, rule: 'manual' };
+      handleJobChange('allowances', [...(activeJob.allowances || []), allowance]);
+  };
+
+  const handleAllowanceChange = (index: number, changes: Partial<AllowanceDefinition>) => {
+      if (!activeJob?.allowances) return;
+      handleJobChange('allowances', activeJob.allowances.map((a, i) => i === index ? { ...a, ...changes } : a));
+  };
+
+  const handleRemoveAllowance = (index: number) => {
+      if (!activeJob?.allowances) return;
+      const allowances = activeJob.allowances.filter((_, i) => i !== index);
+      handleJobChange('allowances', allowances.length > 0 ? allowances : undefined);
+  };
+
+  // Pay cycle; a job without one follows the global pay frequency
+  const handleTogglePayCycle = (enabled: boolean) => {
+      if (!activeJob) return;
+      if (!enabled) { handleJobChange('payCycle', undefined); return; }
+      // Start from the cycle the job follows now, anchored on the current period
+      const current = getPayCycle(activeJob, settings);
+      handleJobChange('payCycle', { ...current, anchorDate: getPayPeriod(current, formatLocalDate(new Date())).end });
+  };
+
+  const handlePayCycleChange = (changes: Partial<PayCycle>) => {
+      if (!activeJob?.payCycle) return;
+      handleJobChange('payCycle', { ...activeJob.payCycle, ...changes });
+  };
+
+  // Super / MPF contribution rules
+  const handleContributionChange = (field: keyof ContributionRules, value: string | boolean) => {
+      if (!activeJob?.contributions) return;
+      const parsed = typeof value === 'boolean' ? value : value === '' ? undefined : Number(value);
+      handleJobChange('contributions', { ...activeJob.contributions, [field]: parsed });
+  };
+
   const handleAddNewJob = () => {
       const newJob: Job = {
           ...DEFAULT_JOB,
@@ -161,14 +330,31 @@ export const Settings: React.FC<SettingsProps> = ({ settings, onUpdateSettings,
       setActiveJobId(newJob.id);
   };
 
+  const taxProfile = getTaxProfile(settings);
+  const taxPeriod = getCycleTaxPeriod(getPayCycle(activeJob, settings));
+
   const handleGlobalChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
     onUpdateSettings({
       ...settings,
-      [name]: name === 'currency' || name === 'userName' || name === 'payFrequency' ? value : Number(value)
+      [name]: name === 'currency' || name === 'userName' || name === 'payFrequency' || name === 'holidayRegion' || name === 'taxProfile' ? value : Number(value)
     });
   };
 
+  const handleAddHoliday = () => {
+      if (!newHolidayDate) return;
+      const others = (settings.customHolidays || []).filter(h => h.date !== newHolidayDate);
+      const customHolidays = [...others, { date: newHolidayDate, name: newHolidayName.trim() || '自訂假期' }]
+          .sort((a, b) => a.date.localeCompare(b.date));
+      onUpdateSettings({ ...settings, customHolidays });
+      setNewHolidayDate('');
+      setNewHolidayName('');
+  };
+
+  const handleRemoveHoliday = (date: string) => {
+      onUpdateSettings({ ...settings, customHolidays: (settings.customHolidays || []).filter(h => h.date !== date) });
+  };
+
   const toggleTheme = () => {
       onUpdateSettings({ ...settings, theme: settings.theme === 'dark' ? 'light' : 'dark' });
   };
@@ -348,23 +534,369 @@ export const Settings: React.FC<SettingsProps> = ({ settings, onUpdateSettings,
                     type="number" 
                     step="0.01"
                     value={activeJob.hourlyRate}
-                    onChange={(e) => handleJobChange('hourlyRate', Number(e.target.value))}
+                    onChange={(e) => handleCurrentRateChange('hourlyRate', Number(e.target.value))}
                     className="w-full bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-600 text-gray-900 dark:text-white font-bold rounded-lg p-2"
                 />
             </div>
             <div className="p-4 border border-gray-200 dark:border-gray-700 rounded-xl bg-white dark:bg-gray-800 shadow-sm ring-1 ring-gray-100 dark:ring-gray-700">
-                <label className="block text-xs font-bold text-gray-700 dark:text-gray-300 mb-2">週末時薪 (Sat-Sun)</label>
+                <label className="block text-xs font-bold text-gray-700 dark:text-gray-300 mb-2">週末/假日時薪 (Sat-Sun & PH)</label>
                 <input 
                     type="number" 
                     step="0.01"
                     value={activeJob.weekendHourlyRate}
-                    onChange={(e) => handleJobChange('weekendHourlyRate', Number(e.target.value))}
+                    onChange={(e) => handleCurrentRateChange('weekendHourlyRate', Number(e.target.value))}
                     className="w-full bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-600 text-gray-900 dark:text-white font-bold rounded-lg p-2"
                 />
             </div>
          </div>
          
-         {/* Target & Next Level */}
+         {/* Rate Timeline */}
+         <div className="p-4 border border-gray-200 dark:border-gray-700 rounded-xl">
+             <div className="flex justify-between items-center mb-3">
+                 <label className="text-xs font-bold text-gray-700 dark:text-gray-300 flex items-center gap-1">
+                     <History className="w-3 h-3" /> 時薪歷史 (Rate Timeline)
+                 </label>
+                 <button onClick={handleAddRatePeriod} className="text-xs text-indigo-600 dark:text-indigo-400 font-medium flex items-center gap-1 hover:bg-indigo-50 dark:hover:bg-indigo-900/30 px-2 py-1 rounded">
+                     <Plus className="w-3 h-3" /> 新增調薪
+                 </button>
+             </div>
+             <p className="text-[10px] text-gray-400 mb-3">每段時薪由生效日起計，直至下一段開始。過往工時以當日生效的時薪計算。</p>
+             <div className="space-y-2">
+                 {getRatePeriods(activeJob).map((period, idx, all) => (
+                     <div key={`${period.effectiveFrom}-${idx}`} className="grid grid-cols-[1.3fr_1fr_1fr_auto] gap-2 items-center text-xs">
+                         {idx === 0 ? (
+                             <span className="text-gray-500 dark:text-gray-400 px-2">最初 (Initial)</span>
+                         ) : (
+                             <input 
+                                type="date" 
+                                value={period.effectiveFrom}
+                                onChange={(e) => e.target.value && handleRatePeriodChange(idx, 'effectiveFrom', e.target.value)}
+                                className="w-full bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 text-gray-900 dark:text-white rounded-lg p-1.5"
+                             />
+                         )}
+                         <input 
+                            type="number" 
+                            step="0.01"
+                            title="平日"
+                            value={period.hourlyRate}
+                            onChange={(e) => handleRatePeriodChange(idx, 'hourlyRate', Number(e.target.value))}
+                            className="w-full bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 text-gray-900 dark:text-white rounded-lg p-1.5 text-right"
+                         />
+                         <input 
+                            type="number" 
+                            step="0.01"
+                            title="週末/假日"
+                            value={period.weekendHourlyRate}
+                            onChange={(e) => handleRatePeriodChange(idx, 'weekendHourlyRate', Number(e.target.value))}
+                            className="w-full bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 text-gray-900 dark:text-white rounded-lg p-1.5 text-right"
+                         />
+                         {all.length > 1 && idx > 0 ? (
+                             <button onClick={() => handleRemoveRatePeriod(idx)} className="text-gray-400 hover:text-red-500 p-1"><Trash2 className="w-3 h-3" /></button>
+                         ) : <span className="w-5" />}
+                     </div>
+                 ))}
+             </div>
+         </div>
+         
+         {/* Career Ladder */}
+         <div className="p-4 border border-gray-200 dark:border-gray-700 rounded-xl">
+             <div className="flex justify-between items-center mb-3">
+                 <label className="text-xs font-bold text-gray-700 dark:text-gray-300 flex items-center gap-1">
+                     <TrendingUp className="w-3 h-3" /> 晉升路徑 (Career Ladder)
+                 </label>
+                 <button onClick={handleAddLadderLevel} className="text-xs text-indigo-600 dark:text-indigo-400 font-medium flex items-center gap-1 hover:bg-indigo-50 dark:hover:bg-indigo-900/30 px-2 py-1 rounded">
+                     <Plus className="w-3 h-3" /> 新增級別
+                 </button>
+             </div>
+             {activeJob.ladder && activeJob.ladder.length > 0 ? (
+                 <div className="space-y-2">
+                     <div className="grid grid-cols-[auto_1.2fr_1fr_1fr_1fr_auto] gap-2 text-[10px] text-gray-400 font-medium">
+                         <div>目前</div><div>級別</div><div className="text-right">累積時數</div><div className="text-right">平日</div><div className="text-right">週末/假日</div><div className="w-5"></div>
+                     </div>
+                     {activeJob.ladder.map((level, idx) => (
+                         <div key={idx} className="grid grid-cols-[auto_1.2fr_1fr_1fr_1fr_auto] gap-2 items-center text-xs">
+                             <input 
+                                type="radio" 
+                                name={`current-level-${activeJob.id}`}
+                                checked={(activeJob.currentLevelIndex || 0) === idx}
+                                onChange={() => onUpdateJob(withLadder(activeJob, activeJob.ladder!, idx))}
+                             />
+                             <input type="text" value={level.name} onChange={(e) => handleLadderChange(idx, 'name', e.target.value)} className="w-full bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 text-gray-900 dark:text-white rounded-lg p-1.5" />
+                             <input type="number" value={level.thresholdHours} onChange={(e) => handleLadderChange(idx, 'thresholdHours', Number(e.target.value))} className="w-full bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 text-gray-900 dark:text-white rounded-lg p-1.5 text-right" />
+                             <input type="number" step="0.01" value={level.hourlyRate} onChange={(e) => handleLadderChange(idx, 'hourlyRate', Number(e.target.value))} className="w-full bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 text-gray-900 dark:text-white rounded-lg p-1.5 text-right" />
+                             <input type="number" step="0.01" value={level.weekendHourlyRate} onChange={(e) => handleLadderChange(idx, 'weekendHourlyRate', Number(e.target.value))} className="w-full bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 text-gray-900 dark:text-white rounded-lg p-1.5 text-right" />
+                             <button onClick={() => handleRemoveLadderLevel(idx)} className="text-gray-400 hover:text-red-500 p-1"><Trash2 className="w-3 h-3" /></button>
+                         </div>
+                     ))}
+                     <p className="text-[10px] text-gray-400">累積時數為此工作的總工時，升級後進度不會歸零。目標時數及下級時薪會自動跟隨下一級別。</p>
+                 </div>
+             ) : (
+                 <p className="text-[10px] text-gray-400">尚未設定晉升路徑。可使用上方薪資小幫手自動建立，或手動新增級別。</p>
+             )}
+         </div>
+         
+         {/* Overtime Rules */}
+         <div className="p-4 border border-gray-200 dark:border-gray-700 rounded-xl">
+             <div className="flex justify-between items-center mb-3">
+                 <label className="text-xs font-bold text-gray-700 dark:text-gray-300 flex items-center gap-1">
+                     <Clock className="w-3 h-3" /> 加班規則 (Overtime)
+                 </label>
+                 <label className="text-xs text-gray-600 dark:text-gray-300 flex items-center gap-1 cursor-pointer">
+                     <input 
+                        type="checkbox"
+                        checked={!!activeJob.overtime}
+                        onChange={(e) => handleJobChange('overtime', e.target.checked ? DEFAULT_OVERTIME_RULES : undefined)}
+                     />
+                     啟用
+                 </label>
+             </div>
+             {activeJob.overtime ? (
+                 <div className="space-y-3">
+                     <div className="grid grid-cols-2 gap-2 text-xs">
+                         <div>
+                             <label className="block text-[10px] text-gray-400 mb-1">每日超過 (小時)</label>
+                             <input type="number" placeholder="不適用" value={activeJob.overtime.dailyThreshold ?? ''} onChange={(e) => handleOvertimeChange({ dailyThreshold: e.target.value === '' ? undefined : Number(e.target.value) })} className="w-full bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 text-gray-900 dark:text-white rounded-lg p-1.5 text-right" />
+                         </div>
+                         <div>
+                             <label className="block text-[10px] text-gray-400 mb-1">每週超過 (小時, 週一至週日)</label>
+                             <input type="number" placeholder="不適用" value={activeJob.overtime.weeklyThreshold ?? ''} onChange={(e) => handleOvertimeChange({ weeklyThreshold: e.target.value === '' ? undefined : Number(e.target.value) })} className="w-full bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 text-gray-900 dark:text-white rounded-lg p-1.5 text-right" />
+                         </div>
+                     </div>
+                     <div className="grid grid-cols-[1fr_1fr_auto] gap-2 text-[10px] text-gray-400 font-medium">
+                         <div>加班時數 (留空 = 其餘)</div><div className="text-right">倍數 (x 平日時薪)</div><div className="w-5"></div>
+                     </div>
+                     {activeJob.overtime.tiers.map((tier, idx) => (
+                         <div key={idx} className="grid grid-cols-[1fr_1fr_auto] gap-2 items-center text-xs">
+                             <input type="number" placeholder="其餘" value={tier.hours ?? ''} disabled={idx === activeJob.overtime!.tiers.length - 1} onChange={(e) => handleOvertimeTierChange(idx, 'hours', e.target.value)} className="w-full bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 text-gray-900 dark:text-white rounded-lg p-1.5 disabled:opacity-50" />
+                             <input type="number" step="0.25" value={tier.multiplier} onChange={(e) => handleOvertimeTierChange(idx, 'multiplier', e.target.value)} className="w-full bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 text-gray-900 dark:text-white rounded-lg p-1.5 text-right" />
+                             <button onClick={() => handleOvertimeChange({ tiers: activeJob.overtime!.tiers.filter((_, i) => i !== idx) })} disabled={activeJob.overtime!.tiers.length <= 1} className="text-gray-400 hover:text-red-500 p-1 disabled:opacity-30"><Trash2 className="w-3 h-3" /></button>
+                         </div>
+                     ))}
+                     <button onClick={handleAddOvertimeTier} className="text-xs text-indigo-600 dark:text-indigo-400 font-medium flex items-center gap-1 hover:bg-indigo-50 dark:hover:bg-indigo-900/30 px-2 py-1 rounded">
+                         <Plus className="w-3 h-3" /> 新增級距
+                     </button>
+                     <p className="text-[10px] text-gray-400">超過每日或每週門檻的時數按級距倍數計算 (每日重新計算級距)，並不會低於當日的週末/假日時薪。</p>
+                 </div>
+             ) : (
+                 <p className="text-[10px] text-gray-400">未啟用：所有時數按平日/週末時薪計算。</p>
+             )}
+         </div>
+
+         {/* Time-of-day Penalty Bands */}
+         <div className="p-4 border border-gray-200 dark:border-gray-700 rounded-xl">
+             <div className="flex justify-between items-center mb-3">
+                 <label className="text-xs font-bold text-gray-700 dark:text-gray-300 flex items-center gap-1">
+                     <Moon className="w-3 h-3" /> 時段津貼 (Penalty Bands)
+                 </label>
+                 <button onClick={handleAddPenaltyBand} className="text-xs text-indigo-600 dark:text-indigo-400 font-medium flex items-center gap-1 hover:bg-indigo-50 dark:hover:bg-indigo-900/30 px-2 py-1 rounded">
+                     <Plus className="w-3 h-3" /> 新增時段
+                 </button>
+             </div>
+             {activeJob.penaltyBands && activeJob.penaltyBands.length > 0 ? (
+                 <div className="space-y-2">
+                     <div className="grid grid-cols-[1.2fr_1fr_1fr_1fr_1fr_auto] gap-2 text-[10px] text-gray-400 font-medium">
+                         <div>名稱</div><div>開始</div><div>結束</div><div>計算方式</div><div className="text-right">數值</div><div className="w-5"></div>
+                     </div>
+                     {activeJob.penaltyBands.map((band, idx) => {
+                         const isFlatRate = band.rate !== undefined;
+                         return (
+                             <div key={idx} className="grid grid-cols-[1.2fr_1fr_1fr_1fr_1fr_auto] gap-2 items-center text-xs">
+                                 <input type="text" value={band.name} onChange={(e) => handlePenaltyBandChange(idx, { name: e.target.value })} className="w-full bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 text-gray-900 dark:text-white rounded-lg p-1.5" />
+                                 <input type="time" value={band.startTime} onChange={(e) => handlePenaltyBandChange(idx, { startTime: e.target.value })} className="w-full bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 text-gray-900 dark:text-white rounded-lg p-1.5" />
+                                 <input type="time" value={band.endTime} onChange={(e) => handlePenaltyBandChange(idx, { endTime: e.target.value })} className="w-full bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 text-gray-900 dark:text-white rounded-lg p-1.5" />
+                                 <select
+                                    value={isFlatRate ? 'rate' : 'loading'}
+                                    onChange={(e) => handlePenaltyBandChange(idx, e.target.value === 'rate'
+                                        ? { rate: activeJob.hourlyRate, loadingPercent: undefined }
+                                        : { rate: undefined, loadingPercent: 15 })}
+                                    className="w-full bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 text-gray-900 dark:text-white rounded-lg p-1.5"
+                                 >
+                                     <option value="loading">附加 %</option>
+                                     <option value="rate">固定時薪</option>
+                                 </select>
+                                 <input 
+                                    type="number"
+                                    step="0.01"
+                                    value={isFlatRate ? band.rate : (band.loadingPercent ?? 0)}
+                                    onChange={(e) => handlePenaltyBandChange(idx, isFlatRate ? { rate: Number(e.target.value) } : { loadingPercent: Number(e.target.value) })}
+                                    className="w-full bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 text-gray-900 dark:text-white rounded-lg p-1.5 text-right"
+                                 />
+                                 <button onClick={() => handleRemovePenaltyBand(idx)} className="text-gray-400 hover:text-red-500 p-1"><Trash2 className="w-3 h-3" /></button>
+                             </div>
+                         );
+                     })}
+                     <p className="text-[10px] text-gray-400">有開始/結束時間的紀錄會按時段拆分計薪；結束早於開始代表跨越午夜。附加 % 以當日平日/週末時薪計算，如低於當日時薪則以當日時薪為準。</p>
+                 </div>
+             ) : (
+                 <p className="text-[10px] text-gray-400">尚未設定時段津貼 (例如晚上 7 時後或早上 7 時前的附加薪酬)。</p>
+             )}
+         </div>
+
+         {/* Allowances */}
+         <div className="p-4 border border-gray-200 dark:border-gray-700 rounded-xl">
+             <div className="flex justify-between items-center mb-3">
+                 <label className="text-xs font-bold text-gray-700 dark:text-gray-300 flex items-center gap-1">
+                     <Coins className="w-3 h-3" /> 津貼 (Allowances)
+                 </label>
+                 <button onClick={handleAddAllowance} className="text-xs text-indigo-600 dark:text-indigo-400 font-medium flex items-center gap-1 hover:bg-indigo-50 dark:hover:bg-indigo-900/30 px-2 py-1 rounded">
+                     <Plus className="w-3 h-3" /> 新增津貼
+                 </button>
+             </div>
+             {activeJob.allowances && activeJob.allowances.length > 0 ? (
+                 <div className="space-y-3">
+                     {activeJob.allowances.map((allowance, idx) => (
+                         <div key={allowance.id} className="space-y-2 pb-3 border-b border-dashed border-gray-100 dark:border-gray-700 last:border-0 last:pb-0">
+                             <div className="grid grid-cols-[1.4fr_1.2fr_1fr_auto] gap-2 items-center text-xs">
+                                 <input type="text" placeholder="名稱" value={allowance.name} onChange={(e) => handleAllowanceChange(idx, { name: e.target.value })} className="w-full bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 text-gray-900 dark:text-white rounded-lg p-1.5" />
+                                 <select value={allowance.unit} onChange={(e) => handleAllowanceChange(idx, { unit: e.target.value as AllowanceUnit })} className="w-full bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 text-gray-900 dark:text-white rounded-lg p-1.5">
+                                     {ALLOWANCE_UNITS.map(u => <option key={u.value} value={u.value}>{u.label}</option>)}
+                                 </select>
+                                 <input type="number" step="0.01" min={0} value={allowance.amount} onChange={(e) => handleAllowanceChange(idx, { amount: Math.max(0, Number(e.target.value)) })} className="w-full bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 text-gray-900 dark:text-white rounded-lg p-1.5 text-right" />
+                                 <button onClick={() => handleRemoveAllowance(idx)} className="text-gray-400 hover:text-red-500 p-1"><Trash2 className="w-3 h-3" /></button>
+                             </div>
+                             <div className="grid grid-cols-2 gap-2 text-xs">
+                                 <select value={allowance.rule} onChange={(e) => handleAllowanceChange(idx, { rule: e.target.value as AllowanceRule })} className="w-full bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 text-gray-900 dark:text-white rounded-lg p-1.5">
+                                     {ALLOWANCE_RULES.map(r => <option key={r.value} value={r.value}>{r.label}</option>)}
+                                 </select>
+                                 {allowance.rule !== 'manual' && allowance.unit !== 'period' && (
+                                     <input type="number" step="0.5" min={0} placeholder="最短班次時數 (可選)" value={allowance.minShiftHours ?? ''} onChange={(e) => handleAllowanceChange(idx, { minShiftHours: e.target.value === '' ? undefined : Math.max(0, Number(e.target.value)) })} className="w-full bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 text-gray-900 dark:text-white rounded-lg p-1.5 text-right" />
+                                 )}
+                             </div>
+                             {allowance.rule === 'conditional' && (
+                                 <div className="grid grid-cols-[1fr_auto] gap-2 items-center text-xs">
+                                     <input type="text" placeholder="條件 (例如: 急救證書)" value={allowance.condition || ''} onChange={(e) => handleAllowanceChange(idx, { condition: e.target.value || undefined })} className="w-full bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 text-gray-900 dark:text-white rounded-lg p-1.5" />
+                                     <label className="text-gray-600 dark:text-gray-300 flex items-center gap-1 cursor-pointer">
+                                         <input type="checkbox" checked={!!allowance.conditionMet} onChange={(e) => handleAllowanceChange(idx, { conditionMet: e.target.checked })} />
+                                         已符合
+                                     </label>
+                                 </div>
+                             )}
+                             {allowance.unit === 'km' && allowance.rule !== 'manual' && (
+                                 <div className="flex items-center gap-2 text-xs">
+                                     <label className="text-[10px] text-gray-400">每更公里數</label>
+                                     <input type="number" step="0.1" min={0} placeholder="0" value={allowance.kmPerShift ?? ''} onChange={(e) => handleAllowanceChange(idx, { kmPerShift: e.target.value === '' ? undefined : Math.max(0, Number(e.target.value)) })} className="w-24 bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 text-gray-900 dark:text-white rounded-lg p-1.5 text-right" />
+                                 </div>
+                             )}
+                         </div>
+                     ))}
+                     <p className="text-[10px] text-gray-400">手動津貼在紀錄工時時加到個別班次；自動津貼套用到每個已工作班次，每期津貼每個有工作的發薪週期計一次。津貼計入收入估算、CSV 匯出及薪資單核對；里程津貼不計入退休供款。</p>
+                 </div>
+             ) : (
+                 <p className="text-[10px] text-gray-400">尚未設定津貼 (例如膳食、交通、急救證書津貼)。</p>
+             )}
+         </div>
+
+         {/* Pay Cycle */}
+         <div className="p-4 border border-gray-200 dark:border-gray-700 rounded-xl">
+             <div className="flex justify-between items-center mb-3">
+                 <label className="text-xs font-bold text-gray-700 dark:text-gray-300 flex items-center gap-1">
+                     <Wallet className="w-3 h-3" /> 發薪週期 (Pay Cycle)
+                 </label>
+                 <label className="text-xs text-gray-600 dark:text-gray-300 flex items-center gap-1 cursor-pointer">
+                     <input 
+                        type="checkbox"
+                        checked={!!activeJob.payCycle}
+                        onChange={(e) => handleTogglePayCycle(e.target.checked)}
+                     />
+                     自訂
+                 </label>
+             </div>
+             {activeJob.payCycle ? (
+                 <div className="space-y-3">
+                     <div className="grid grid-cols-3 gap-2 text-xs">
+                         <div>
+                             <label className="block text-[10px] text-gray-400 mb-1">頻率</label>
+                             <select value={activeJob.payCycle.frequency} onChange={(e) => handlePayCycleChange({ frequency: e.target.value as PayCycleFrequency })} className="w-full bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 text-gray-900 dark:text-white rounded-lg p-1.5">
+                                 {PAY_CYCLE_FREQUENCIES.map(f => <option key={f.value} value={f.value}>{f.label}</option>)}
+                             </select>
+                         </div>
+                         {activeJob.payCycle.frequency === 'weekly' || activeJob.payCycle.frequency === 'fortnightly' ? (
+                             <div>
+                                 <label className="block text-[10px] text-gray-400 mb-1">任何一期的結束日</label>
+                                 <input type="date" value={activeJob.payCycle.anchorDate || ''} onChange={(e) => e.target.value && handlePayCycleChange({ anchorDate: e.target.value })} className="w-full bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 text-gray-900 dark:text-white rounded-lg p-1.5" />
+                             </div>
+                         ) : (
+                             <div>
+                                 <label className="block text-[10px] text-gray-400 mb-1">{activeJob.payCycle.frequency === 'monthly' ? '截數日 (31 = 月底)' : '上半月截數日'}</label>
+                                 <input type="number" min={1} max={activeJob.payCycle.frequency === 'monthly' ? 31 : 27} placeholder={activeJob.payCycle.frequency === 'monthly' ? '31' : '15'} value={activeJob.payCycle.cutoffDay ?? ''} onChange={(e) => handlePayCycleChange({ cutoffDay: e.target.value === '' ? undefined : Math.min(Math.max(1, Number(e.target.value)), activeJob.payCycle!.frequency === 'monthly' ? 31 : 27) })} className="w-full bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 text-gray-900 dark:text-white rounded-lg p-1.5 text-right" />
+                             </div>
+                         )}
+                         <div>
+                             <label className="block text-[10px] text-gray-400 mb-1">截數後幾天發薪</label>
+                             <input type="number" min={0} placeholder="0" value={activeJob.payCycle.paydayOffsetDays ?? ''} onChange={(e) => handlePayCycleChange({ paydayOffsetDays: e.target.value === '' ? undefined : Math.max(0, Number(e.target.value)) })} className="w-full bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 text-gray-900 dark:text-white rounded-lg p-1.5 text-right" />
+                         </div>
+                     </div>
+                     {(() => {
+                         const today = formatLocalDate(new Date());
+                         const period = getPayPeriod(activeJob.payCycle, today);
+                         const upcoming = getUpcomingPayday(activeJob.payCycle, today);
+                         return <p className="text-[10px] text-gray-400">本期: {period.start} 至 {period.end} • 下次發薪: {upcoming.payday} ({upcoming.daysUntil} 天後)</p>;
+                     })()}
+                 </div>
+             ) : (
+                 <p className="text-[10px] text-gray-400">跟隨全域發薪頻率: {describePayCycle(getPayCycle(undefined, settings))}。</p>
+             )}
+         </div>
+
+         {/* Retirement Contributions */}
+         <div className="p-4 border border-gray-200 dark:border-gray-700 rounded-xl">
+             <div className="flex justify-between items-center mb-3">
+                 <label className="text-xs font-bold text-gray-700 dark:text-gray-300 flex items-center gap-1">
+                     <PiggyBank className="w-3 h-3" /> 退休供款 (Super / MPF)
+                 </label>
+                 <select
+                    value=""
+                    onChange={(e) => {
+                        if (e.target.value === 'none') handleJobChange('contributions', undefined);
+                        const preset = CONTRIBUTION_PRESETS.find(p => p.id === e.target.value);
+                        if (preset) handleJobChange('contributions', { ...preset.rules });
+                    }}
+                    className="text-xs bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 text-gray-900 dark:text-white rounded-lg p-1"
+                 >
+                     <option value="">{activeJob.contributions ? '套用預設...' : '啟用...'}</option>
+                     {CONTRIBUTION_PRESETS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+                     {activeJob.contributions && <option value="none">停用</option>}
+                 </select>
+             </div>
+             {activeJob.contributions ? (
+                 <div className="space-y-3">
+                     <div className="grid grid-cols-3 gap-2 text-xs">
+                         <div>
+                             <label className="block text-[10px] text-gray-400 mb-1">僱主供款 %</label>
+                             <input type="number" step="0.1" value={activeJob.contributions.employerPercent} onChange={(e) => handleContributionChange('employerPercent', e.target.value || '0')} className="w-full bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 text-gray-900 dark:text-white rounded-lg p-1.5 text-right" />
+                         </div>
+                         <div>
+                             <label className="block text-[10px] text-gray-400 mb-1">僱員強制供款 %</label>
+                             <input type="number" step="0.1" placeholder="0" value={activeJob.contributions.employeePercent ?? ''} onChange={(e) => handleContributionChange('employeePercent', e.target.value)} className="w-full bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 text-gray-900 dark:text-white rounded-lg p-1.5 text-right" />
+                         </div>
+                         <div>
+                             <label className="block text-[10px] text-gray-400 mb-1">自願供款 %</label>
+                             <input type="number" step="0.1" placeholder="0" value={activeJob.contributions.voluntaryPercent ?? ''} onChange={(e) => handleContributionChange('voluntaryPercent', e.target.value)} className="w-full bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 text-gray-900 dark:text-white rounded-lg p-1.5 text-right" />
+                         </div>
+                     </div>
+                     <div className="grid grid-cols-2 gap-2 text-xs">
+                         <div>
+                             <label className="block text-[10px] text-gray-400 mb-1">最低有關入息 (每月)</label>
+                             <input type="number" placeholder="不適用" value={activeJob.contributions.minRelevantIncome ?? ''} onChange={(e) => handleContributionChange('minRelevantIncome', e.target.value)} className="w-full bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 text-gray-900 dark:text-white rounded-lg p-1.5 text-right" />
+                         </div>
+                         <div>
+                             <label className="block text-[10px] text-gray-400 mb-1">最高有關入息 (每月)</label>
+                             <input type="number" placeholder="不設上限" value={activeJob.contributions.maxRelevantIncome ?? ''} onChange={(e) => handleContributionChange('maxRelevantIncome', e.target.value)} className="w-full bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 text-gray-900 dark:text-white rounded-lg p-1.5 text-right" />
+                         </div>
+                     </div>
+                     <label className="text-xs text-gray-600 dark:text-gray-300 flex items-center gap-1 cursor-pointer">
+                         <input type="checkbox" checked={!!activeJob.contributions.includeOvertime} onChange={(e) => handleContributionChange('includeOvertime', e.target.checked)} />
+                         加班工資計入有關入息
+                     </label>
+                     <p className="text-[10px] text-gray-400">按一般工時收入 (Ordinary-time earnings) 計算；上下限以每月計，其他週期按比例換算。低於最低入息時只豁免僱員強制供款。</p>
+                 </div>
+             ) : (
+                 <p className="text-[10px] text-gray-400">未設定退休供款。</p>
+             )}
+         </div>
+
+         {/* Target & Next Level (single step; driven by the ladder when one is set) */}
+         {!(activeJob.ladder && activeJob.ladder.length > 1) && (
          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
              <div>
                  <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">目標加薪時數</label>
@@ -396,6 +928,7 @@ export const Settings: React.FC<SettingsProps> = ({ settings, onUpdateSettings,
                  />
              </div>
          </div>
+         )}
        </div>
          
        {/* Global Settings */}
@@ -427,7 +960,7 @@ export const Settings: React.FC<SettingsProps> = ({ settings, onUpdateSettings,
                     </select>
                 </div>
                 <div>
-                    <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">發薪頻率</label>
+                    <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">預設發薪頻率</label>
                     <select 
                         name="payFrequency"
                         value={settings.payFrequency || 'biweekly'}
@@ -439,14 +972,93 @@ export const Settings: React.FC<SettingsProps> = ({ settings, onUpdateSettings,
                     </select>
                 </div>
                 <div>
-                    <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">預計稅率 (%)</label>
-                    <input 
-                        type="number" 
-                        name="taxRate"
-                        value={settings.taxRate}
+                    <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">稅務 (Tax)</label>
+                    <select 
+                        name="taxProfile"
+                        value={taxProfile.id}
                         onChange={handleGlobalChange}
                         className="w-full bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 text-gray-900 dark:text-white text-sm rounded-lg p-3"
-                    />
+                    >
+                        {TAX_PROFILES.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+                    </select>
+                    <p className="text-[10px] text-gray-400 mt-1">{taxProfile.hint}</p>
+                </div>
+                {taxProfile.id === 'flat' && (
+                    <div>
+                        <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">預計稅率 (%)</label>
+                        <input 
+                            type="number" 
+                            name="taxRate"
+                            value={settings.taxRate}
+                            onChange={handleGlobalChange}
+                            className="w-full bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 text-gray-900 dark:text-white text-sm rounded-lg p-3"
+                        />
+                    </div>
+                )}
+                {taxProfile.supportsTaxFreeThreshold && (
+                    <div className="flex flex-col justify-center">
+                        <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-200">
+                            <input 
+                                type="checkbox" 
+                                checked={settings.taxFreeThreshold !== false}
+                                onChange={(e) => onUpdateSettings({ ...settings, taxFreeThreshold: e.target.checked })}
+                                className="rounded text-primary"
+                            />
+                            {taxProfile.id === 'HK' ? '申索基本免稅額' : '申索免稅門檻 (Tax-free threshold)'}
+                        </label>
+                        <p className="text-[10px] text-gray-400 mt-1">{taxProfile.id === 'HK' ? '已在其他地方申索則取消' : '只在一份主要工作申索；第二份工作應取消'}</p>
+                    </div>
+                )}
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+                預扣示例: {TAX_PERIOD_LABELS[taxPeriod]}總收入 {settings.currency} {TAX_PREVIEW_GROSS[taxPeriod].toLocaleString()} → 扣稅 {settings.currency} {calculatePeriodTax(TAX_PREVIEW_GROSS[taxPeriod], taxPeriod, settings).toFixed(2)}
+            </p>
+
+            {/* Public Holidays */}
+            <div className="pt-4">
+                <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1 flex items-center gap-1">
+                    <CalendarDays className="w-3 h-3" /> 公眾假期地區 (以週末時薪計算)
+                </label>
+                <select 
+                    name="holidayRegion"
+                    value={settings.holidayRegion || 'none'}
+                    onChange={handleGlobalChange}
+                    className="w-full bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 text-gray-900 dark:text-white text-sm rounded-lg p-3"
+                >
+                    {HOLIDAY_REGIONS.map(r => <option key={r.id} value={r.id}>{r.label}</option>)}
+                </select>
+                {(settings.holidayRegion || 'none') !== 'none' && (
+                    <p className="text-[10px] text-gray-400 mt-1">
+                        內置假期資料至 {LISTED_HOLIDAYS_THROUGH} 年；之後只計算固定日期及按規則的假期 (如新年、復活節、聖誕節)，農曆及另行公佈的假期請加入自訂假期
+                    </p>
+                )}
+
+                <div className="mt-3 space-y-2">
+                    <div className="text-xs font-medium text-gray-500 dark:text-gray-400">自訂假期</div>
+                    {(settings.customHolidays || []).map(h => (
+                        <div key={h.date} className="flex justify-between items-center text-xs bg-gray-50 dark:bg-gray-700 rounded-lg px-3 py-2">
+                            <span className="text-gray-700 dark:text-gray-200"><span className="font-mono mr-2">{h.date}</span>{h.name}</span>
+                            <button onClick={() => handleRemoveHoliday(h.date)} className="text-gray-400 hover:text-red-500"><Trash2 className="w-3 h-3" /></button>
+                        </div>
+                    ))}
+                    <div className="flex gap-2">
+                        <input 
+                            type="date" 
+                            value={newHolidayDate}
+                            onChange={(e) => setNewHolidayDate(e.target.value)}
+                            className="bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 text-gray-900 dark:text-white text-xs rounded-lg p-2"
+                        />
+                        <input 
+                            type="text" 
+                            placeholder="假期名稱" 
+                            value={newHolidayName}
+                            onChange={(e) => setNewHolidayName(e.target.value)}
+                            className="flex-1 bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 text-gray-900 dark:text-white text-xs rounded-lg p-2"
+                        />
+                        <button onClick={handleAddHoliday} disabled={!newHolidayDate} className="px-3 rounded-lg text-xs font-bold bg-indigo-600 hover:bg-indigo-700 text-white disabled:opacity-50 flex items-center gap-1">
+                            <Plus className="w-3 h-3" /> 新增
+                        </button>
+                    </div>
                 </div>
             </div>
        </div>
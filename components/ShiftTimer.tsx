@@ -0,0 +1,112 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { ActiveShift, Job } from '../types';
+import { Play, Pause, Square, Coffee, X, Timer } from 'lucide-react';
+import { getWorkedMs, getBreakMs, isOnBreak, toggleBreak, formatElapsed } from '../services/shiftTimer';
+
+interface ShiftTimerProps {
+  jobs: Job[];
+  activeJobId: string;
+  activeShift?: ActiveShift;
+  onClockIn: (jobId: string) => void;
+  onUpdateShift: (shift: ActiveShift) => void;
+  onClockOut: () => void;
+  onCancelShift: () => void;
+}
+
+// Re-render every second while a shift is running
+const useNow = (enabled: boolean) => {
+  const [now, setNow] = useState(Date.now());
+  useEffect(() => {
+    if (!enabled) return;
+    setNow(Date.now());
+    const id = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(id);
+  }, [enabled]);
+  return now;
+};
+
+export const ShiftTimer: React.FC<ShiftTimerProps> = ({ jobs, activeJobId, activeShift, onClockIn, onUpdateShift, onClockOut, onCancelShift }) => {
+  const now = useNow(!!activeShift);
+  const [clockInJobId, setClockInJobId] = useState(activeJobId === 'all' ? (jobs[0]?.id || '') : activeJobId);
+
+  useEffect(() => {
+    if (activeJobId !== 'all') setClockInJobId(activeJobId);
+  }, [activeJobId]);
+
+  if (!activeShift) {
+    return (
+      <div className="bg-white dark:bg-gray-800 p-4 rounded-2xl shadow-sm border border-gray-100 dark:border-gray-700 flex items-center gap-3 transition-colors">
+        <div className="bg-emerald-50 dark:bg-emerald-900/30 p-2 rounded-full"><Timer className="w-5 h-5 text-emerald-600 dark:text-emerald-400" /></div>
+        <select
+          value={clockInJobId}
+          onChange={(e) => setClockInJobId(e.target.value)}
+          className="flex-1 bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 text-gray-900 dark:text-white text-sm rounded-lg p-2"
+        >
+          {jobs.map(j => <option key={j.id} value={j.id}>{j.name}</option>)}
+        </select>
+        <button
+          onClick={() => clockInJobId && onClockIn(clockInJobId)}
+          className="bg-emerald-500 hover:bg-emerald-600 text-white px-4 py-2 rounded-lg text-sm font-bold flex items-center gap-2 shadow-sm"
+        >
+          <Play className="w-4 h-4" /> 上班打卡
+        </button>
+      </div>
+    );
+  }
+
+  const job = jobs.find(j => j.id === activeShift.jobId);
+  const onBreak = isOnBreak(activeShift);
+  const breakMs = getBreakMs(activeShift, now);
+
+  return (
+    <div className={`p-5 rounded-2xl shadow-sm border transition-colors ${onBreak ? 'bg-amber-50 dark:bg-amber-900/20 border-amber-200 dark:border-amber-700' : 'bg-emerald-50 dark:bg-emerald-900/20 border-emerald-200 dark:border-emerald-700'}`}>
+      <div className="flex justify-between items-start mb-3">
+        <div>
+          <div className="text-xs font-medium text-gray-500 dark:text-gray-400 flex items-center gap-2">
+            <div className="w-2 h-2 rounded-full" style={{ backgroundColor: job?.color || '#ccc' }}></div>
+            {job?.name || 'Unknown'} • 由 {new Date(activeShift.startedAt).toLocaleTimeString('zh-HK', { hour: '2-digit', minute: '2-digit' })} 開始
+          </div>
+          <div className="text-4xl font-black font-mono text-gray-800 dark:text-white mt-1">{formatElapsed(getWorkedMs(activeShift, now))}</div>
+          {breakMs > 0 && <div className="text-xs text-amber-600 dark:text-amber-400 mt-1 flex items-center gap-1"><Coffee className="w-3 h-3" /> 休息 {formatElapsed(breakMs)}{onBreak ? ' (進行中)' : ''}</div>}
+        </div>
+        <button onClick={onCancelShift} title="取消此更" className="p-1 text-gray-400 hover:text-red-500"><X className="w-4 h-4" /></button>
+      </div>
+
+      <input
+        type="text"
+        value={activeShift.notes}
+        onChange={(e) => onUpdateShift({ ...activeShift, notes: e.target.value })}
+        placeholder="備註..."
+        className="w-full bg-white/70 dark:bg-gray-800/70 border border-gray-200 dark:border-gray-600 text-gray-900 dark:text-white text-sm rounded-lg p-2 mb-3"
+      />
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => onUpdateShift(toggleBreak(activeShift))}
+          className="flex-1 bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 text-gray-700 dark:text-gray-200 py-2 rounded-lg text-sm font-bold flex items-center justify-center gap-2"
+        >
+          {onBreak ? <><Play className="w-4 h-4" /> 繼續工作</> : <><Pause className="w-4 h-4" /> 開始休息</>}
+        </button>
+        <button
+          onClick={onClockOut}
+          className="flex-1 bg-red-500 hover:bg-red-600 text-white py-2 rounded-lg text-sm font-bold flex items-center justify-center gap-2 shadow-sm"
+        >
+          <Square className="w-4 h-4" /> 下班打卡
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// Compact running-shift indicator for the App header
+export const ShiftTimerBadge: React.FC<{ activeShift: ActiveShift }> = ({ activeShift }) => {
+  const now = useNow(true);
+  const onBreak = isOnBreak(activeShift);
+  return (
+    <Link to="/log" className={`text-xs font-mono font-bold px-3 py-1 rounded-full flex items-center gap-1 ${onBreak ? 'bg-amber-100 text-amber-700' : 'bg-emerald-100 text-emerald-700'}`}>
+      {onBreak ? <Coffee className="w-3 h-3" /> : <span className="w-2 h-2 rounded-full bg-emerald-500 animate-pulse"></span>}
+      {formatElapsed(getWorkedMs(activeShift, now))}
+    </Link>
+  );
+};
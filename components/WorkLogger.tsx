@@ -1,12 +1,18 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { WorkLog, Job, ShiftTemplate } from '../types';
-import { Plus, Trash2, Calendar, Clock, FileText, Save, Timer, Tag, Briefcase, Bookmark, X, Check, ArrowRight } from 'lucide-react';
+import { Link, useLocation, useNavigate } from 'react-router-dom';
+import { WorkLog, Job, ShiftTemplate, Recurrence, LogStatus, LogAllowance } from '../types';
+import { Plus, Trash2, Calendar, Clock, FileText, Save, Timer, Tag, Briefcase, Bookmark, X, Check, ArrowRight, Pencil, Coffee, Repeat, Coins } from 'lucide-react';
+import { PlannedShift, describeRecurrence } from '../services/recurrence';
+import { LOG_STATUSES, getLogStatus, getStatusMeta } from '../services/logStatus';
+import { getAttachableAllowances } from '../services/allowances';
+import { getPaidHours } from '../services/dates';
 
 interface WorkLoggerProps {
   logs: WorkLog[];
   jobs: Job[];
   onAddLog: (log: WorkLog) => void;
+  onUpdateLog: (log: WorkLog) => void;
   onDeleteLog: (id: string) => void;
   templates: ShiftTemplate[];
   onUpdateTemplates: (templates: ShiftTemplate[]) => void;
@@ -14,12 +20,12 @@ interface WorkLoggerProps {
   onJobChange: (id: string) => void;
 }
 
-const PRESET_TAGS = [
+export const PRESET_TAGS = [
   "Kindy", "Glides", "Torpedos", "Marlins", "Dolphins", "Sharks", 
   "100 Bronze", "200 Silver", "400 Gold", "Trainee Instructor", "Coach"
 ];
 
-export const WorkLogger: React.FC<WorkLoggerProps> = ({ logs, jobs, onAddLog, onDeleteLog, templates, onUpdateTemplates, activeJobId, onJobChange }) => {
+export const WorkLogger: React.FC<WorkLoggerProps> = ({ logs, jobs, onAddLog, onUpdateLog, onDeleteLog, templates, onUpdateTemplates, activeJobId, onJobChange }) => {
   // Logic: WorkLogger cannot use 'all'. Default to first job if 'all' is selected globally.
   // However, we want to allow changing it here.
   // If user changes it here, we update the global state (as per requirement to sync).
@@ -32,23 +38,102 @@ export const WorkLogger: React.FC<WorkLoggerProps> = ({ logs, jobs, onAddLog, on
   const [startTime, setStartTime] = useState('15:30');
   const [endTime, setEndTime] = useState('18:35');
   const [manualDuration, setManualDuration] = useState<string>('8');
+  const [breakMinutes, setBreakMinutes] = useState<string>('0');
   const [notes, setNotes] = useState('');
+  const [status, setStatus] = useState<LogStatus>('worked');
+  // Allowances attached to the shift: allowance id -> quantity ('' = default)
+  const [logAllowances, setLogAllowances] = useState<Record<string, string>>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   // Template States
   const [isNamingTemplate, setIsNamingTemplate] = useState(false);
   const [newTemplateName, setNewTemplateName] = useState('');
 
-  // No local useEffect needed to sync, we rely on props.
+  // Recurrence editor for a template
+  const [recurrenceTemplateId, setRecurrenceTemplateId] = useState<string | null>(null);
+  const [recurrenceDraft, setRecurrenceDraft] = useState<Recurrence | null>(null);
 
-  const calculateDuration = (start: string, end: string): number => {
-    const [startH, startM] = start.split(':').map(Number);
-    const [endH, endM] = end.split(':').map(Number);
-    let diff = (endH * 60 + endM) - (startH * 60 + startM);
-    if (diff < 0) diff += 24 * 60; 
-    return parseFloat((diff / 60).toFixed(2));
+  // Edit State: when set, the entry form edits this log instead of adding one
+  const [editingLog, setEditingLog] = useState<WorkLog | null>(null);
+  // Planned shift being confirmed with changes (from the calendar)
+  const [plannedShift, setPlannedShift] = useState<PlannedShift | null>(null);
+  const formRef = useRef<HTMLDivElement>(null);
+  const location = useLocation();
+  const navigate = useNavigate();
+
+  const startEditLog = (log: WorkLog) => {
+      setEditingLog(log);
+      setPlannedShift(null);
+      onJobChange(log.jobId);
+      setDate(log.date);
+      setNotes(log.notes);
+      setStatus(getLogStatus(log));
+      setLogAllowances(Object.fromEntries((log.allowances || []).map(a => [a.allowanceId, a.quantity?.toString() ?? ''])));
+      if (log.startTime === '-' || log.endTime === '-') {
+          setMode('manual');
+          setManualDuration(log.duration.toString());
+      } else {
+          setMode('range');
+          setStartTime(log.startTime);
+          setEndTime(log.endTime);
+          setBreakMinutes((log.breakMinutes || 0).toString());
+      }
+      formRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  };
+
+  const startConfirmPlanned = (shift: PlannedShift) => {
+      setEditingLog(null);
+      setPlannedShift(shift);
+      onJobChange(shift.jobId);
+      setDate(shift.date);
+      setMode('range');
+      setStartTime(shift.startTime);
+      setEndTime(shift.endTime);
+      setBreakMinutes((shift.breakMinutes || 0).toString());
+      setNotes(shift.notes);
+      setStatus('worked');
+      setLogAllowances({});
+      formRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  };
+
+  const cancelEdit = () => {
+      setEditingLog(null);
+      setPlannedShift(null);
+      setNotes('');
+      setStatus('worked');
+      setLogAllowances({});
   };
 
+  // Opened from another screen (e.g. a calendar day) with a log to edit or a planned shift to confirm
+  useEffect(() => {
+      const state = location.state as { editLogId?: string; plannedShift?: PlannedShift } | null;
+      if (!state?.editLogId && !state?.plannedShift) return;
+      const log = state.editLogId ? logs.find(l => l.id === state.editLogId) : undefined;
+      if (log) startEditLog(log);
+      if (state.plannedShift) startConfirmPlanned(state.plannedShift);
+      navigate(location.pathname, { replace: true, state: null });
+  }, [location.state]);
+
+  const attachableAllowances = getAttachableAllowances(jobs.find(j => j.id === effectiveJobId));
+
+  const toggleLogAllowance = (id: string) => {
+      setLogAllowances(prev => {
+          const { [id]: attached, ...rest } = prev;
+          return attached === undefined ? { ...prev, [id]: '' } : rest;
+      });
+  };
+
+  // Only the selected job's attachable allowances are kept
+  const buildLogAllowances = (): LogAllowance[] | undefined => {
+      const attached = attachableAllowances
+          .filter(a => logAllowances[a.id] !== undefined)
+          .map(a => ({ allowanceId: a.id, quantity: logAllowances[a.id].trim() === '' ? undefined : Math.max(0, parseFloat(logAllowances[a.id]) || 0) }));
+      return attached.length > 0 ? attached : undefined;
+  };
+
+  // Payslip corrections may take hours away (see PayslipVerifier's auto-fill)
+  const isCorrection = !!editingLog?.correction;
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     setIsSubmitting(true);
@@ -57,36 +142,61 @@ export const WorkLogger: React.FC<WorkLoggerProps> = ({ logs, jobs, onAddLog, on
       let duration = 0;
       let finalStart = '';
       let finalEnd = '';
+      let finalBreak: number | undefined = undefined;
 
       if (mode === 'range') {
-        duration = calculateDuration(startTime, endTime);
+        const unpaid = Math.max(0, parseInt(breakMinutes) || 0);
+        duration = getPaidHours(startTime, endTime, unpaid);
         finalStart = startTime;
         finalEnd = endTime;
+        finalBreak = unpaid > 0 ? unpaid : undefined;
       } else {
         duration = parseFloat(manualDuration) || 0;
         finalStart = '-';
         finalEnd = '-';
       }
       
-      if (duration <= 0) {
+      if (isCorrection && mode === 'manual' ? duration === 0 : duration <= 0) {
         alert("請輸入有效的工時。");
         setIsSubmitting(false);
         return;
       }
 
-      const newLog: WorkLog = {
-        id: crypto.randomUUID(),
-        jobId: effectiveJobId,
-        date,
-        startTime: finalStart,
-        endTime: finalEnd,
-        duration,
-        notes,
-        timestamp: Date.now()
-      };
-      
-      onAddLog(newLog);
+      if (editingLog) {
+        onUpdateLog({
+          ...editingLog,
+          jobId: effectiveJobId,
+          date,
+          startTime: finalStart,
+          endTime: finalEnd,
+          duration,
+          breakMinutes: finalBreak,
+          notes,
+          status: status === 'worked' ? undefined : status,
+          allowances: buildLogAllowances()
+        });
+        setEditingLog(null);
+      } else {
+        const newLog: WorkLog = {
+          id: crypto.randomUUID(),
+          jobId: effectiveJobId,
+          date,
+          startTime: finalStart,
+          endTime: finalEnd,
+          duration,
+          breakMinutes: finalBreak,
+          notes,
+          timestamp: Date.now(),
+          status: status === 'worked' ? undefined : status,
+          allowances: buildLogAllowances(),
+          ...(plannedShift ? { templateId: plannedShift.templateId, occurrenceDate: plannedShift.date } : {})
+        };
+        onAddLog(newLog);
+        setPlannedShift(null);
+      }
       setNotes('');
+      setStatus('worked');
+      setLogAllowances({});
       setIsSubmitting(false);
     }, 300);
   };
@@ -106,6 +216,7 @@ export const WorkLogger: React.FC<WorkLoggerProps> = ({ logs, jobs, onAddLog, on
           jobId: effectiveJobId,
           startTime,
           endTime,
+          breakMinutes: parseInt(breakMinutes) > 0 ? parseInt(breakMinutes) : undefined,
           notes
       };
       onUpdateTemplates([...templates, newTemplate]);
@@ -116,10 +227,38 @@ export const WorkLogger: React.FC<WorkLoggerProps> = ({ logs, jobs, onAddLog, on
       onJobChange(t.jobId); // Update global job
       setStartTime(t.startTime);
       setEndTime(t.endTime);
+      setBreakMinutes((t.breakMinutes || 0).toString());
       setNotes(t.notes);
       setMode('range');
   };
 
+  const openRecurrenceEditor = (t: ShiftTemplate, e: React.MouseEvent) => {
+      e.stopPropagation();
+      if (recurrenceTemplateId === t.id) {
+          setRecurrenceTemplateId(null);
+          return;
+      }
+      setRecurrenceTemplateId(t.id);
+      setRecurrenceDraft(t.recurrence || { weekdays: [], startDate: new Date().toISOString().split('T')[0], intervalWeeks: 1 });
+  };
+
+  const toggleRecurrenceDay = (day: number) => {
+      if (!recurrenceDraft) return;
+      const weekdays = recurrenceDraft.weekdays.includes(day)
+          ? recurrenceDraft.weekdays.filter(d => d !== day)
+          : [...recurrenceDraft.weekdays, day];
+      setRecurrenceDraft({ ...recurrenceDraft, weekdays });
+  };
+
+  const saveRecurrence = (recurrence: Recurrence | undefined) => {
+      if (recurrence && recurrence.weekdays.length === 0) {
+          alert("請選擇最少一天。");
+          return;
+      }
+      onUpdateTemplates(templates.map(t => t.id === recurrenceTemplateId ? { ...t, recurrence } : t));
+      setRecurrenceTemplateId(null);
+  };
+
   const handleDeleteTemplate = (id: string, e: React.MouseEvent) => {
       e.stopPropagation();
       if(window.confirm("刪除此模版?")) {
@@ -149,7 +288,10 @@ export const WorkLogger: React.FC<WorkLoggerProps> = ({ logs, jobs, onAddLog, on
                                 <span className="text-xs font-bold text-gray-700 dark:text-gray-200 truncate pr-4">{t.name}</span>
                                 <div onClick={(e) => handleDeleteTemplate(t.id, e)} className="text-gray-300 hover:text-red-500 absolute top-2 right-2 cursor-pointer p-1 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700"><X className="w-3 h-3"/></div>
                             </div>
-                            <div className="text-[10px] text-gray-500 dark:text-gray-400 mb-1 font-mono">{t.startTime} - {t.endTime}</div>
+                            <div className="text-[10px] text-gray-500 dark:text-gray-400 mb-1 font-mono">{t.startTime} - {t.endTime}{t.breakMinutes ? ` (-${t.breakMinutes}m)` : ''}</div>
+                            <div onClick={(e) => openRecurrenceEditor(t, e)} className={`text-[9px] mb-1 flex items-center gap-1 cursor-pointer ${t.recurrence ? 'text-emerald-600 dark:text-emerald-400' : 'text-gray-400 hover:text-indigo-500'}`}>
+                                <Repeat className="w-3 h-3" /> {t.recurrence ? describeRecurrence(t.recurrence) : '設定重複'}
+                            </div>
                             {tJob && <div className="text-[9px] px-1.5 py-0.5 rounded text-white inline-block opacity-80" style={{ backgroundColor: tJob.color }}>{tJob.name}</div>}
                         </div>
                     </button>
@@ -163,14 +305,66 @@ export const WorkLogger: React.FC<WorkLoggerProps> = ({ logs, jobs, onAddLog, on
           </div>
       </div>
 
+      {/* Recurrence Editor */}
+      {recurrenceTemplateId && recurrenceDraft && (
+          <div className="bg-white dark:bg-gray-800 p-4 rounded-2xl shadow-sm border border-emerald-200 dark:border-emerald-700 space-y-3 animate-fade-in">
+              <div className="flex justify-between items-center">
+                  <h3 className="text-sm font-bold text-gray-700 dark:text-gray-200 flex items-center gap-2"><Repeat className="w-4 h-4 text-emerald-500" /> 重複排班: {templates.find(t => t.id === recurrenceTemplateId)?.name}</h3>
+                  <button onClick={() => setRecurrenceTemplateId(null)} className="text-gray-400 hover:text-gray-600 p-1"><X className="w-4 h-4" /></button>
+              </div>
+              <div className="flex gap-1">
+                  {[1, 2, 3, 4, 5, 6, 0].map(day => (
+                      <button
+                        key={day}
+                        type="button"
+                        onClick={() => toggleRecurrenceDay(day)}
+                        className={`flex-1 py-1.5 rounded-lg text-xs font-bold border ${recurrenceDraft.weekdays.includes(day) ? 'bg-emerald-500 text-white border-emerald-500' : 'bg-white dark:bg-gray-700 text-gray-500 dark:text-gray-300 border-gray-200 dark:border-gray-600'}`}
+                      >
+                          {['日', '一', '二', '三', '四', '五', '六'][day]}
+                      </button>
+                  ))}
+              </div>
+              <div className="grid grid-cols-3 gap-2 text-xs">
+                  <div>
+                      <label className="block text-[10px] text-gray-400 mb-1">開始日期</label>
+                      <input type="date" value={recurrenceDraft.startDate} onChange={(e) => setRecurrenceDraft({ ...recurrenceDraft, startDate: e.target.value })} className="w-full bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 text-gray-900 dark:text-white rounded-lg p-1.5" />
+                  </div>
+                  <div>
+                      <label className="block text-[10px] text-gray-400 mb-1">結束日期 (可留空)</label>
+                      <input type="date" value={recurrenceDraft.endDate || ''} onChange={(e) => setRecurrenceDraft({ ...recurrenceDraft, endDate: e.target.value || undefined })} className="w-full bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 text-gray-900 dark:text-white rounded-lg p-1.5" />
+                  </div>
+                  <div>
+                      <label className="block text-[10px] text-gray-400 mb-1">頻率</label>
+                      <select value={recurrenceDraft.intervalWeeks || 1} onChange={(e) => setRecurrenceDraft({ ...recurrenceDraft, intervalWeeks: Number(e.target.value) })} className="w-full bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 text-gray-900 dark:text-white rounded-lg p-1.5">
+                          <option value={1}>每週</option>
+                          <option value={2}>每兩週</option>
+                      </select>
+                  </div>
+              </div>
+              <div className="flex gap-2">
+                  <button onClick={() => saveRecurrence(recurrenceDraft)} className="flex-1 bg-emerald-500 hover:bg-emerald-600 text-white py-2 rounded-lg text-xs font-bold flex items-center justify-center gap-1"><Check className="w-3 h-3" /> 儲存</button>
+                  {templates.find(t => t.id === recurrenceTemplateId)?.recurrence && (
+                      <button onClick={() => saveRecurrence(undefined)} className="px-3 bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 text-red-500 rounded-lg text-xs font-bold">停止重複</button>
+                  )}
+              </div>
+              <p className="text-[10px] text-gray-400">排班會以「計劃」形式顯示於月曆，確認後才會計入工時及收入。</p>
+          </div>
+      )}
+
       {/* Entry Form */}
-      <div className="bg-white dark:bg-gray-800 p-6 rounded-2xl shadow-sm border border-gray-100 dark:border-gray-700 transition-colors relative">
+      <div ref={formRef} className={`bg-white dark:bg-gray-800 p-6 rounded-2xl shadow-sm border transition-colors relative ${editingLog ? 'border-amber-300 dark:border-amber-600 ring-1 ring-amber-100' : 'border-gray-100 dark:border-gray-700'}`}>
         <div className="flex justify-between items-center mb-4">
           <h2 className="text-lg font-semibold text-gray-800 dark:text-gray-100 flex items-center gap-2">
-            <Plus className="w-5 h-5 text-primary" /> 新增工時
+            {editingLog ? <><Pencil className="w-5 h-5 text-amber-500" /> 編輯工時</> : plannedShift ? <><Repeat className="w-5 h-5 text-emerald-500" /> 確認排班</> : <><Plus className="w-5 h-5 text-primary" /> 新增工時</>}
           </h2>
           
-          {mode === 'range' && (
+          {(editingLog || plannedShift) && (
+              <button type="button" onClick={cancelEdit} className="text-xs text-gray-500 dark:text-gray-400 font-medium flex items-center gap-1 hover:bg-gray-100 dark:hover:bg-gray-700 px-2 py-1 rounded transition-colors">
+                  <X className="w-3 h-3" /> {plannedShift ? '取消' : '取消編輯'}
+              </button>
+          )}
+
+          {!editingLog && !plannedShift && mode === 'range' && (
               !isNamingTemplate ? (
                 <button onClick={startSaveTemplate} className="text-xs text-indigo-600 dark:text-indigo-400 font-medium flex items-center gap-1 hover:bg-indigo-50 dark:hover:bg-indigo-900/30 px-2 py-1 rounded transition-colors">
                     <Bookmark className="w-3 h-3" /> 存為模版
@@ -239,11 +433,50 @@ export const WorkLogger: React.FC<WorkLoggerProps> = ({ logs, jobs, onAddLog, on
             <div className="grid grid-cols-2 gap-4">
               <div><label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">開始時間</label><input type="time" required value={startTime} onChange={(e) => setStartTime(e.target.value)} className="w-full bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 text-gray-900 dark:text-white text-sm rounded-lg p-2.5" /></div>
               <div><label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">結束時間</label><input type="time" required value={endTime} onChange={(e) => setEndTime(e.target.value)} className="w-full bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 text-gray-900 dark:text-white text-sm rounded-lg p-2.5" /></div>
+              <div className="col-span-2">
+                <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1 flex items-center gap-1"><Coffee className="w-3 h-3" /> 無薪休息 (分鐘)</label>
+                <div className="flex gap-2">
+                  <input type="number" min="0" step="5" value={breakMinutes} onChange={(e) => setBreakMinutes(e.target.value)} className="flex-1 bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 text-gray-900 dark:text-white text-sm rounded-lg p-2.5" />
+                  {[0, 30, 60].map(m => (
+                    <button key={m} type="button" onClick={() => setBreakMinutes(m.toString())} className={`px-3 rounded-lg text-xs font-medium border ${parseInt(breakMinutes) === m ? 'bg-indigo-100 dark:bg-indigo-900 text-indigo-700 dark:text-indigo-200 border-indigo-200' : 'bg-white dark:bg-gray-700 text-gray-600 dark:text-gray-300 border-gray-200 dark:border-gray-600'}`}>{m}m</button>
+                  ))}
+                </div>
+                <p className="text-[10px] text-gray-400 mt-1">計薪時數: {getPaidHours(startTime, endTime, Math.max(0, parseInt(breakMinutes) || 0)).toFixed(2)} 小時</p>
+              </div>
             </div>
           ) : (
             <div>
-               <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">工作時數</label>
-               <input type="number" required min="0.1" step="0.1" value={manualDuration} onChange={(e) => setManualDuration(e.target.value)} className="w-full bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 text-gray-900 dark:text-white text-sm rounded-lg p-2.5" />
+               <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">工作時數{isCorrection && ' (調整紀錄，可為負數)'}</label>
+               <input type="number" required min={isCorrection ? -24 : 0.1} step="0.1" value={manualDuration} onChange={(e) => setManualDuration(e.target.value)} className="w-full bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 text-gray-900 dark:text-white text-sm rounded-lg p-2.5" />
+            </div>
+          )}
+
+          {/* Status */}
+          <div className="flex gap-2">
+            {LOG_STATUSES.map(s => (
+              <button key={s.value} type="button" onClick={() => setStatus(s.value)} className={`flex-1 py-1.5 rounded-lg text-xs font-medium border transition-all ${status === s.value ? 'bg-indigo-100 dark:bg-indigo-900 text-indigo-700 dark:text-indigo-200 border-indigo-200' : 'bg-white dark:bg-gray-700 text-gray-500 dark:text-gray-300 border-gray-200 dark:border-gray-600'}`}>{s.label}</button>
+            ))}
+          </div>
+
+          {/* Allowances */}
+          {attachableAllowances.length > 0 && (
+            <div>
+              <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-2 flex items-center gap-1"><Coins className="w-3 h-3" /> 津貼</label>
+              <div className="space-y-2">
+                {attachableAllowances.map(a => {
+                  const attached = logAllowances[a.id] !== undefined;
+                  return (
+                    <div key={a.id} className="flex items-center gap-2">
+                      <button type="button" onClick={() => toggleLogAllowance(a.id)} className={`px-3 py-1 rounded-full text-xs font-medium border transition-all ${attached ? 'bg-indigo-100 dark:bg-indigo-900 text-indigo-700 dark:text-indigo-200 border-indigo-200' : 'bg-white dark:bg-gray-700 text-gray-600 dark:text-gray-300 border-gray-200 dark:border-gray-600'}`}>
+                        {attached && <Check className="w-3 h-3 inline mr-1" />}{a.name}
+                      </button>
+                      {attached && (a.unit === 'km' || a.unit === 'hour') && (
+                        <input type="number" min="0" step="0.1" value={logAllowances[a.id]} onChange={(e) => setLogAllowances(prev => ({ ...prev, [a.id]: e.target.value }))} placeholder={a.unit === 'km' ? (a.kmPerShift ? `${a.kmPerShift} km` : 'km') : '計薪時數'} className="w-24 bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 text-gray-900 dark:text-white text-xs rounded-lg p-1.5 text-right" />
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
             </div>
           )}
 
@@ -264,14 +497,19 @@ export const WorkLogger: React.FC<WorkLoggerProps> = ({ logs, jobs, onAddLog, on
 
           <button type="submit" disabled={isSubmitting} className="w-full bg-primary hover:bg-indigo-700 text-white font-medium rounded-lg text-sm px-5 py-3 flex justify-center items-center gap-2 shadow-lg shadow-indigo-200 dark:shadow-none hover:shadow-xl active:scale-[0.99] transition-all">
             <Save className="w-4 h-4" /> 
-            {isSubmitting ? '儲存中...' : '儲存紀錄'}
+            {isSubmitting ? '儲存中...' : (editingLog ? '更新紀錄' : '儲存紀錄')}
           </button>
         </form>
       </div>
 
       {/* History */}
       <div className="space-y-4">
-        <h3 className="text-gray-700 dark:text-gray-300 font-semibold px-1">最近紀錄</h3>
+        <div className="flex justify-between items-center px-1">
+          <h3 className="text-gray-700 dark:text-gray-300 font-semibold">最近紀錄</h3>
+          <Link to="/history" className="text-xs text-indigo-600 dark:text-indigo-400 font-medium flex items-center gap-1 hover:underline">
+            查看全部 ({logs.length}) <ArrowRight className="w-3 h-3" />
+          </Link>
+        </div>
         {sortedLogs.slice(0, 10).map((log) => {
             const logJob = jobs.find(j => j.id === log.jobId);
             return (
@@ -283,15 +521,23 @@ export const WorkLogger: React.FC<WorkLoggerProps> = ({ logs, jobs, onAddLog, on
                   {logJob && (
                       <span className="text-[10px] px-1.5 py-0.5 rounded text-white font-medium" style={{ backgroundColor: logJob.color }}>{logJob.name}</span>
                   )}
+                  {getLogStatus(log) !== 'worked' && (
+                      <span className={`text-[10px] px-1.5 py-0.5 rounded ${getStatusMeta(getLogStatus(log)).className}`}>{getStatusMeta(getLogStatus(log)).label}</span>
+                  )}
                 </div>
                 <div className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
                   <Clock className="w-3 h-3" />
                   <span>{log.startTime} - {log.endTime}</span>
+                  {!!log.breakMinutes && <span className="text-xs text-amber-600 dark:text-amber-400">(休息 {log.breakMinutes}m)</span>}
+                  {!!log.allowances?.length && <span className="text-xs text-teal-600 dark:text-teal-400">(津貼 {log.allowances.length})</span>}
                   {log.notes && <span className="text-gray-400 dark:text-gray-500">•</span>}
                   {log.notes && <span className="italic text-gray-600 dark:text-gray-300">{log.notes}</span>}
                 </div>
               </div>
-              <button onClick={() => onDeleteLog(log.id)} className="p-2 text-gray-300 dark:text-gray-600 hover:text-red-500 dark:hover:text-red-400 group-hover:bg-red-50 dark:group-hover:bg-red-900/20 rounded-lg transition-all"><Trash2 className="w-4 h-4" /></button>
+              <div className="flex items-center gap-1">
+                <button onClick={() => startEditLog(log)} className="p-2 text-gray-300 dark:text-gray-600 hover:text-indigo-500 dark:hover:text-indigo-400 group-hover:bg-indigo-50 dark:group-hover:bg-indigo-900/20 rounded-lg transition-all"><Pencil className="w-4 h-4" /></button>
+                <button onClick={() => onDeleteLog(log.id)} className="p-2 text-gray-300 dark:text-gray-600 hover:text-red-500 dark:hover:text-red-400 group-hover:bg-red-50 dark:group-hover:bg-red-900/20 rounded-lg transition-all"><Trash2 className="w-4 h-4" /></button>
+              </div>
             </div>
             )
         })}
@@ -4,6 +4,11 @@ import { WorkLog, UserSettings, Job } from '../types';
 import { Trophy, Clock, Calendar, TrendingUp, DollarSign, X, ChevronRight, ChevronLeft, PieChart as PieIcon } from 'lucide-react';
 import { Link, useNavigate } from 'react-router-dom';
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip } from 'recharts';
+import { calculateLogsPay } from '../services/payEngine';
+import { parseLocalDate } from '../services/dates';
+import { isWorkedLog } from '../services/logStatus';
+import { calculateAnnualTax, hasTaxSetup } from '../services/tax';
+import { calculateContributionsInRange, hasContributions } from '../services/contributions';
 
 interface YearlyWrapUpProps {
   logs: WorkLog[];
@@ -17,36 +22,39 @@ export const YearlyWrapUp: React.FC<YearlyWrapUpProps> = ({ logs, settings, jobs
   const totalSlides = 5;
 
   const targetYear = useMemo(() => {
-    if (logs.length === 0) return new Date().getFullYear();
-    const years = logs.map(l => new Date(l.date).getFullYear());
+    const workedLogs = logs.filter(isWorkedLog);
+    if (workedLogs.length === 0) return new Date().getFullYear();
+    const years = workedLogs.map(l => parseLocalDate(l.date).getFullYear());
     return Math.max(...years);
   }, [logs]);
 
   const stats = useMemo(() => {
-      const yearLogs = logs.filter(l => new Date(l.date).getFullYear() === targetYear);
-      if (yearLogs.length === 0) return null;
+      // Allocate pay lines by the day they were worked, so overnight shifts split at midnight
+      const breakdowns = calculateLogsPay(logs, jobs, settings);
+      const yearLines = breakdowns.flatMap(pay =>
+          pay.lines
+              .filter(line => parseLocalDate(line.date).getFullYear() === targetYear)
+              .map(line => ({ ...line, jobId: pay.jobId }))
+      );
+      if (yearLines.length === 0) return null;
 
-      const totalHours = yearLogs.reduce((sum, l) => sum + l.duration, 0);
-      
+      let totalHours = 0;
       let totalEarnings = 0;
       const jobCounts: Record<string, number> = {};
       const dayCounts: Record<number, number> = {0:0, 1:0, 2:0, 3:0, 4:0, 5:0, 6:0};
       const monthEarnings: Record<number, number> = {};
 
-      yearLogs.forEach(l => {
-          const job = jobs.find(j => j.id === l.jobId);
-          if (job) {
-             const day = new Date(l.date).getDay();
-             const isWeekend = day === 0 || day === 6;
-             const rate = isWeekend ? job.weekendHourlyRate : job.hourlyRate;
-             totalEarnings += l.duration * rate;
-             
-             jobCounts[job.id] = (jobCounts[job.id] || 0) + l.duration;
-             dayCounts[day] += l.duration;
-             
-             const month = new Date(l.date).getMonth();
-             monthEarnings[month] = (monthEarnings[month] || 0) + (l.duration * rate);
-          }
+      yearLines.forEach(line => {
+          const d = parseLocalDate(line.date);
+          const day = d.getDay();
+          totalHours += line.hours;
+          totalEarnings += line.amount;
+
+          jobCounts[line.jobId] = (jobCounts[line.jobId] || 0) + line.hours;
+          dayCounts[day] += line.hours;
+
+          const month = d.getMonth();
+          monthEarnings[month] = (monthEarnings[month] || 0) + line.amount;
       });
 
       // Top Job
@@ -69,8 +77,12 @@ export const YearlyWrapUp: React.FC<YearlyWrapUpProps> = ({ logs, settings, jobs
       const months = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
       const bestMonth = months[parseInt(bestMonthIndex)];
 
-      return { totalHours, totalEarnings, topJob, busiestDay, bestMonth, pieData };
-  }, [logs, jobs, targetYear]);
+      const contributions = jobs.some(hasContributions)
+          ? calculateContributionsInRange(breakdowns, jobs, `${targetYear}-01-01`, `${targetYear}-12-31`)
+          : null;
+
+      return { totalHours, totalEarnings, topJob, busiestDay, bestMonth, pieData, contributions };
+  }, [logs, jobs, targetYear, settings]);
 
   const handleNext = () => {
       if (currentSlide < totalSlides - 1) setCurrentSlide(prev => prev + 1);
@@ -132,15 +144,25 @@ export const YearlyWrapUp: React.FC<YearlyWrapUpProps> = ({ logs, settings, jobs
       <div className="flex flex-col justify-center h-full px-6 animate-slide-up">
           <h3 className="text-2xl font-bold text-green-400 mb-2">The Bag Secured 💰</h3>
           <div className="text-5xl font-black text-white mb-2">{settings.currency} {stats.totalEarnings.toLocaleString(undefined, {maximumFractionDigits: 0})}</div>
-          <p className="text-lg text-white/70 mb-8">Estimated total earnings.</p>
+          <p className={`text-lg text-white/70 ${hasTaxSetup(settings) ? 'mb-2' : 'mb-8'}`}>Estimated total earnings.</p>
+          {hasTaxSetup(settings) && (
+              <p className="text-sm text-white/60 mb-8">After tax ≈ {settings.currency} {(stats.totalEarnings - calculateAnnualTax(stats.totalEarnings, settings)).toLocaleString(undefined, {maximumFractionDigits: 0})}</p>
+          )}
           
           <div className="bg-green-500/20 p-6 rounded-2xl border border-green-500/30 backdrop-blur-sm">
               <div className="flex items-center gap-4">
                  <div className="bg-green-500 p-3 rounded-full text-white"><DollarSign className="w-6 h-6"/></div>
-                 <div>
-                     <p className="text-white font-bold">Great job!</p>
-                     <p className="text-green-200 text-sm">Keep stacking.</p>
-                 </div>
+                 {stats.contributions ? (
+                     <div>
+                         <p className="text-white font-bold">{settings.currency} {(stats.contributions.employer + stats.contributions.employee + stats.contributions.voluntary).toLocaleString(undefined, {maximumFractionDigits: 0})} into super / MPF</p>
+                         <p className="text-green-200 text-sm">Employer {stats.contributions.employer.toLocaleString(undefined, {maximumFractionDigits: 0})} • You {(stats.contributions.employee + stats.contributions.voluntary).toLocaleString(undefined, {maximumFractionDigits: 0})}</p>
+                     </div>
+                 ) : (
+                     <div>
+                         <p className="text-white font-bold">Great job!</p>
+                         <p className="text-green-200 text-sm">Keep stacking.</p>
+                     </div>
+                 )}
               </div>
           </div>
       </div>
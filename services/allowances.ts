@@ -0,0 +1,111 @@
+import { WorkLog, Job, UserSettings, AllowanceDefinition, AllowanceUnit, AllowanceRule } from "../types";
+import { PayLine } from "./payEngine";
+import { getPayCycle, getPayPeriod } from "./payCycles";
+
+// Expected allowances from each job's allowance definitions, priced by the pay
+// engine as 'allowance' lines. Per-shift, per-hour and per-km allowances go on
+// the shift they're attached to (or every shift, when a rule applies them).
+// Per-period allowances are paid once per pay period worked and booked on the
+// period's last shift, so per-shift figures still add up to the period total.
+
+export const ALLOWANCE_UNITS: { value: AllowanceUnit; label: string; short: string }[] = [
+  { value: 'shift', label: '每更 (Per shift)', short: '更' },
+  { value: 'hour', label: '每小時 (Per hour)', short: 'h' },
+  { value: 'km', label: '每公里 (Per km)', short: 'km' },
+  { value: 'period', label: '每發薪週期 (Per pay period)', short: '期' },
+];
+
+export const ALLOWANCE_RULES: { value: AllowanceRule; label: string }[] = [
+  { value: 'manual', label: '手動加到班次 (Attach to shifts)' },
+  { value: 'always', label: '每更自動 (Every shift)' },
+  { value: 'conditional', label: '符合條件時 (While qualified)' },
+];
+
+export const getAllowanceUnitMeta = (unit: AllowanceUnit) => ALLOWANCE_UNITS.find(u => u.value === unit) || ALLOWANCE_UNITS[0];
+
+export const hasAllowances = (job: Job | undefined): boolean => (job?.allowances || []).length > 0;
+
+// Applied without being attached to the shift
+export const isAutoAllowance = (def: AllowanceDefinition): boolean => {
+  return def.rule === 'always' || (def.rule === 'conditional' && !!def.conditionMet);
+};
+
+// Allowances a shift can have attached by hand: manual ones, and per-km ones
+// whose distance changes from shift to shift
+export const getAttachableAllowances = (job: Job | undefined): AllowanceDefinition[] => {
+  return (job?.allowances || []).filter(def => def.rule === 'manual' || def.unit === 'km');
+};
+
+const allowanceLine = (def: AllowanceDefinition, date: string, quantity: number): PayLine => ({
+  category: 'allowance',
+  date,
+  hours: 0,
+  rate: def.amount,
+  amount: def.amount * quantity,
+  allowance: { id: def.id, name: def.name, unit: def.unit, quantity },
+});
+
+// Units a shift earns; an attached quantity of 0 opts the shift out of a rule
+const getLogQuantity = (log: WorkLog, def: AllowanceDefinition): number => {
+  const attached = log.allowances?.find(a => a.allowanceId === def.id);
+  if (!attached && !(isAutoAllowance(def) && log.duration >= (def.minShiftHours || 0))) return 0;
+  if (def.unit === 'hour') return attached?.quantity ?? log.duration;
+  if (def.unit === 'km') return attached?.quantity ?? def.kmPerShift ?? 0;
+  return attached?.quantity ?? 1;
+};
+
+export const getLogAllowanceLines = (log: WorkLog, job: Job): PayLine[] => {
+  return (job.allowances || [])
+    .filter(def => def.unit !== 'period')
+    .map(def => ({ def, quantity: getLogQuantity(log, def) }))
+    .filter(({ quantity }) => quantity > 0)
+    .map(({ def, quantity }) => allowanceLine(def, log.date, quantity));
+};
+
+// One line per per-period allowance and pay period, for the job's priced shifts
+// (pass them all, in date order). Manual ones apply when attached to any shift
+// in the period.
+export const getPeriodAllowanceLines = (logs: WorkLog[], job: Job, settings: UserSettings): { log: WorkLog; line: PayLine }[] => {
+  const defs = (job.allowances || []).filter(def => def.unit === 'period');
+  if (defs.length === 0 || logs.length === 0) return [];
+
+  const cycle = getPayCycle(job, settings);
+  const byPeriod = new Map<string, WorkLog[]>();
+  logs.forEach(log => {
+    const end = getPayPeriod(cycle, log.date).end;
+    byPeriod.set(end, [...(byPeriod.get(end) || []), log]);
+  });
+
+  const result: { log: WorkLog; line: PayLine }[] = [];
+  byPeriod.forEach(periodLogs => {
+    const last = periodLogs[periodLogs.length - 1];
+    defs.forEach(def => {
+      const attached = periodLogs.flatMap(l => l.allowances || []).filter(a => a.allowanceId === def.id);
+      const quantity = attached.length > 0
+        ? Math.max(...attached.map(a => a.quantity ?? 1))
+        : (isAutoAllowance(def) ? 1 : 0);
+      if (quantity > 0) result.push({ log: last, line: allowanceLine(def, last.date, quantity) });
+    });
+  });
+  return result;
+};
+
+// Allowance lines totalled per definition, e.g. for a payslip period
+export const summariseAllowances = (lines: PayLine[]): { id: string; name: string; unit: AllowanceUnit; quantity: number; amount: number }[] => {
+  const byId = new Map<string, { id: string; name: string; unit: AllowanceUnit; quantity: number; amount: number }>();
+  lines.forEach(l => {
+    if (!l.allowance) return;
+    const entry = byId.get(l.allowance.id) || { id: l.allowance.id, name: l.allowance.name, unit: l.allowance.unit, quantity: 0, amount: 0 };
+    entry.quantity += l.allowance.quantity;
+    entry.amount += l.amount;
+    byId.set(l.allowance.id, entry);
+  });
+  return [...byId.values()];
+};
+
+// Short description of a shift's allowances, e.g. "Meal x1; Travel 12km"
+export const describeAllowanceLines = (lines: PayLine[]): string => {
+  return summariseAllowances(lines)
+    .map(a => `${a.name} ${a.unit === 'shift' || a.unit === 'period' ? 'x' : ''}${parseFloat(a.quantity.toFixed(2))}${a.unit === 'km' ? 'km' : a.unit === 'hour' ? 'h' : ''}`)
+    .join('; ');
+};
@@ -0,0 +1,106 @@
+import { WorkLog, Job, ShiftTemplate, UserSettings } from "../types";
+import { buildIcs, IcsExportEvent } from "./ical";
+import { calculateLogsPay } from "./payEngine";
+import { getPlannedShifts, plannedShiftToLog } from "./recurrence";
+import { getLogStatus, getStatusMeta } from "./logStatus";
+import { parseTimeToMinutes, addDays } from "./dates";
+
+// Shift calendar export. UIDs are derived from the log id, or from the
+// template + occurrence date for recurring shifts, so a confirmed shift keeps
+// the UID of the planned one it replaced and re-imports update in place.
+
+const UID_DOMAIN = 'paylevel-up';
+
+// CSS colour names for RFC 7986 COLOR; job colours are matched to the nearest
+const CSS_COLORS: Record<string, string> = {
+  indigo: '#4B0082',
+  royalblue: '#4169E1',
+  blueviolet: '#8A2BE2',
+  mediumvioletred: '#C71585',
+  seagreen: '#2E8B57',
+  darkorange: '#FF8C00',
+  crimson: '#DC143C',
+  teal: '#008080',
+  slategray: '#708090',
+};
+
+const hexToRgb = (hex: string): [number, number, number] | null => {
+  const m = /^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(hex);
+  return m ? [parseInt(m[1], 16), parseInt(m[2], 16), parseInt(m[3], 16)] : null;
+};
+
+const nearestCssColor = (hex: string): string | undefined => {
+  const rgb = hexToRgb(hex);
+  if (!rgb) return undefined;
+  let best: { name?: string; distance: number } = { distance: Infinity };
+  Object.keys(CSS_COLORS).forEach(name => {
+    const other = hexToRgb(CSS_COLORS[name])!;
+    const distance = other.reduce((sum, c, i) => sum + (c - rgb[i]) ** 2, 0);
+    if (distance < best.distance) best = { name, distance };
+  });
+  return best.name;
+};
+
+export const getShiftUid = (log: WorkLog): string => {
+  return log.templateId && log.occurrenceDate
+    ? `shift-${log.templateId}-${log.occurrenceDate}@${UID_DOMAIN}`
+    : `log-${log.id}@${UID_DOMAIN}`;
+};
+
+// Edits bump the log's sequence. A confirmed recurring shift replaces its planned
+// event (sequence 0) under the same UID, so it starts one higher.
+const getShiftSequence = (log: WorkLog): number => {
+  return (log.sequence || 0) + (log.templateId && log.occurrenceDate ? 1 : 0);
+};
+
+const toEvent = (log: WorkLog, job: Job | undefined, amount: number, sequence: number, settings: UserSettings): IcsExportEvent => {
+  const status = getLogStatus(log);
+  const jobName = job?.name || 'Unknown';
+  const start = parseTimeToMinutes(log.startTime);
+  const end = parseTimeToMinutes(log.endTime);
+  const timed = start !== null && end !== null;
+
+  const description = [
+    `${jobName} • ${getStatusMeta(status).label}`,
+    `${log.duration}h${log.breakMinutes ? ` (休息 ${log.breakMinutes} 分鐘)` : ''}`,
+    status === 'worked' || status === 'planned' ? `預計收入: ${settings.currency} ${amount.toFixed(2)}` : '',
+    log.notes,
+  ].filter(Boolean).join('\n');
+
+  return {
+    uid: getShiftUid(log),
+    summary: status === 'worked' ? jobName : `${jobName} (${getStatusMeta(status).label})`,
+    description,
+    start: log.date,
+    startTime: timed ? log.startTime : undefined,
+    // Overnight shifts end on the next day; all-day events end exclusively
+    end: timed ? (end! <= start! ? addDays(log.date, 1) : log.date) : addDays(log.date, 1),
+    endTime: timed ? log.endTime : undefined,
+    categories: [jobName],
+    color: job ? nearestCssColor(job.color) : undefined,
+    status: status === 'planned' ? 'TENTATIVE' : status === 'worked' ? 'CONFIRMED' : 'CANCELLED',
+    sequence,
+    lastModified: log.updatedAt ?? log.timestamp,
+  };
+};
+
+// All logs plus unconfirmed recurring shifts between `from` and `to`
+export const buildShiftCalendar = (
+  logs: WorkLog[],
+  templates: ShiftTemplate[],
+  jobs: Job[],
+  settings: UserSettings,
+  from: string,
+  to: string,
+): string => {
+  const upcoming = getPlannedShifts(templates, logs, from, to)
+    .map(shift => ({ ...plannedShiftToLog(shift), status: 'planned' as const }));
+  const all = [...logs, ...upcoming];
+  const payById = new Map(calculateLogsPay(all, jobs, settings, { includePlanned: true }).map(p => [p.logId, p.amount]));
+  const upcomingIds = new Set(upcoming.map(l => l.id));
+
+  const events = all
+    .sort((a, b) => a.date.localeCompare(b.date) || a.startTime.localeCompare(b.startTime))
+    .map(log => toEvent(log, jobs.find(j => j.id === log.jobId), payById.get(log.id) || 0, upcomingIds.has(log.id) ? 0 : getShiftSequence(log), settings));
+  return buildIcs(events, `${settings.userName ? `${settings.userName} ` : ''}PayLevel Up 班次`);
+};
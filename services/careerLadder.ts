@@ -0,0 +1,69 @@
+import { Job, CareerLevel } from "../types";
+import { addRateChange } from "./rateHistory";
+
+// Multi-level career path. Thresholds are cumulative job hours, so progress
+// carries over from one level to the next. The legacy single-step fields
+// (targetHours / nextHourlyRate / nextWeekendHourlyRate) are kept in sync with
+// the next level so older code paths and backups keep working.
+
+export interface LadderStep {
+  index: number;
+  level: CareerLevel;
+  reached: boolean;
+  isCurrent: boolean;
+  hoursRemaining: number;
+}
+
+export const hasLadder = (job: Job): boolean => !!job.ladder && job.ladder.length > 1;
+
+export const getCurrentLevel = (job: Job): CareerLevel | undefined => job.ladder?.[job.currentLevelIndex || 0];
+
+export const getNextLevel = (job: Job): CareerLevel | undefined => job.ladder?.[(job.currentLevelIndex || 0) + 1];
+
+export const syncNextLevel = (job: Job): Job => {
+  const next = getNextLevel(job);
+  if (!next) return job;
+  return {
+    ...job,
+    targetHours: next.thresholdHours,
+    nextHourlyRate: next.hourlyRate,
+    nextWeekendHourlyRate: next.weekendHourlyRate,
+  };
+};
+
+export const withLadder = (job: Job, ladder: CareerLevel[], currentLevelIndex = job.currentLevelIndex || 0): Job => {
+  // Keep the same level current even if editing a threshold reorders the ladder
+  const current = ladder[Math.min(Math.max(0, currentLevelIndex), Math.max(0, ladder.length - 1))];
+  const sorted = [...ladder].sort((a, b) => a.thresholdHours - b.thresholdHours);
+  const index = Math.max(0, sorted.indexOf(current));
+  return syncNextLevel({ ...job, ladder: sorted.length > 0 ? sorted : undefined, currentLevelIndex: index });
+};
+
+export const canPromote = (job: Job, totalHours: number): boolean => {
+  if (hasLadder(job)) {
+    const next = getNextLevel(job);
+    return !!next && totalHours >= next.thresholdHours;
+  }
+  return totalHours >= job.targetHours && job.hourlyRate < job.nextHourlyRate;
+};
+
+// Apply the next level's rates from `effectiveFrom` and advance along the ladder
+export const promoteToNextLevel = (job: Job, effectiveFrom: string): Job => {
+  const promoted = addRateChange(job, effectiveFrom, {
+    hourlyRate: job.nextHourlyRate,
+    weekendHourlyRate: job.nextWeekendHourlyRate,
+  });
+  if (!hasLadder(job) || !getNextLevel(job)) return promoted;
+  return syncNextLevel({ ...promoted, currentLevelIndex: (job.currentLevelIndex || 0) + 1 });
+};
+
+export const getLadderSteps = (job: Job, totalHours: number): LadderStep[] => {
+  const current = job.currentLevelIndex || 0;
+  return (job.ladder || []).map((level, index) => ({
+    index,
+    level,
+    reached: index <= current || totalHours >= level.thresholdHours,
+    isCurrent: index === current,
+    hoursRemaining: Math.max(0, level.thresholdHours - totalHours),
+  }));
+};
@@ -0,0 +1,98 @@
+import { Job, ContributionRules } from "../types";
+import { PayLine, PayBreakdown } from "./payEngine";
+import { TaxPeriod, PERIODS_PER_YEAR } from "./tax";
+
+// Retirement contributions (AU super, HK MPF) worked out from the pay engine's
+// lines. Relevant income is ordinary-time earnings (overtime excluded unless
+// the rules say otherwise), capped at the maximum. Caps are set per month and
+// scaled to the pay period; year-to-date totals apply them month by month.
+
+export interface ContributionAmounts {
+  relevantIncome: number; // After the maximum cap
+  employer: number;
+  employee: number;       // Mandatory employee share
+  voluntary: number;
+}
+
+export interface ContributionPreset {
+  id: string;
+  label: string;
+  rules: ContributionRules;
+}
+
+export const CONTRIBUTION_PRESETS: ContributionPreset[] = [
+  {
+    id: 'AU-super',
+    label: 'Australia Super (12%, 2025-26)',
+    // Maximum super contribution base: $62,500 a quarter
+    rules: { employerPercent: 12, maxRelevantIncome: 20833 },
+  },
+  {
+    id: 'HK-MPF',
+    label: '香港強積金 MPF (5% + 5%)',
+    rules: { employerPercent: 5, employeePercent: 5, minRelevantIncome: 7100, maxRelevantIncome: 30000, includeOvertime: true },
+  },
+];
+
+export const EMPTY_CONTRIBUTIONS: ContributionAmounts = { relevantIncome: 0, employer: 0, employee: 0, voluntary: 0 };
+
+export const hasContributions = (job: Job): boolean => {
+  const rules = job.contributions;
+  return !!rules && ((rules.employerPercent || 0) > 0 || (rules.employeePercent || 0) > 0 || (rules.voluntaryPercent || 0) > 0);
+};
+
+export const getRelevantEarnings = (lines: PayLine[], rules: ContributionRules): number => {
+  return lines
+    .filter(l => rules.includeOvertime || l.category !== 'overtime')
+    // Per-km allowances reimburse expenses rather than pay for work
+    .filter(l => l.allowance?.unit !== 'km')
+    .reduce((sum, l) => sum + l.amount, 0);
+};
+
+// `scale` converts the monthly caps to the period (1 for a month)
+const applyRules = (earnings: number, rules: ContributionRules, scale: number): ContributionAmounts => {
+  if (earnings <= 0) return EMPTY_CONTRIBUTIONS;
+  const max = rules.maxRelevantIncome ? rules.maxRelevantIncome * scale : Infinity;
+  const relevantIncome = Math.min(earnings, max);
+  // Below the minimum only the employee's mandatory share is waived (MPF rule)
+  const belowMinimum = !!rules.minRelevantIncome && earnings < rules.minRelevantIncome * scale;
+  const percent = (p?: number) => relevantIncome * (p || 0) / 100;
+  return {
+    relevantIncome,
+    employer: percent(rules.employerPercent),
+    employee: belowMinimum ? 0 : percent(rules.employeePercent),
+    // Voluntary contributions aren't capped
+    voluntary: earnings * (rules.voluntaryPercent || 0) / 100,
+  };
+};
+
+export const calculatePeriodContributions = (lines: PayLine[], job: Job, period: TaxPeriod): ContributionAmounts => {
+  if (!job.contributions) return EMPTY_CONTRIBUTIONS;
+  const scale = PERIODS_PER_YEAR.monthly / PERIODS_PER_YEAR[period];
+  return applyRules(getRelevantEarnings(lines, job.contributions), job.contributions, scale);
+};
+
+export const addContributions = (a: ContributionAmounts, b: ContributionAmounts): ContributionAmounts => ({
+  relevantIncome: a.relevantIncome + b.relevantIncome,
+  employer: a.employer + b.employer,
+  employee: a.employee + b.employee,
+  voluntary: a.voluntary + b.voluntary,
+});
+
+// Totals over [from, to] across jobs, applying each job's caps per calendar month
+export const calculateContributionsInRange = (breakdowns: PayBreakdown[], jobs: Job[], from: string, to: string): ContributionAmounts => {
+  const byJobMonth = new Map<string, PayLine[]>();
+  breakdowns.forEach(b => b.lines.forEach(line => {
+    if (line.date < from || line.date > to) return;
+    const key = `${b.jobId}|${line.date.slice(0, 7)}`;
+    byJobMonth.set(key, [...(byJobMonth.get(key) || []), line]);
+  }));
+
+  let total = EMPTY_CONTRIBUTIONS;
+  byJobMonth.forEach((lines, key) => {
+    const job = jobs.find(j => j.id === key.split('|')[0]);
+    if (!job?.contributions) return;
+    total = addContributions(total, applyRules(getRelevantEarnings(lines, job.contributions), job.contributions, 1));
+  });
+  return total;
+};
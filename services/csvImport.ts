@@ -0,0 +1,233 @@
+import { WorkLog, Job, LogStatus, DEFAULT_JOB } from "../types";
+import { getPaidHours } from "./dates";
+import { LOG_STATUSES } from "./logStatus";
+
+// Spreadsheet / timesheet CSV import: the user maps columns and formats, rows
+// are parsed into logs with per-row errors, and unknown job names are mapped
+// to existing jobs or created as new ones before anything is saved.
+
+export type CsvField = 'date' | 'start' | 'end' | 'break' | 'duration' | 'job' | 'notes' | 'status';
+export type CsvColumnMapping = Record<CsvField, number>; // Column index, -1 when not mapped
+export type CsvDateFormat = 'auto' | 'YYYY-MM-DD' | 'DD/MM/YYYY' | 'MM/DD/YYYY';
+export type CsvTimeFormat = 'auto' | '24h' | '12h';
+
+export interface CsvImportOptions {
+  hasHeader: boolean;
+  mapping: CsvColumnMapping;
+  dateFormat: CsvDateFormat;
+  timeFormat: CsvTimeFormat;
+}
+
+export interface CsvPreviewRow {
+  line: number;
+  date: string;
+  startTime: string;
+  endTime: string;
+  duration: number;
+  breakMinutes?: number; // Unpaid break, from the break column
+  jobName: string; // As written in the file; '' when no job column
+  notes: string;
+  status?: LogStatus;
+  errors: string[];
+  duplicate: boolean;
+}
+
+export const CSV_FIELDS: { value: CsvField; label: string; aliases: string[] }[] = [
+  { value: 'date', label: '日期', aliases: ['date', '日期', 'day'] },
+  { value: 'start', label: '開始', aliases: ['start', '開始', 'time in', 'clock in'] },
+  { value: 'end', label: '結束', aliases: ['end', '結束', 'finish', 'time out', 'clock out'] },
+  { value: 'break', label: '休息 (分鐘)', aliases: ['break', '休息', 'unpaid'] },
+  { value: 'duration', label: '工時', aliases: ['duration', 'hours', '工時', 'total'] },
+  { value: 'job', label: '工作', aliases: ['job', '工作', 'location', 'role', 'site'] },
+  { value: 'notes', label: '備註', aliases: ['note', '備註', 'description', 'comment'] },
+  { value: 'status', label: '狀態', aliases: ['status', '狀態'] },
+];
+
+export const DATE_FORMATS: { value: CsvDateFormat; label: string }[] = [
+  { value: 'auto', label: '自動 (YYYY-MM-DD 或 DD/MM/YYYY)' },
+  { value: 'YYYY-MM-DD', label: 'YYYY-MM-DD' },
+  { value: 'DD/MM/YYYY', label: 'DD/MM/YYYY' },
+  { value: 'MM/DD/YYYY', label: 'MM/DD/YYYY' },
+];
+
+export const TIME_FORMATS: { value: CsvTimeFormat; label: string }[] = [
+  { value: 'auto', label: '自動' },
+  { value: '24h', label: '24 小時 (15:30)' },
+  { value: '12h', label: '12 小時 (3:30pm)' },
+];
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const validDate = (y: number, m: number, d: number): string | null => {
+  const date = new Date(y, m - 1, d);
+  if (date.getFullYear() !== y || date.getMonth() !== m - 1 || date.getDate() !== d) return null;
+  return `${y}-${pad(m)}-${pad(d)}`;
+};
+
+// Separators can be -, / or .
+export const parseDateValue = (value: string, format: CsvDateFormat = 'auto'): string | null => {
+  const trimmed = value.trim().replace(/[T ].*$/, '');
+  const iso = /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/.exec(trimmed);
+  const dayFirst = /^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})$/.exec(trimmed);
+  if (iso && (format === 'auto' || format === 'YYYY-MM-DD')) return validDate(+iso[1], +iso[2], +iso[3]);
+  if (dayFirst && (format === 'auto' || format === 'DD/MM/YYYY')) return validDate(+dayFirst[3], +dayFirst[2], +dayFirst[1]);
+  if (dayFirst && format === 'MM/DD/YYYY') return validDate(+dayFirst[3], +dayFirst[1], +dayFirst[2]);
+  return null;
+};
+
+// 15:30, 3:30pm, 3pm or 1530; a leading date (spreadsheet date-times) is ignored
+export const parseTimeValue = (value: string, format: CsvTimeFormat = 'auto'): string | null => {
+  const trimmed = value.trim().replace(/^\S+[T ](?=\d)/, '');
+  const m = /^(\d{1,2})(?::?(\d{2}))?(?::\d{2})?\s*(am|pm|a\.m\.|p\.m\.)?$/i.exec(trimmed);
+  if (!m) return null;
+  let h = +m[1];
+  const mi = +(m[2] || 0);
+  const meridiem = m[3]?.toLowerCase().replace(/\./g, '');
+  if (format === '12h' && !meridiem) return null;
+  if (format === '24h' && meridiem) return null;
+  if (meridiem && (h < 1 || h > 12)) return null;
+  if (meridiem === 'pm' && h < 12) h += 12;
+  if (meridiem === 'am' && h === 12) h = 0;
+  if (h > 23 || mi > 59) return null;
+  return `${pad(h)}:${pad(mi)}`;
+};
+
+// Decimal hours (3.5) or H:MM (3:30)
+const parseDurationValue = (value: string): number | null => {
+  const trimmed = value.trim();
+  const hm = /^(\d+):(\d{2})$/.exec(trimmed);
+  if (hm) return +hm[1] + +hm[2] / 60;
+  const n = parseFloat(trimmed);
+  return Number.isFinite(n) && /^-?[\d.]+$/.test(trimmed) ? n : null;
+};
+
+const parseStatusValue = (value: string): LogStatus | undefined => {
+  const lower = value.trim().toLowerCase();
+  return LOG_STATUSES.find(s => s.value === lower || s.label === value.trim())?.value;
+};
+
+// Header cells matched against known names, including the app's own CSV export
+export const guessMapping = (header: string[]): CsvColumnMapping => {
+  const mapping = {} as CsvColumnMapping;
+  const used = new Set<number>();
+  CSV_FIELDS.forEach(field => {
+    const index = header.findIndex((cell, i) => !used.has(i) && field.aliases.some(a => cell.toLowerCase().startsWith(a)));
+    mapping[field.value] = index;
+    if (index >= 0) used.add(index);
+  });
+  return mapping;
+};
+
+export const getLogKey = (log: Pick<WorkLog, 'jobId' | 'date' | 'startTime' | 'endTime'>): string => {
+  return `${log.jobId}|${log.date}|${log.startTime}|${log.endTime}`;
+};
+
+export const parseCsvRows = (rows: string[][], options: CsvImportOptions): CsvPreviewRow[] => {
+  const { mapping, dateFormat, timeFormat } = options;
+  const cell = (row: string[], field: CsvField) => (mapping[field] >= 0 ? row[mapping[field]] || '' : '').trim();
+
+  return rows.slice(options.hasHeader ? 1 : 0).map((row, i) => {
+    const errors: string[] = [];
+    const rawDate = cell(row, 'date');
+    const rawStart = cell(row, 'start');
+    const rawEnd = cell(row, 'end');
+    const rawDuration = cell(row, 'duration');
+    const rawBreak = cell(row, 'break');
+
+    const date = parseDateValue(rawDate, dateFormat);
+    if (!date) errors.push(rawDate ? `日期格式不符: ${rawDate}` : '缺少日期');
+
+    // '-' is how manual-duration logs are exported
+    const hasTimes = !!rawStart && rawStart !== '-' && !!rawEnd && rawEnd !== '-';
+    const startTime = hasTimes ? parseTimeValue(rawStart, timeFormat) : '-';
+    const endTime = hasTimes ? parseTimeValue(rawEnd, timeFormat) : '-';
+    if (!startTime) errors.push(`開始時間格式不符: ${rawStart}`);
+    if (!endTime) errors.push(`結束時間格式不符: ${rawEnd}`);
+
+    // Whole minutes
+    const breakMinutes = rawBreak ? Number(rawBreak.trim()) : 0;
+    if (!Number.isInteger(breakMinutes) || breakMinutes < 0) errors.push(`休息格式不符: ${rawBreak}`);
+
+    let duration = rawDuration ? parseDurationValue(rawDuration) : null;
+    if (rawDuration && duration === null) errors.push(`工時格式不符: ${rawDuration}`);
+    if (duration === null && hasTimes && startTime && endTime) duration = getPaidHours(startTime, endTime, breakMinutes || 0);
+    if (duration === null && !rawDuration && !hasTimes) errors.push('缺少工時或開始/結束時間');
+    if (duration !== null && (duration <= 0 || duration > 24)) errors.push(`工時不合理: ${duration}`);
+
+    const rawStatus = cell(row, 'status');
+    const status = rawStatus ? parseStatusValue(rawStatus) : undefined;
+    if (rawStatus && !status) errors.push(`未知狀態: ${rawStatus}`);
+
+    return {
+      line: i + (options.hasHeader ? 2 : 1),
+      date: date || rawDate,
+      startTime: startTime || rawStart,
+      endTime: endTime || rawEnd,
+      duration: parseFloat((duration || 0).toFixed(2)),
+      breakMinutes: hasTimes && breakMinutes > 0 ? breakMinutes : undefined,
+      jobName: cell(row, 'job'),
+      notes: cell(row, 'notes'),
+      status,
+      errors,
+      duplicate: false,
+    };
+  });
+};
+
+// Job names in the file that don't match an existing job (case-insensitive)
+export const findUnknownJobNames = (rows: CsvPreviewRow[], jobs: Job[]): string[] => {
+  const known = new Set(jobs.map(j => j.name.toLowerCase()));
+  return [...new Set(rows.map(r => r.jobName).filter(name => name && !known.has(name.toLowerCase())))];
+};
+
+export const NEW_JOB = '__new__';
+
+// Resolve job names to ids (creating new jobs where asked), drop invalid rows
+// and mark rows that already exist as duplicates.
+export const buildCsvImport = (
+  rows: CsvPreviewRow[],
+  jobs: Job[],
+  jobMapping: Record<string, string>, // Unknown job name -> job id or NEW_JOB
+  defaultJobId: string,
+  existing: WorkLog[],
+): { logs: WorkLog[]; newJobs: Job[]; rows: CsvPreviewRow[] } => {
+  const newJobs: Job[] = [];
+  const resolved: Record<string, string> = {};
+  const resolveJob = (name: string): string => {
+    if (!name) return defaultJobId;
+    const match = jobs.find(j => j.name.toLowerCase() === name.toLowerCase());
+    if (match) return match.id;
+    if (resolved[name]) return resolved[name];
+    const target = jobMapping[name] || defaultJobId;
+    if (target !== NEW_JOB) return (resolved[name] = target);
+    const job: Job = { ...DEFAULT_JOB, id: crypto.randomUUID(), name };
+    newJobs.push(job);
+    return (resolved[name] = job.id);
+  };
+
+  const seen = new Set(existing.map(getLogKey));
+  const logs: WorkLog[] = [];
+  const marked = rows.map(row => {
+    if (row.errors.length > 0) return row;
+    const log: WorkLog = {
+      id: crypto.randomUUID(),
+      jobId: resolveJob(row.jobName),
+      date: row.date,
+      startTime: row.startTime,
+      endTime: row.endTime,
+      duration: row.duration,
+      breakMinutes: row.breakMinutes,
+      notes: row.notes,
+      timestamp: Date.now(),
+      status: row.status && row.status !== 'worked' ? row.status : undefined,
+    };
+    if (seen.has(getLogKey(log))) return { ...row, duplicate: true };
+    seen.add(getLogKey(log));
+    logs.push(log);
+    return row;
+  });
+
+  // Jobs only referenced by duplicate rows aren't worth creating
+  const usedJobIds = new Set(logs.map(l => l.jobId));
+  return { logs, newJobs: newJobs.filter(j => usedJobIds.has(j.id)), rows: marked };
+};
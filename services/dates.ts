@@ -0,0 +1,48 @@
+// Date helpers for YYYY-MM-DD strings. `new Date('YYYY-MM-DD')` parses as UTC
+// midnight, which shifts the weekday/month in non-UTC timezones, so always
+// go through these instead.
+
+export const parseLocalDate = (date: string): Date => {
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(y, m - 1, d);
+};
+
+export const formatLocalDate = (d: Date): string => {
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+export const getDayOfWeek = (date: string): number => parseLocalDate(date).getDay();
+
+// Minutes since midnight for an HH:mm string; null for '-' (manual-duration logs)
+export const parseTimeToMinutes = (time: string): number | null => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time);
+  if (!match) return null;
+  return Number(match[1]) * 60 + Number(match[2]);
+};
+
+// Paid hours for an HH:mm start and end less an unpaid break, to 2 decimals.
+// An end at or before the start runs past midnight; invalid times give 0.
+export const getPaidHours = (startTime: string, endTime: string, breakMinutes = 0): number => {
+  const start = parseTimeToMinutes(startTime);
+  const end = parseTimeToMinutes(endTime);
+  if (start === null || end === null) return 0;
+  let diff = end - start;
+  if (diff <= 0) diff += 24 * 60;
+  return parseFloat((Math.max(0, diff - breakMinutes) / 60).toFixed(2));
+};
+
+// A real calendar date in YYYY-MM-DD form (rejects 2026-02-30 etc.)
+export const isValidLocalDate = (date: string): boolean => {
+  return /^\d{4}-\d{2}-\d{2}$/.test(date) && formatLocalDate(parseLocalDate(date)) === date;
+};
+
+export const addDays = (date: string, days: number): string => {
+  const d = parseLocalDate(date);
+  d.setDate(d.getDate() + days);
+  return formatLocalDate(d);
+};
+
+// Whole days from `from` to `to`; negative when `to` is earlier (rounded for DST)
+export const daysBetween = (from: string, to: string): number => {
+  return Math.round((parseLocalDate(to).getTime() - parseLocalDate(from).getTime()) / (24 * 60 * 60 * 1000));
+};
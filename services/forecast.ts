@@ -0,0 +1,60 @@
+import { WorkLog } from "../types";
+import { formatLocalDate, parseLocalDate, addDays, daysBetween } from "./dates";
+
+// Average hours per week over the trailing `weeks` weeks (ending today)
+export const averageWeeklyHours = (logs: WorkLog[], weeks: number, today: Date = new Date()): number => {
+  const end = formatLocalDate(today);
+  const start = addDays(end, -(weeks * 7 - 1));
+  const hours = logs
+    .filter(l => l.date >= start && l.date <= end)
+    .reduce((sum, l) => sum + l.duration, 0);
+  return hours / weeks;
+};
+
+// Date on which `hoursRemaining` will be reached at `hoursPerWeek`; null if never
+export const projectDate = (hoursRemaining: number, hoursPerWeek: number, today: Date = new Date()): Date | null => {
+  if (hoursRemaining <= 0) return today;
+  if (hoursPerWeek <= 0) return null;
+  const days = Math.ceil((hoursRemaining / hoursPerWeek) * 7);
+  return parseLocalDate(addDays(formatLocalDate(today), days));
+};
+
+export const VELOCITY_WINDOWS = [4, 8, 12];
+
+export interface TargetForecast {
+  velocities: Record<number, number>; // window (weeks) -> hours/week
+  expectedPace: number;    // 8-week average
+  optimisticPace: number;  // fastest window
+  pessimisticPace: number; // slowest window
+  expectedDate: Date | null;
+  optimisticDate: Date | null;
+  pessimisticDate: Date | null;
+}
+
+// Projected date to reach a target, with a range from the rolling 4/8/12-week paces
+export const forecastTarget = (logs: WorkLog[], hoursRemaining: number, today: Date = new Date()): TargetForecast => {
+  const velocities: Record<number, number> = {};
+  VELOCITY_WINDOWS.forEach(w => { velocities[w] = averageWeeklyHours(logs, w, today); });
+  const paces = VELOCITY_WINDOWS.map(w => velocities[w]);
+  const expectedPace = velocities[8];
+  const optimisticPace = Math.max(...paces);
+  const pessimisticPace = Math.min(...paces);
+
+  return {
+    velocities,
+    expectedPace,
+    optimisticPace,
+    pessimisticPace,
+    expectedDate: projectDate(hoursRemaining, expectedPace, today),
+    optimisticDate: projectDate(hoursRemaining, optimisticPace, today),
+    pessimisticDate: projectDate(hoursRemaining, pessimisticPace, today),
+  };
+};
+
+// Weekly hours needed to close `hoursRemaining` by `targetDate` (YYYY-MM-DD, inclusive)
+export const hoursPerWeekNeeded = (hoursRemaining: number, targetDate: string, today: Date = new Date()): number | null => {
+  if (hoursRemaining <= 0) return 0;
+  const days = daysBetween(formatLocalDate(today), targetDate) + 1;
+  if (days <= 0) return null;
+  return hoursRemaining / (days / 7);
+};
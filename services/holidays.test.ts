@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { UserSettings } from '../types';
+import { getHolidayName, getEasterSunday, isPastListedHolidays, isPenaltyRateDay } from './holidays';
+
+const settings: UserSettings = {
+  currency: 'AUD',
+  userName: 'Test',
+  payFrequency: 'biweekly',
+  taxRate: 0,
+  theme: 'light',
+};
+
+const region = (holidayRegion: string): UserSettings => ({ ...settings, holidayRegion });
+
+describe('Easter', () => {
+  it('computes Easter Sunday', () => {
+    expect(getEasterSunday(2025)).toBe('2025-04-20');
+    expect(getEasterSunday(2026)).toBe('2026-04-05');
+    expect(getEasterSunday(2027)).toBe('2027-03-28');
+    expect(getEasterSunday(2038)).toBe('2038-04-25');
+  });
+});
+
+describe('Hong Kong', () => {
+  const hk = region('HK');
+
+  it('lists the lunar holidays of the last published year', () => {
+    expect(getHolidayName('2027-02-06', hk)).toBe('Lunar New Year\'s Day');
+    expect(getHolidayName('2027-09-16', hk)).toBe('The day following Mid-Autumn Festival');
+  });
+
+  it('moves a Sunday holiday to the next free day', () => {
+    expect(getHolidayName('2028-10-01', hk)).toBeUndefined();
+    expect(getHolidayName('2028-10-02', hk)).toBe('The day following National Day');
+    expect(getHolidayName('2029-07-02', hk)).toBe('The day following HKSAR Establishment Day');
+  });
+
+  it('gives the first weekday after a Saturday Christmas', () => {
+    expect(getHolidayName('2027-12-25', hk)).toBe('Christmas Day');
+    expect(getHolidayName('2027-12-27', hk)).toBe('The first weekday after Christmas Day');
+  });
+});
+
+describe('Australia', () => {
+  it('adds weekday substitutes for a weekend Christmas and Boxing Day', () => {
+    const nsw = region('AU-NSW');
+    expect(getHolidayName('2027-12-27', nsw)).toBe('Christmas Day (observed)');
+    expect(getHolidayName('2027-12-28', nsw)).toBe('Boxing Day (observed)');
+  });
+
+  it('keeps state rules apart', () => {
+    expect(getHolidayName('2026-04-27', region('AU-WA'))).toBe('Anzac Day (observed)');
+    expect(getHolidayName('2026-04-27', region('AU-NSW'))).toBeUndefined();
+    expect(getHolidayName('2027-11-02', region('AU-VIC'))).toBe('Melbourne Cup');
+  });
+
+  it('computes rule-based holidays past the listed years', () => {
+    const vic = region('AU-VIC');
+    expect(getHolidayName('2028-04-14', vic)).toBe('Good Friday');
+    expect(getHolidayName('2028-03-13', vic)).toBe('Labour Day');
+    expect(isPenaltyRateDay('2028-12-26', vic)).toBe(true);
+  });
+});
+
+describe('listed data coverage', () => {
+  it('flags dates past the listed years when a region is set', () => {
+    expect(isPastListedHolidays('2027-12-31', region('HK'))).toBe(false);
+    expect(isPastListedHolidays('2028-01-01', region('HK'))).toBe(true);
+    expect(isPastListedHolidays('2028-01-01', region('none'))).toBe(false);
+    expect(isPastListedHolidays('2028-01-01', settings)).toBe(false);
+  });
+
+  it('lets custom holidays fill the gap', () => {
+    const withCustom = { ...region('HK'), customHolidays: [{ date: '2028-01-26', name: 'Lunar New Year\'s Day' }] };
+    expect(getHolidayName('2028-01-26', withCustom)).toBe('Lunar New Year\'s Day');
+  });
+});
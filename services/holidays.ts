@@ -0,0 +1,281 @@
+import { UserSettings, CustomHoliday } from "../types";
+import { getDayOfWeek, addDays, formatLocalDate } from "./dates";
+
+// Bundled public holidays (offline). Fixed-date and rule-based days (New Year,
+// Easter, "second Monday in March", weekend substitutes) are computed for any
+// year. Lunar-calendar and one-off proclaimed days can't be, so they're listed
+// from the published gazettes up to LISTED_HOLIDAYS_THROUGH. Anything missing
+// (e.g. local show days, newly proclaimed holidays) can be added by the user
+// as a custom holiday in Settings.
+
+export interface HolidayRegion {
+  id: string;
+  label: string;
+}
+
+type HolidayList = Record<string, string>; // YYYY-MM-DD -> name
+
+export const HOLIDAY_REGIONS: HolidayRegion[] = [
+  { id: 'none', label: '不使用公眾假期' },
+  { id: 'HK', label: 'Hong Kong (香港)' },
+  { id: 'AU-NSW', label: 'Australia - NSW' },
+  { id: 'AU-VIC', label: 'Australia - VIC' },
+  { id: 'AU-QLD', label: 'Australia - QLD' },
+  { id: 'AU-WA', label: 'Australia - WA' },
+  { id: 'AU-SA', label: 'Australia - SA' },
+  { id: 'AU-TAS', label: 'Australia - TAS' },
+  { id: 'AU-ACT', label: 'Australia - ACT' },
+  { id: 'AU-NT', label: 'Australia - NT' },
+];
+
+// Last year the listed (non-computed) holidays cover
+export const LISTED_HOLIDAYS_THROUGH = 2027;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const ymd = (year: number, month: number, day: number) => `${year}-${pad(month)}-${pad(day)}`;
+
+const isWeekend = (date: string) => getDayOfWeek(date) === 0 || getDayOfWeek(date) === 6;
+
+// nth `weekday` (0 = Sun) of a month (1-12)
+const nthWeekday = (year: number, month: number, weekday: number, n: number): string => {
+  const first = ymd(year, month, 1);
+  return addDays(first, (weekday - getDayOfWeek(first) + 7) % 7 + (n - 1) * 7);
+};
+
+const lastWeekday = (year: number, month: number, weekday: number): string => {
+  const last = formatLocalDate(new Date(year, month, 0));
+  return addDays(last, -((getDayOfWeek(last) - weekday + 7) % 7));
+};
+
+// First `weekday` on or after a date
+const weekdayOnOrAfter = (date: string, weekday: number): string => addDays(date, (weekday - getDayOfWeek(date) + 7) % 7);
+
+// Easter Sunday (Gregorian, anonymous algorithm)
+export const getEasterSunday = (year: number): string => {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const h = (19 * a + b - Math.floor(b / 4) - Math.floor((b - Math.floor((b + 8) / 25) + 1) / 3) + 15) % 30;
+  const l = (32 + 2 * (b % 4) + 2 * Math.floor(c / 4) - h - (c % 4)) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return ymd(year, month, day);
+};
+
+// --- Hong Kong ---
+// A general holiday falling on a Sunday moves to the next day that isn't
+// already a holiday.
+
+const HK_LISTED: HolidayList = {
+  '2025-01-29': 'Lunar New Year\'s Day',
+  '2025-01-30': 'Second day of Lunar New Year',
+  '2025-01-31': 'Third day of Lunar New Year',
+  '2025-04-04': 'Ching Ming Festival',
+  '2025-05-05': 'Birthday of the Buddha',
+  '2025-05-31': 'Tuen Ng Festival',
+  '2025-10-07': 'The day following Mid-Autumn Festival',
+  '2025-10-29': 'Chung Yeung Festival',
+  '2026-02-17': 'Lunar New Year\'s Day',
+  '2026-02-18': 'Second day of Lunar New Year',
+  '2026-02-19': 'Third day of Lunar New Year',
+  '2026-04-07': 'The day following Ching Ming Festival',
+  '2026-05-25': 'The day following the Birthday of the Buddha',
+  '2026-06-19': 'Tuen Ng Festival',
+  '2026-09-26': 'The day following Mid-Autumn Festival',
+  '2026-10-19': 'The day following Chung Yeung Festival',
+  '2027-02-06': 'Lunar New Year\'s Day',
+  '2027-02-08': 'Third day of Lunar New Year',
+  '2027-02-09': 'Fourth day of Lunar New Year',
+  '2027-04-05': 'Ching Ming Festival',
+  '2027-05-13': 'Birthday of the Buddha',
+  '2027-06-09': 'Tuen Ng Festival',
+  '2027-09-16': 'The day following Mid-Autumn Festival',
+  '2027-10-08': 'Chung Yeung Festival',
+};
+
+const getHkHolidays = (year: number): HolidayList => {
+  const list: HolidayList = {};
+  Object.keys(HK_LISTED).filter(d => d.startsWith(`${year}-`)).forEach(d => { list[d] = HK_LISTED[d]; });
+
+  const easter = getEasterSunday(year);
+  list[addDays(easter, -2)] = 'Good Friday';
+  list[addDays(easter, -1)] = 'The day following Good Friday';
+  list[addDays(easter, 1)] = 'Easter Monday';
+
+  const addFixed = (date: string, name: string) => {
+    if (getDayOfWeek(date) !== 0) {
+      list[date] = name;
+      return;
+    }
+    let next = addDays(date, 1);
+    while (list[next]) next = addDays(next, 1);
+    list[next] = `The day following ${name}`;
+  };
+  addFixed(ymd(year, 1, 1), 'New Year\'s Day');
+  addFixed(ymd(year, 5, 1), 'Labour Day');
+  addFixed(ymd(year, 7, 1), 'HKSAR Establishment Day');
+  addFixed(ymd(year, 10, 1), 'National Day');
+
+  const christmas = ymd(year, 12, 25);
+  if (getDayOfWeek(christmas) === 0) {
+    list[addDays(christmas, 1)] = 'The first weekday after Christmas Day';
+    list[addDays(christmas, 2)] = 'The day following Christmas Day';
+  } else {
+    list[christmas] = 'Christmas Day';
+    const boxing = addDays(christmas, 1);
+    list[getDayOfWeek(boxing) === 0 ? addDays(boxing, 1) : boxing] = 'The first weekday after Christmas Day';
+  }
+  return list;
+};
+
+// --- Australia ---
+
+// National days observed in every state/territory, with weekend substitutes
+const getAuNationalHolidays = (year: number): HolidayList => {
+  const list: HolidayList = {};
+  const newYear = ymd(year, 1, 1);
+  list[newYear] = 'New Year\'s Day';
+  if (isWeekend(newYear)) list[weekdayOnOrAfter(newYear, 1)] = 'New Year\'s Day (observed)';
+
+  const australiaDay = ymd(year, 1, 26);
+  if (isWeekend(australiaDay)) list[weekdayOnOrAfter(australiaDay, 1)] = 'Australia Day (observed)';
+  else list[australiaDay] = 'Australia Day';
+
+  const easter = getEasterSunday(year);
+  list[addDays(easter, -2)] = 'Good Friday';
+  list[addDays(easter, 1)] = 'Easter Monday';
+  list[ymd(year, 4, 25)] = 'Anzac Day';
+
+  const christmas = ymd(year, 12, 25);
+  list[christmas] = 'Christmas Day';
+  if (isWeekend(christmas)) list[ymd(year, 12, 27)] = 'Christmas Day (observed)';
+  const boxing = ymd(year, 12, 26);
+  if (isWeekend(boxing)) list[ymd(year, 12, 28)] = 'Boxing Day (observed)';
+  else list[boxing] = 'Boxing Day';
+  return list;
+};
+
+const easterWeekend = (year: number): HolidayList => {
+  const easter = getEasterSunday(year);
+  return { [addDays(easter, -1)]: 'Easter Saturday', [easter]: 'Easter Sunday' };
+};
+
+const kingsBirthdayJune = (year: number): HolidayList => ({ [nthWeekday(year, 6, 1, 2)]: 'King\'s Birthday' });
+
+// Proclaimed each year rather than set by a rule
+const AU_LISTED: Record<string, HolidayList> = {
+  'AU-VIC': {
+    '2025-09-26': 'AFL Grand Final Friday',
+  },
+};
+
+// Royal Queensland Show: the Wednesday of the show, which opens on the first
+// Friday in August (the second if the first is before the 5th)
+const ekkaWednesday = (year: number): string => {
+  const firstFriday = nthWeekday(year, 8, 5, 1);
+  const opening = Number(firstFriday.slice(8)) < 5 ? addDays(firstFriday, 7) : firstFriday;
+  return addDays(opening, 5);
+};
+
+const AU_STATE_RULES: Record<string, (year: number) => HolidayList> = {
+  'AU-NSW': year => ({
+    ...easterWeekend(year),
+    ...kingsBirthdayJune(year),
+    [nthWeekday(year, 10, 1, 1)]: 'Labour Day',
+  }),
+  'AU-VIC': year => ({
+    ...easterWeekend(year),
+    ...kingsBirthdayJune(year),
+    [nthWeekday(year, 3, 1, 2)]: 'Labour Day',
+    [nthWeekday(year, 11, 2, 1)]: 'Melbourne Cup',
+  }),
+  'AU-QLD': year => ({
+    ...easterWeekend(year),
+    [nthWeekday(year, 5, 1, 1)]: 'Labour Day',
+    [ekkaWednesday(year)]: 'Royal Queensland Show (Brisbane)',
+    [nthWeekday(year, 10, 1, 1)]: 'King\'s Birthday',
+  }),
+  'AU-WA': year => {
+    const anzac = ymd(year, 4, 25);
+    return {
+      [nthWeekday(year, 3, 1, 1)]: 'Labour Day',
+      ...(isWeekend(anzac) ? { [weekdayOnOrAfter(anzac, 1)]: 'Anzac Day (observed)' } : {}),
+      [nthWeekday(year, 6, 1, 1)]: 'WA Day',
+      [lastWeekday(year, 9, 1)]: 'King\'s Birthday',
+    };
+  },
+  'AU-SA': year => ({
+    ...easterWeekend(year),
+    ...kingsBirthdayJune(year),
+    [nthWeekday(year, 3, 1, 2)]: 'Adelaide Cup Day',
+    [nthWeekday(year, 10, 1, 1)]: 'Labour Day',
+  }),
+  'AU-TAS': year => ({
+    ...kingsBirthdayJune(year),
+    [nthWeekday(year, 3, 1, 2)]: 'Eight Hours Day',
+  }),
+  'AU-ACT': year => ({
+    ...easterWeekend(year),
+    ...kingsBirthdayJune(year),
+    [nthWeekday(year, 3, 1, 2)]: 'Canberra Day',
+    [weekdayOnOrAfter(ymd(year, 5, 27), 1)]: 'Reconciliation Day',
+    [nthWeekday(year, 10, 1, 1)]: 'Labour Day',
+  }),
+  'AU-NT': year => ({
+    ...easterWeekend(year),
+    ...kingsBirthdayJune(year),
+    [nthWeekday(year, 5, 1, 1)]: 'May Day',
+    [nthWeekday(year, 8, 1, 1)]: 'Picnic Day',
+  }),
+};
+
+const buildBundledHolidays = (region: string, year: number): HolidayList => {
+  if (region === 'HK') return getHkHolidays(year);
+  const rules = AU_STATE_RULES[region];
+  if (!rules) return {};
+  const listed: HolidayList = {};
+  Object.entries(AU_LISTED[region] || {}).filter(([d]) => d.startsWith(`${year}-`)).forEach(([d, name]) => { listed[d] = name; });
+  return { ...getAuNationalHolidays(year), ...rules(year), ...listed };
+};
+
+// Bundled days are cached per region and year; custom ones per list, so
+// per-log lookups stay cheap
+const bundledCache = new Map<string, HolidayList>();
+let customKey: CustomHoliday[] | undefined;
+let customValue: HolidayList = {};
+
+const getBundledHolidays = (region: string, year: number): HolidayList => {
+  const key = `${region}:${year}`;
+  if (!bundledCache.has(key)) bundledCache.set(key, buildBundledHolidays(region, year));
+  return bundledCache.get(key)!;
+};
+
+const getCustomHolidays = (custom: CustomHoliday[] | undefined): HolidayList => {
+  if (custom !== customKey) {
+    customKey = custom;
+    customValue = {};
+    (custom || []).forEach(h => { customValue[h.date] = h.name; });
+  }
+  return customValue;
+};
+
+export const getHolidayName = (date: string, settings: UserSettings): string | undefined => {
+  const custom = getCustomHolidays(settings.customHolidays)[date];
+  if (custom) return custom;
+  return getBundledHolidays(settings.holidayRegion || 'none', Number(date.slice(0, 4)))[date];
+};
+
+// Past the listed data only computed holidays are known, so lunar and
+// proclaimed days are missing until the user adds them
+export const isPastListedHolidays = (date: string, settings: UserSettings): boolean => {
+  return (settings.holidayRegion || 'none') !== 'none' && Number(date.slice(0, 4)) > LISTED_HOLIDAYS_THROUGH;
+};
+
+export const isWeekendDate = (date: string): boolean => isWeekend(date);
+
+// Sat-Sun & Pub Hol are paid at the weekend (penalty) rate
+export const isPenaltyRateDay = (date: string, settings: UserSettings): boolean => {
+  return isWeekendDate(date) || !!getHolidayName(date, settings);
+};
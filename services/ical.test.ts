@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { WorkLog, Job, ShiftTemplate, UserSettings } from '../types';
+import { buildIcs, parseIcs, IcsExportEvent } from './ical';
+import { buildShiftCalendar } from './calendarExport';
+
+const event: IcsExportEvent = {
+  uid: 'log-1@paylevel-up',
+  summary: 'Swim School',
+  description: 'Lane 3; deep end',
+  start: '2025-03-04',
+  startTime: '09:00',
+  end: '2025-03-04',
+  endTime: '13:00',
+};
+
+// Unfolded property lines of each VEVENT
+const eventLines = (ics: string): string[][] => ics
+  .replace(/\r\n[ \t]/g, '')
+  .split('BEGIN:VEVENT')
+  .slice(1)
+  .map(block => block.split('\r\n').filter(Boolean));
+
+describe('buildIcs', () => {
+  it('writes the UID, sequence and last-modified time', () => {
+    const ics = buildIcs([{ ...event, sequence: 2, lastModified: Date.UTC(2025, 2, 5, 8, 30) }], 'Shifts', Date.UTC(2025, 2, 6));
+    const [lines] = eventLines(ics);
+    expect(lines).toContain('UID:log-1@paylevel-up');
+    expect(lines).toContain('SEQUENCE:2');
+    expect(lines).toContain('LAST-MODIFIED:20250305T083000Z');
+    expect(lines).toContain('DTSTAMP:20250306T000000Z');
+    expect(lines).toContain('DTSTART:20250304T090000');
+    expect(lines).toContain('DESCRIPTION:Lane 3\\; deep end');
+  });
+
+  it('leaves out SEQUENCE when the event has none', () => {
+    const [lines] = eventLines(buildIcs([event], 'Shifts'));
+    expect(lines.some(l => l.startsWith('SEQUENCE'))).toBe(false);
+  });
+
+  it('reads back what it writes', () => {
+    const [parsed] = parseIcs(buildIcs([event], 'Shifts'));
+    expect(parsed.uid).toBe(event.uid);
+    expect(parsed.summary).toBe('Swim School');
+    expect(parsed.description).toBe('Lane 3; deep end');
+    expect(parsed.start).toEqual(new Date(2025, 2, 4, 9, 0));
+  });
+});
+
+describe('buildShiftCalendar', () => {
+  const settings: UserSettings = { currency: 'AUD', userName: '', payFrequency: 'biweekly', taxRate: 0, theme: 'light' };
+  const job: Job = { id: 'job-1', name: 'Swim School', color: '#4169E1', hourlyRate: 30, weekendHourlyRate: 45, targetHours: 100, nextHourlyRate: 35, nextWeekendHourlyRate: 50 };
+  const template: ShiftTemplate = {
+    id: 'tpl-1',
+    name: 'Tuesday',
+    jobId: job.id,
+    startTime: '09:00',
+    endTime: '13:00',
+    notes: '',
+    recurrence: { weekdays: [2], startDate: '2025-03-04' },
+  };
+  const log: WorkLog = { id: 'abc', jobId: job.id, date: '2025-03-05', startTime: '09:00', endTime: '13:00', duration: 4, notes: '', timestamp: 0 };
+
+  const exportLines = (logs: WorkLog[]) => eventLines(buildShiftCalendar(logs, [template], [job], settings, '2025-03-03', '2025-03-09'));
+
+  it('bumps the sequence of an edited shift', () => {
+    const [, original] = exportLines([log]);
+    const [, edited] = exportLines([{ ...log, duration: 5, sequence: 1, updatedAt: Date.UTC(2025, 2, 6) }]);
+    expect(original).toContain('UID:log-abc@paylevel-up');
+    expect(original).toContain('SEQUENCE:0');
+    expect(edited).toContain('UID:log-abc@paylevel-up');
+    expect(edited).toContain('SEQUENCE:1');
+    expect(edited).toContain('LAST-MODIFIED:20250306T000000Z');
+  });
+
+  it('keeps the planned UID and raises the sequence when a recurring shift is confirmed', () => {
+    const [planned] = exportLines([]);
+    const confirmed = { ...log, id: 'def', date: '2025-03-04', templateId: template.id, occurrenceDate: '2025-03-04' };
+    const [worked] = exportLines([confirmed]);
+    expect(planned).toContain('UID:shift-tpl-1-2025-03-04@paylevel-up');
+    expect(planned).toContain('SEQUENCE:0');
+    expect(worked).toContain('UID:shift-tpl-1-2025-03-04@paylevel-up');
+    expect(worked).toContain('SEQUENCE:1');
+  });
+});
@@ -0,0 +1,141 @@
+// iCalendar (.ics) reading and writing. Only what rosters and shift exports
+// need: VEVENTs with start/end, summary and description.
+
+export interface IcsEvent {
+  uid?: string;
+  summary: string;
+  description: string;
+  start: Date;
+  end: Date;
+  allDay: boolean;
+}
+
+const unescapeText = (value: string): string => {
+  return value.replace(/\\n/gi, '\n').replace(/\\([,;\\])/g, '$1');
+};
+
+// 20261020T153000Z (UTC), 20261020T153000 (floating/TZID, read as local) or 20261020 (all-day)
+const parseIcsDate = (value: string): { date: Date; allDay: boolean } | null => {
+  const m = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/.exec(value.trim());
+  if (!m) return null;
+  const [, y, mo, d, h, mi, s, utc] = m;
+  if (h === undefined) return { date: new Date(+y, +mo - 1, +d), allDay: true };
+  const date = utc
+    ? new Date(Date.UTC(+y, +mo - 1, +d, +h, +mi, +(s || 0)))
+    : new Date(+y, +mo - 1, +d, +h, +mi, +(s || 0));
+  return { date, allDay: false };
+};
+
+export const parseIcs = (text: string): IcsEvent[] => {
+  // Long lines are folded onto continuation lines starting with a space or tab
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const events: IcsEvent[] = [];
+  let current: Record<string, string> | null = null;
+
+  lines.forEach(line => {
+    if (line === 'BEGIN:VEVENT') { current = {}; return; }
+    if (line === 'END:VEVENT') {
+      const props = current;
+      current = null;
+      if (!props) return;
+      const start = props.DTSTART ? parseIcsDate(props.DTSTART) : null;
+      const end = props.DTEND ? parseIcsDate(props.DTEND) : null;
+      if (!start) return;
+      events.push({
+        uid: props.UID,
+        summary: unescapeText(props.SUMMARY || ''),
+        description: unescapeText(props.DESCRIPTION || ''),
+        start: start.date,
+        end: end ? end.date : start.date,
+        allDay: start.allDay,
+      });
+      return;
+    }
+    if (!current) return;
+    const colon = line.indexOf(':');
+    if (colon < 0) return;
+    const name = line.slice(0, colon).split(';')[0].toUpperCase();
+    current[name] = line.slice(colon + 1);
+  });
+
+  return events;
+};
+
+export interface IcsExportEvent {
+  uid: string;          // Stable across exports so calendar apps update instead of duplicating
+  summary: string;
+  description: string;
+  start: string;        // YYYY-MM-DD, plus HH:mm unless all-day
+  startTime?: string;
+  end: string;
+  endTime?: string;
+  categories?: string[];
+  color?: string;       // CSS colour name (RFC 7986)
+  status?: 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED';
+  sequence?: number;    // Bumped on each change so calendar apps replace their copy
+  lastModified?: number;
+}
+
+const escapeText = (value: string): string => {
+  return value.replace(/\\/g, '\\\\').replace(/([,;])/g, '\\$1').replace(/\r?\n/g, '\\n');
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const formatUtc = (timestamp: number): string => {
+  const d = new Date(timestamp);
+  return `${d.getUTCFullYear()}${pad(d.getUTCMonth() + 1)}${pad(d.getUTCDate())}T${pad(d.getUTCHours())}${pad(d.getUTCMinutes())}${pad(d.getUTCSeconds())}Z`;
+};
+
+// Lines longer than 75 octets are folded onto continuation lines
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let size = 0;
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    if (size + bytes > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+      size = 0;
+    }
+    current += char;
+    size += bytes;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+// Shift times are written as floating local times (no TZID), matching how
+// logs are stored
+export const buildIcs = (events: IcsExportEvent[], calendarName: string, now = Date.now()): string => {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//PayLevel Up//Shifts//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+  ];
+  events.forEach(event => {
+    const date = (d: string) => d.replace(/-/g, '');
+    const dateTime = (d: string, t: string) => `${date(d)}T${t.replace(':', '')}00`;
+    lines.push('BEGIN:VEVENT', `UID:${event.uid}`, `DTSTAMP:${formatUtc(now)}`);
+    if (event.startTime && event.endTime) {
+      lines.push(`DTSTART:${dateTime(event.start, event.startTime)}`, `DTEND:${dateTime(event.end, event.endTime)}`);
+    } else {
+      lines.push(`DTSTART;VALUE=DATE:${date(event.start)}`, `DTEND;VALUE=DATE:${date(event.end)}`);
+    }
+    lines.push(`SUMMARY:${escapeText(event.summary)}`);
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    if (event.categories?.length) lines.push(`CATEGORIES:${event.categories.map(escapeText).join(',')}`);
+    if (event.color) lines.push(`COLOR:${event.color}`);
+    if (event.status) lines.push(`STATUS:${event.status}`);
+    if (event.sequence !== undefined) lines.push(`SEQUENCE:${event.sequence}`);
+    if (event.lastModified) lines.push(`LAST-MODIFIED:${formatUtc(event.lastModified)}`);
+    lines.push('END:VEVENT');
+  });
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
@@ -0,0 +1,136 @@
+import { AppState } from "../types";
+import { StorageAdapter, StorageChanges, StoredState, StateMeta, StorageConflictError, LEGACY_STORAGE_KEY, createChangeNotifier } from "./storage";
+
+// IndexedDB adapter: one object store per record set plus a meta store, all
+// written in a single transaction per save. The transaction is the journal:
+// it commits completely or not at all, so a crash mid-save leaves the
+// previous save intact. The revision check happens inside the same
+// transaction. Data from the old localStorage blob is moved over on first load.
+
+const DB_NAME = 'paylevel-up';
+// Version 2 added the payslips store
+const DB_VERSION = 2;
+const RECORD_STORES = ['logs', 'jobs', 'templates', 'payslips'] as const;
+const META_STORE = 'meta';
+const META_KEY = 'state';
+const REVISION_KEY = 'revision';
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+// `onClose` runs when the connection goes away (another tab upgrading, or the
+// browser closing it) so the next call opens a fresh one
+const openDatabase = (onClose: () => void): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    RECORD_STORES.forEach(name => {
+      if (!db.objectStoreNames.contains(name)) db.createObjectStore(name, { keyPath: 'id' });
+    });
+    if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE);
+  };
+  request.onsuccess = () => {
+    const db = request.result;
+    // Let a newer version open in another tab instead of blocking it
+    db.onversionchange = () => {
+      db.close();
+      onClose();
+    };
+    db.onclose = onClose;
+    resolve(db);
+  };
+  request.onerror = () => reject(request.error);
+  request.onblocked = () => reject(new Error('Database upgrade blocked by another tab'));
+});
+
+const writeChanges = (db: IDBDatabase, changes: StorageChanges, expectedRevision: number | null): Promise<number> => new Promise((resolve, reject) => {
+  const tx = db.transaction([...RECORD_STORES, META_STORE], 'readwrite');
+  const metaStore = tx.objectStore(META_STORE);
+  let revision = 0;
+  let conflict = false;
+
+  const revisionRequest = metaStore.get(REVISION_KEY) as IDBRequest<number | undefined>;
+  revisionRequest.onsuccess = () => {
+    const current = revisionRequest.result || 0;
+    if (expectedRevision !== null && current !== expectedRevision) {
+      conflict = true;
+      tx.abort();
+      return;
+    }
+    revision = current + 1;
+    RECORD_STORES.forEach(name => {
+      const store = tx.objectStore(name);
+      if (changes.replace) store.clear();
+      changes[name].delete.forEach(id => store.delete(id));
+      changes[name].put.forEach(record => store.put(record));
+    });
+    if (changes.meta) metaStore.put(changes.meta, META_KEY);
+    metaStore.put(revision, REVISION_KEY);
+  };
+
+  // Quota errors surface here, once the transaction fails to commit
+  tx.oncomplete = () => resolve(revision);
+  tx.onabort = () => reject(conflict ? new StorageConflictError() : tx.error || new Error('Transaction aborted'));
+});
+
+const readState = async (db: IDBDatabase): Promise<StoredState | null> => {
+  const tx = db.transaction([...RECORD_STORES, META_STORE], 'readonly');
+  const [logs, jobs, templates, payslips, meta, revision] = await Promise.all([
+    promisify(tx.objectStore('logs').getAll()),
+    promisify(tx.objectStore('jobs').getAll()),
+    promisify(tx.objectStore('templates').getAll()),
+    promisify(tx.objectStore('payslips').getAll()),
+    promisify(tx.objectStore(META_STORE).get(META_KEY) as IDBRequest<StateMeta | undefined>),
+    promisify(tx.objectStore(META_STORE).get(REVISION_KEY) as IDBRequest<number | undefined>),
+  ]);
+  if (!meta) return null;
+  return { state: { ...meta, logs, jobs, templates, payslips }, revision: revision || 0 };
+};
+
+// Copy the old localStorage blob into IndexedDB, removing it only once the
+// write has committed
+const migrateFromLocalStorage = async (db: IDBDatabase): Promise<StoredState | null> => {
+  const saved = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!saved) return null;
+  // `revision` is only present if the localStorage adapter wrote the blob
+  const { logs = [], jobs = [], templates = [], payslips = [], revision: _, ...meta } = JSON.parse(saved) as AppState & { revision?: number };
+  const revision = await writeChanges(db, {
+    replace: true,
+    logs: { put: logs, delete: [] },
+    jobs: { put: jobs, delete: [] },
+    templates: { put: templates, delete: [] },
+    payslips: { put: payslips, delete: [] },
+    meta,
+  }, null);
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+  return { state: { ...meta, logs, jobs, templates, payslips }, revision };
+};
+
+export const isIndexedDbAvailable = (): boolean => typeof indexedDB !== 'undefined';
+
+export const createIndexedDbStorage = (): StorageAdapter => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  const reset = () => { dbPromise = null; };
+  // A failed open isn't cached, so the next load/save retries it
+  const getDb = () => (dbPromise ??= openDatabase(reset).catch(error => {
+    reset();
+    throw error;
+  }));
+  const notifier = createChangeNotifier(DB_NAME);
+
+  return {
+    name: 'indexedDB',
+    load: async () => {
+      const db = await getDb();
+      return (await readState(db)) || migrateFromLocalStorage(db);
+    },
+    save: async (changes, expectedRevision) => {
+      const revision = await writeChanges(await getDb(), changes, expectedRevision);
+      notifier.notify(revision);
+      return revision;
+    },
+    subscribe: notifier.subscribe,
+  };
+};
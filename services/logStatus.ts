@@ -0,0 +1,19 @@
+import { WorkLog, LogStatus } from "../types";
+
+// Logs without a status predate planned shifts and are treated as worked.
+
+export const LOG_STATUSES: { value: LogStatus; label: string; className: string }[] = [
+  { value: 'worked', label: '已工作', className: 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300' },
+  { value: 'planned', label: '計劃', className: 'bg-emerald-50 text-emerald-700 border border-dashed border-emerald-300 dark:bg-emerald-900/30 dark:text-emerald-300' },
+  { value: 'cancelled', label: '已取消', className: 'bg-gray-100 text-gray-400 line-through dark:bg-gray-700' },
+  { value: 'sick', label: '病假', className: 'bg-rose-50 text-rose-600 dark:bg-rose-900/30 dark:text-rose-300' },
+];
+
+export const getLogStatus = (log: WorkLog): LogStatus => log.status || 'worked';
+
+export const isWorkedLog = (log: WorkLog): boolean => getLogStatus(log) === 'worked';
+
+// Shifts that were on the roster: imported ones and recurring-template shifts
+export const isRosteredLog = (log: WorkLog): boolean => !!log.rostered || !!log.templateId;
+
+export const getStatusMeta = (status: LogStatus) => LOG_STATUSES.find(s => s.value === status) || LOG_STATUSES[0];
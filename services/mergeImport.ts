@@ -0,0 +1,177 @@
+import { AppState, WorkLog, Job, ShiftTemplate, Payslip, UserSettings } from "../types";
+import { getLogKey } from "./csvImport";
+
+// Merging a backup into the current data instead of overwriting it. Records
+// are matched by id; logs are also matched by job+date+start/end so the same
+// shift entered on two devices shows up as a conflict rather than twice.
+// Jobs with the same name are treated as the same job; if their settings
+// differ the pair is a conflict.
+
+export type MergeCategory = 'new' | 'changed' | 'conflict' | 'deleted';
+export type MergeChoice = 'incoming' | 'local';
+
+export type MergeItem = { key: string; category: MergeCategory } & (
+  | { kind: 'log'; local?: WorkLog; incoming?: WorkLog }
+  | { kind: 'job'; local?: Job; incoming?: Job }
+  | { kind: 'template'; local?: ShiftTemplate; incoming?: ShiftTemplate }
+  | { kind: 'payslip'; local?: Payslip; incoming?: Payslip }
+);
+
+export interface MergePlan {
+  items: MergeItem[];
+  jobIdMap: Record<string, string>; // Incoming job id -> local job id (matched by name)
+  unchanged: number;
+}
+
+export const MERGE_CATEGORIES: { value: MergeCategory; label: string; hint: string; defaultChoice: MergeChoice }[] = [
+  { value: 'new', label: '新增', hint: '只存在於匯入檔案', defaultChoice: 'incoming' },
+  { value: 'changed', label: '已修改', hint: '同一紀錄，內容不同', defaultChoice: 'incoming' },
+  { value: 'conflict', label: '可能重複', hint: '同名但設定不同的工作，或同工作、同日、同時間的另一筆紀錄', defaultChoice: 'local' },
+  { value: 'deleted', label: '匯入檔案沒有', hint: '只存在於本機；選擇匯入會刪除', defaultChoice: 'local' },
+];
+
+// Key order and undefined fields don't count as differences
+const stableStringify = (value: unknown): string => JSON.stringify(value, (_, v) => {
+  if (v && typeof v === 'object' && !Array.isArray(v)) {
+    return Object.keys(v).sort().reduce<Record<string, unknown>>((sorted, k) => {
+      if (v[k] !== undefined) sorted[k] = v[k];
+      return sorted;
+    }, {});
+  }
+  return v;
+});
+
+const sameRecord = (a: unknown, b: unknown) => stableStringify(a) === stableStringify(b);
+
+export const planMerge = (local: Pick<AppState, 'logs' | 'jobs' | 'templates' | 'payslips'>, incoming: Pick<AppState, 'logs' | 'jobs' | 'templates' | 'payslips'>): MergePlan => {
+  const items: MergeItem[] = [];
+  let unchanged = 0;
+
+  // Jobs
+  const jobIdMap: Record<string, string> = {};
+  const matchedJobs = new Set<string>();
+  (incoming.jobs || []).forEach(job => {
+    const byId = local.jobs.find(j => j.id === job.id);
+    const byName = byId ? undefined : local.jobs.find(j => !matchedJobs.has(j.id) && j.name.toLowerCase() === job.name.toLowerCase());
+    if (byId) matchedJobs.add(byId.id);
+    if (byName) {
+      matchedJobs.add(byName.id);
+      jobIdMap[job.id] = byName.id;
+      // Compared (and, if chosen, applied) under the local id
+      const renamed = { ...job, id: byName.id };
+      if (sameRecord(byName, renamed)) unchanged++;
+      else items.push({ key: `job:${job.id}`, kind: 'job', category: 'conflict', local: byName, incoming: renamed });
+    } else if (!byId) {
+      items.push({ key: `job:${job.id}`, kind: 'job', category: 'new', incoming: job });
+    } else if (sameRecord(byId, job)) {
+      unchanged++;
+    } else {
+      items.push({ key: `job:${job.id}`, kind: 'job', category: 'changed', local: byId, incoming: job });
+    }
+  });
+  local.jobs.filter(j => !matchedJobs.has(j.id)).forEach(j => {
+    items.push({ key: `job:${j.id}`, kind: 'job', category: 'deleted', local: j });
+  });
+  // Logs from old backups may not carry a job at all
+  const fallbackJobId = local.jobs[0]?.id || '';
+  const knownJobIds = new Set([...local.jobs, ...(incoming.jobs || [])].map(j => j.id));
+  const remapJob = (jobId: string) => jobIdMap[jobId] || (knownJobIds.has(jobId) ? jobId : fallbackJobId);
+
+  // Logs
+  const localLogsById = new Map(local.logs.map(l => [l.id, l]));
+  const localLogsByKey = new Map(local.logs.map(l => [getLogKey(l), l]));
+  const matchedLocal = new Set<string>();
+  (incoming.logs || []).forEach(raw => {
+    const log = { ...raw, jobId: remapJob(raw.jobId) };
+    const byId = localLogsById.get(log.id);
+    if (byId) {
+      matchedLocal.add(byId.id);
+      if (sameRecord(byId, log)) unchanged++;
+      else items.push({ key: `log:${log.id}`, kind: 'log', category: 'changed', local: byId, incoming: log });
+      return;
+    }
+    const duplicate = localLogsByKey.get(getLogKey(log));
+    if (duplicate && !matchedLocal.has(duplicate.id)) {
+      matchedLocal.add(duplicate.id);
+      items.push({ key: `log:${log.id}`, kind: 'log', category: 'conflict', local: duplicate, incoming: log });
+      return;
+    }
+    items.push({ key: `log:${log.id}`, kind: 'log', category: 'new', incoming: log });
+  });
+  local.logs.filter(l => !matchedLocal.has(l.id)).forEach(l => {
+    items.push({ key: `log:${l.id}`, kind: 'log', category: 'deleted', local: l });
+  });
+
+  // Templates
+  const incomingTemplateIds = new Set((incoming.templates || []).map(t => t.id));
+  (incoming.templates || []).forEach(raw => {
+    const template = { ...raw, jobId: remapJob(raw.jobId) };
+    const byId = local.templates.find(t => t.id === template.id);
+    if (!byId) items.push({ key: `template:${template.id}`, kind: 'template', category: 'new', incoming: template });
+    else if (sameRecord(byId, template)) unchanged++;
+    else items.push({ key: `template:${template.id}`, kind: 'template', category: 'changed', local: byId, incoming: template });
+  });
+  local.templates.filter(t => !incomingTemplateIds.has(t.id)).forEach(t => {
+    items.push({ key: `template:${t.id}`, kind: 'template', category: 'deleted', local: t });
+  });
+
+  // Payslips
+  const incomingPayslipIds = new Set((incoming.payslips || []).map(p => p.id));
+  (incoming.payslips || []).forEach(raw => {
+    const payslip = { ...raw, jobId: remapJob(raw.jobId) };
+    const byId = local.payslips.find(p => p.id === payslip.id);
+    if (!byId) items.push({ key: `payslip:${payslip.id}`, kind: 'payslip', category: 'new', incoming: payslip });
+    else if (sameRecord(byId, payslip)) unchanged++;
+    else items.push({ key: `payslip:${payslip.id}`, kind: 'payslip', category: 'changed', local: byId, incoming: payslip });
+  });
+  local.payslips.filter(p => !incomingPayslipIds.has(p.id)).forEach(p => {
+    items.push({ key: `payslip:${p.id}`, kind: 'payslip', category: 'deleted', local: p });
+  });
+
+  return { items, jobIdMap, unchanged };
+};
+
+export const getDefaultChoices = (plan: MergePlan): Record<string, MergeChoice> => {
+  return plan.items.reduce<Record<string, MergeChoice>>((choices, item) => {
+    choices[item.key] = MERGE_CATEGORIES.find(c => c.value === item.category)!.defaultChoice;
+    return choices;
+  }, {});
+};
+
+// Replace or drop `local`, add `incoming`, depending on the choice
+const applyItem = <T extends { id: string }>(records: T[], local: T | undefined, incoming: T | undefined): T[] => {
+  if (local && incoming) return records.map(r => r.id === local.id ? incoming : r);
+  if (local) return records.filter(r => r.id !== local.id);
+  return incoming ? [...records, incoming] : records;
+};
+
+export const applyMerge = (
+  local: Pick<AppState, 'logs' | 'jobs' | 'templates' | 'payslips' | 'settings'>,
+  plan: MergePlan,
+  choices: Record<string, MergeChoice>,
+  incomingSettings?: UserSettings,
+): Pick<AppState, 'logs' | 'jobs' | 'templates' | 'payslips' | 'settings'> => {
+  let { logs, jobs, templates, payslips } = local;
+  plan.items.filter(item => choices[item.key] === 'incoming').forEach(item => {
+    if (item.kind === 'log') logs = applyItem(logs, item.local, item.incoming);
+    if (item.kind === 'job') jobs = applyItem(jobs, item.local, item.incoming);
+    if (item.kind === 'template') templates = applyItem(templates, item.local, item.incoming);
+    if (item.kind === 'payslip') payslips = applyItem(payslips, item.local, item.incoming);
+  });
+
+  // Jobs that the resulting logs, templates or payslips still point at are
+  // always kept: new ones are added, deleted ones are not removed
+  const jobIds = new Set(jobs.map(j => j.id));
+  plan.items.forEach(item => {
+    if (item.kind !== 'job') return;
+    const job = item.category === 'new' ? item.incoming : item.category === 'deleted' ? item.local : undefined;
+    if (!job || jobIds.has(job.id)) return;
+    const needed = logs.some(l => l.jobId === job.id) || templates.some(t => t.jobId === job.id) || payslips.some(p => p.jobId === job.id);
+    if (needed) {
+      jobs = [...jobs, job];
+      jobIds.add(job.id);
+    }
+  });
+
+  return { logs, jobs, templates, payslips, settings: incomingSettings ? { ...local.settings, ...incomingSettings } : local.settings };
+};
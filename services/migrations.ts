@@ -0,0 +1,89 @@
+import { AppState, Job, UserSettings, DEFAULT_SETTINGS, DEFAULT_JOB } from "../types";
+
+// Ordered schema migrations shared by localStorage load and backup import.
+// Data saved before versioning has no schemaVersion and runs every step, so
+// steps must leave already-current data alone.
+
+interface Migration {
+  version: number;
+  description: string;
+  migrate: (state: AppState) => AppState;
+}
+
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Fill in missing lists and default settings',
+    migrate: state => ({
+      ...state,
+      logs: Array.isArray(state.logs) ? state.logs : [],
+      jobs: Array.isArray(state.jobs) ? state.jobs : [],
+      templates: Array.isArray(state.templates) ? state.templates : [],
+      settings: { ...DEFAULT_SETTINGS, ...state.settings },
+    }),
+  },
+  {
+    version: 2,
+    description: 'Move single-job pay settings onto a Main Job',
+    migrate: state => {
+      if (state.jobs.length > 0) return state;
+      const old: UserSettings = state.settings;
+      const mainJob: Job = {
+        ...DEFAULT_JOB,
+        id: crypto.randomUUID(),
+        name: 'Main Job',
+        hourlyRate: old.hourlyRate || DEFAULT_JOB.hourlyRate,
+        weekendHourlyRate: old.weekendHourlyRate || old.hourlyRate || DEFAULT_JOB.weekendHourlyRate,
+        targetHours: old.targetHours || DEFAULT_JOB.targetHours,
+        nextHourlyRate: old.nextHourlyRate || DEFAULT_JOB.nextHourlyRate,
+        nextWeekendHourlyRate: old.nextWeekendHourlyRate || old.nextHourlyRate || DEFAULT_JOB.nextWeekendHourlyRate,
+      };
+      // With no jobs, every log and template belongs to the one job
+      return {
+        ...state,
+        jobs: [mainJob],
+        logs: state.logs.map(log => ({ ...log, jobId: mainJob.id })),
+        templates: state.templates.map(t => ({ ...t, jobId: mainJob.id })),
+      };
+    },
+  },
+  {
+    version: 3,
+    description: 'Add saved payslips',
+    migrate: state => ({
+      ...state,
+      payslips: Array.isArray(state.payslips) ? state.payslips : [],
+    }),
+  },
+  {
+    version: 4,
+    description: 'Flag negative manual logs (payslip corrections) as corrections',
+    migrate: state => ({
+      ...state,
+      logs: state.logs.map(log => log.duration < 0 && log.startTime === '-' && log.endTime === '-' && !log.correction
+        ? { ...log, correction: true }
+        : log),
+    }),
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// Bring parsed JSON (saved state or a backup file) up to the current schema
+export const migrateState = (raw: unknown): AppState => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('Invalid file format');
+  }
+  const input = raw as AppState;
+  if (!Array.isArray(input.logs) && !input.settings) {
+    throw new Error('Invalid file format');
+  }
+  const from = typeof input.schemaVersion === 'number' ? input.schemaVersion : 0;
+  if (from > CURRENT_SCHEMA_VERSION) {
+    throw new Error(`Data is from a newer version of the app (schema ${from})`);
+  }
+  const migrated = MIGRATIONS
+    .filter(m => m.version > from)
+    .reduce((state, m) => m.migrate(state), input);
+  return { ...migrated, schemaVersion: CURRENT_SCHEMA_VERSION };
+};
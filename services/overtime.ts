@@ -0,0 +1,93 @@
+import { OvertimeRules, OvertimeTier } from "../types";
+import { parseLocalDate, formatLocalDate } from "./dates";
+
+// Overtime depends on what else was worked that day/week, so shifts for a job
+// are run through a tracker in chronological order.
+
+export const DEFAULT_OVERTIME_RULES: OvertimeRules = {
+  dailyThreshold: 8,
+  weeklyThreshold: 38,
+  tiers: [{ hours: 2, multiplier: 1.5 }, { multiplier: 2 }],
+};
+
+export interface OvertimeTracker {
+  dayOrdinary: Record<string, number>;  // Ordinary hours used per date
+  weekOrdinary: Record<string, number>; // Ordinary hours used per week (keyed by Monday)
+  dayOvertime: Record<string, number>;  // Overtime hours already paid per date (for tiering)
+}
+
+export interface OvertimePortion {
+  tier: number; // Index into rules.tiers
+  hours: number;
+  multiplier: number;
+}
+
+export interface OvertimeAllocation {
+  ordinaryHours: number;
+  overtime: OvertimePortion[];
+}
+
+export const createOvertimeTracker = (): OvertimeTracker => ({ dayOrdinary: {}, weekOrdinary: {}, dayOvertime: {} });
+
+export const hasOvertimeRules = (rules?: OvertimeRules): rules is OvertimeRules => {
+  return !!rules && rules.tiers.length > 0 && (!!rules.dailyThreshold || !!rules.weeklyThreshold);
+};
+
+const weekKey = (date: string): string => {
+  const d = parseLocalDate(date);
+  d.setDate(d.getDate() - ((d.getDay() + 6) % 7));
+  return formatLocalDate(d);
+};
+
+// Spread overtime hours over the tiers, continuing from what was already paid that day
+const splitIntoTiers = (tiers: OvertimeTier[], alreadyPaid: number, hours: number): OvertimePortion[] => {
+  const portions: OvertimePortion[] = [];
+  let tierStart = 0;
+  let remaining = hours;
+  let position = alreadyPaid;
+
+  tiers.forEach((tier, index) => {
+    if (remaining <= 0) return;
+    const isLast = index === tiers.length - 1;
+    const tierEnd = isLast || tier.hours === undefined ? Infinity : tierStart + tier.hours;
+    const take = Math.min(remaining, Math.max(0, tierEnd - position));
+    if (take > 0) {
+      portions.push({ tier: index, hours: take, multiplier: tier.multiplier });
+      remaining -= take;
+      position += take;
+    }
+    tierStart = tierEnd;
+  });
+
+  return portions;
+};
+
+// Record `hours` worked on `date` and work out how many of them are overtime
+export const allocateOvertime = (tracker: OvertimeTracker, rules: OvertimeRules | undefined, date: string, hours: number): OvertimeAllocation => {
+  if (!hasOvertimeRules(rules) || hours <= 0) return { ordinaryHours: hours, overtime: [] };
+
+  const week = weekKey(date);
+  const dayUsed = tracker.dayOrdinary[date] || 0;
+  const weekUsed = tracker.weekOrdinary[week] || 0;
+  const dayLeft = rules.dailyThreshold ? rules.dailyThreshold - dayUsed : Infinity;
+  const weekLeft = rules.weeklyThreshold ? rules.weeklyThreshold - weekUsed : Infinity;
+
+  const ordinaryHours = Math.min(hours, Math.max(0, Math.min(dayLeft, weekLeft)));
+  const overtimeHours = hours - ordinaryHours;
+  const overtime = splitIntoTiers(rules.tiers, tracker.dayOvertime[date] || 0, overtimeHours);
+
+  tracker.dayOrdinary[date] = dayUsed + ordinaryHours;
+  tracker.weekOrdinary[week] = weekUsed + ordinaryHours;
+  tracker.dayOvertime[date] = (tracker.dayOvertime[date] || 0) + overtimeHours;
+
+  return { ordinaryHours, overtime };
+};
+
+export const describeTier = (rules: OvertimeRules, tier: number): string => {
+  const t = rules.tiers[tier];
+  if (!t) return 'OT';
+  const start = rules.tiers.slice(0, tier).reduce((sum, x) => sum + (x.hours || 0), 0);
+  const isLast = tier === rules.tiers.length - 1;
+  const span = isLast || t.hours === undefined ? `${start}h+` : `${start}-${start + t.hours}h`;
+  return `OT ${span} @ ${t.multiplier}x`;
+};
@@ -0,0 +1,104 @@
+import { Job, UserSettings, PayCycle, PayCycleFrequency } from "../types";
+import { parseLocalDate, formatLocalDate, addDays, daysBetween } from "./dates";
+import { TaxPeriod } from "./tax";
+
+// Real pay periods from a job's pay cycle. Weekly and fortnightly periods
+// repeat from an anchor period end date; semi-monthly and monthly ones end on
+// a cut-off day of the month. Jobs without a cycle follow the global pay
+// frequency: fortnights ending on DEFAULT_ANCHOR, or calendar months.
+
+export interface PayPeriod {
+  start: string;  // YYYY-MM-DD
+  end: string;    // YYYY-MM-DD, inclusive
+  payday: string; // YYYY-MM-DD
+}
+
+export const PAY_CYCLE_FREQUENCIES: { value: PayCycleFrequency; label: string }[] = [
+  { value: 'weekly', label: '每週 (Weekly)' },
+  { value: 'fortnightly', label: '每兩週 (Fortnightly)' },
+  { value: 'semimonthly', label: '每半月 (Semi-monthly)' },
+  { value: 'monthly', label: '每月 (Monthly)' },
+];
+
+// A Sunday
+const DEFAULT_ANCHOR = '2024-01-07';
+const MONTH_END = 31;
+const SEMIMONTHLY_CUTOFF = 15;
+
+const WEEKDAYS = ['日', '一', '二', '三', '四', '五', '六'];
+
+export const getPayCycle = (job: Job | undefined, settings: UserSettings): PayCycle => {
+  if (job?.payCycle) return job.payCycle;
+  return settings.payFrequency === 'monthly'
+    ? { frequency: 'monthly', cutoffDay: MONTH_END }
+    : { frequency: 'fortnightly', anchorDate: DEFAULT_ANCHOR };
+};
+
+// Day `day` of a month (0-based, may overflow into the next year), clamped to the month's length
+const dayOfMonth = (year: number, month: number, day: number): string => {
+  const last = new Date(year, month + 1, 0).getDate();
+  return formatLocalDate(new Date(year, month, Math.min(day, last)));
+};
+
+export const getPayPeriod = (cycle: PayCycle, date: string): PayPeriod => {
+  const withPayday = (start: string, end: string): PayPeriod => ({ start, end, payday: addDays(end, cycle.paydayOffsetDays || 0) });
+
+  if (cycle.frequency === 'weekly' || cycle.frequency === 'fortnightly') {
+    const length = cycle.frequency === 'weekly' ? 7 : 14;
+    const anchor = cycle.anchorDate || DEFAULT_ANCHOR;
+    const end = addDays(anchor, Math.ceil(daysBetween(anchor, date) / length) * length);
+    return withPayday(addDays(end, 1 - length), end);
+  }
+
+  const d = parseLocalDate(date);
+  const [year, month] = [d.getFullYear(), d.getMonth()];
+  if (cycle.frequency === 'semimonthly') {
+    const cutoff = cycle.cutoffDay || SEMIMONTHLY_CUTOFF;
+    const firstHalfEnd = dayOfMonth(year, month, cutoff);
+    return date <= firstHalfEnd
+      ? withPayday(dayOfMonth(year, month, 1), firstHalfEnd)
+      : withPayday(addDays(firstHalfEnd, 1), dayOfMonth(year, month, MONTH_END));
+  }
+
+  const cutoff = cycle.cutoffDay || MONTH_END;
+  const thisMonth = dayOfMonth(year, month, cutoff);
+  const [previousEnd, end] = date <= thisMonth
+    ? [dayOfMonth(year, month - 1, cutoff), thisMonth]
+    : [thisMonth, dayOfMonth(year, month + 1, cutoff)];
+  return withPayday(addDays(previousEnd, 1), end);
+};
+
+export const getPreviousPayPeriod = (cycle: PayCycle, period: PayPeriod): PayPeriod => getPayPeriod(cycle, addDays(period.start, -1));
+
+export const getNextPayPeriod = (cycle: PayCycle, period: PayPeriod): PayPeriod => getPayPeriod(cycle, addDays(period.end, 1));
+
+// Most recent first, starting with the period containing `date`
+export const getRecentPayPeriods = (cycle: PayCycle, date: string, count: number): PayPeriod[] => {
+  const periods = [getPayPeriod(cycle, date)];
+  while (periods.length < count) periods.push(getPreviousPayPeriod(cycle, periods[periods.length - 1]));
+  return periods;
+};
+
+// The next payday on or after `today`; with a payday offset it can belong to
+// the period that has just ended
+export const getUpcomingPayday = (cycle: PayCycle, today: string): { period: PayPeriod; payday: string; daysUntil: number } => {
+  const current = getPayPeriod(cycle, today);
+  const previous = getPreviousPayPeriod(cycle, current);
+  const period = previous.payday >= today ? previous : current;
+  return { period, payday: period.payday, daysUntil: daysBetween(today, period.payday) };
+};
+
+export const getCycleTaxPeriod = (cycle: PayCycle): TaxPeriod => cycle.frequency;
+
+export const describePayCycle = (cycle: PayCycle): string => {
+  const label = PAY_CYCLE_FREQUENCIES.find(f => f.value === cycle.frequency)!.label.split(' (')[0];
+  const offset = cycle.paydayOffsetDays ? `，週期結束後 ${cycle.paydayOffsetDays} 天發薪` : '';
+  if (cycle.frequency === 'weekly' || cycle.frequency === 'fortnightly') {
+    return `${label}，週期於星期${WEEKDAYS[parseLocalDate(cycle.anchorDate || DEFAULT_ANCHOR).getDay()]}結束${offset}`;
+  }
+  if (cycle.frequency === 'semimonthly') return `${label}，${cycle.cutoffDay || SEMIMONTHLY_CUTOFF} 號及月底截數${offset}`;
+  const cutoff = cycle.cutoffDay || MONTH_END;
+  return `${label}，${cutoff >= MONTH_END ? '月底' : `${cutoff} 號`}截數${offset}`;
+};
+
+export const formatPayPeriod = (period: PayPeriod): string => `${period.start.slice(5).replace('-', '/')} - ${period.end.slice(5).replace('-', '/')}`;
@@ -0,0 +1,170 @@
+import { describe, it, expect } from 'vitest';
+import { WorkLog, Job, UserSettings } from '../types';
+import { calculateLogPay, calculateLogsPay, summarisePay } from './payEngine';
+import { addRateChange } from './rateHistory';
+import { DEFAULT_OVERTIME_RULES } from './overtime';
+
+// March 2025: the 3rd is a Monday, the 8th/9th are the weekend
+
+const settings: UserSettings = {
+  currency: 'AUD',
+  userName: 'Test',
+  payFrequency: 'biweekly',
+  taxRate: 0,
+  theme: 'light',
+  holidayRegion: 'none',
+};
+
+const job: Job = {
+  id: 'job-1',
+  name: 'Swim School',
+  color: '#3b82f6',
+  hourlyRate: 30,
+  weekendHourlyRate: 45,
+  targetHours: 100,
+  nextHourlyRate: 35,
+  nextWeekendHourlyRate: 50,
+};
+
+const makeLog = (date: string, startTime: string, endTime: string, duration: number, overrides: Partial<WorkLog> = {}): WorkLog => ({
+  id: `${date}-${startTime}`,
+  jobId: job.id,
+  date,
+  startTime,
+  endTime,
+  duration,
+  notes: '',
+  timestamp: 0,
+  ...overrides,
+});
+
+describe('weekday, weekend and holiday rates', () => {
+  it('pays weekdays at the hourly rate', () => {
+    const pay = calculateLogPay(makeLog('2025-03-04', '09:00', '13:00', 4), job, settings);
+    expect(pay.baseHours).toBe(4);
+    expect(pay.penaltyHours).toBe(0);
+    expect(pay.amount).toBe(120);
+  });
+
+  it('pays weekends at the weekend rate', () => {
+    const pay = calculateLogPay(makeLog('2025-03-08', '09:00', '13:00', 4), job, settings);
+    expect(pay.baseHours).toBe(0);
+    expect(pay.penaltyHours).toBe(4);
+    expect(pay.amount).toBe(180);
+  });
+
+  it('pays custom holidays at the weekend rate', () => {
+    const withHoliday = { ...settings, customHolidays: [{ date: '2025-03-05', name: 'Staff Day' }] };
+    const pay = calculateLogPay(makeLog('2025-03-05', '09:00', '13:00', 4), job, withHoliday);
+    expect(pay.lines[0].category).toBe('penalty');
+    expect(pay.amount).toBe(180);
+  });
+
+  it('prices next-level earnings at the next rates', () => {
+    const pay = calculateLogPay(makeLog('2025-03-04', '09:00', '13:00', 4), job, settings, { useNextLevel: true });
+    expect(pay.amount).toBe(140);
+  });
+});
+
+describe('overnight shifts', () => {
+  it('splits a Friday night shift at midnight into weekday and weekend hours', () => {
+    const pay = calculateLogPay(makeLog('2025-03-07', '22:00', '02:00', 4), job, settings);
+    expect(pay.lines.map(l => [l.date, l.category, l.hours])).toEqual([
+      ['2025-03-07', 'base', 2],
+      ['2025-03-08', 'penalty', 2],
+    ]);
+    expect(pay.amount).toBe(2 * 30 + 2 * 45);
+  });
+
+  it('allocates paid hours pro rata when the shift has a break', () => {
+    const pay = calculateLogPay(makeLog('2025-03-07', '20:00', '04:00', 7, { breakMinutes: 60 }), job, settings);
+    expect(pay.baseHours).toBeCloseTo(3.5);
+    expect(pay.penaltyHours).toBeCloseTo(3.5);
+  });
+});
+
+describe('rate periods', () => {
+  const raised = addRateChange(job, '2025-03-05', { hourlyRate: 35, weekendHourlyRate: 50 });
+
+  it('uses the old rate before the effective date', () => {
+    expect(calculateLogPay(makeLog('2025-03-04', '09:00', '13:00', 4), raised, settings).amount).toBe(120);
+  });
+
+  it('uses the new rate from the effective date', () => {
+    expect(calculateLogPay(makeLog('2025-03-05', '09:00', '13:00', 4), raised, settings).amount).toBe(140);
+  });
+
+  it('uses the rate in force on each day of an overnight shift', () => {
+    const pay = calculateLogPay(makeLog('2025-03-04', '22:00', '02:00', 4), raised, settings);
+    expect(pay.lines.map(l => l.rate)).toEqual([30, 35]);
+  });
+});
+
+describe('penalty bands', () => {
+  const withBands: Job = {
+    ...job,
+    penaltyBands: [
+      { name: 'Evening', startTime: '19:00', endTime: '00:00', loadingPercent: 15 },
+      { name: 'Night', startTime: '00:00', endTime: '06:00', rate: 40 },
+    ],
+  };
+
+  it('applies a loading to hours inside the band', () => {
+    const pay = calculateLogPay(makeLog('2025-03-04', '17:00', '21:00', 4), withBands, settings);
+    expect(pay.lines.map(l => [l.band, l.hours, l.rate])).toEqual([
+      [undefined, 2, 30],
+      ['Evening', 2, 34.5],
+    ]);
+    expect(pay.amount).toBeCloseTo(2 * 30 + 2 * 34.5);
+  });
+
+  it('loads the weekend rate on penalty days', () => {
+    const pay = calculateLogPay(makeLog('2025-03-08', '19:00', '21:00', 2), withBands, settings);
+    expect(pay.lines[0].rate).toBeCloseTo(45 * 1.15);
+  });
+
+  it('never pays a flat band below the day rate', () => {
+    const pay = calculateLogPay(makeLog('2025-03-09', '00:00', '02:00', 2), withBands, settings);
+    expect(pay.lines[0].band).toBeUndefined();
+    expect(pay.lines[0].rate).toBe(45);
+  });
+});
+
+describe('overtime tiers', () => {
+  const withOvertime: Job = { ...job, overtime: DEFAULT_OVERTIME_RULES };
+
+  it('pays hours past the daily threshold through each tier', () => {
+    const pay = calculateLogPay(makeLog('2025-03-04', '08:00', '20:00', 12), withOvertime, settings);
+    expect(pay.lines.map(l => [l.category, l.hours, l.rate, l.tier])).toEqual([
+      ['base', 8, 30, undefined],
+      ['overtime', 2, 45, 0],
+      ['overtime', 2, 60, 1],
+    ]);
+    expect(pay.overtimeHours).toBe(4);
+    expect(pay.amount).toBe(8 * 30 + 2 * 45 + 2 * 60);
+  });
+
+  it('counts earlier shifts towards the weekly threshold', () => {
+    const week = ['2025-03-03', '2025-03-04', '2025-03-05', '2025-03-06', '2025-03-07']
+      .map(date => makeLog(date, '09:00', '17:00', 8));
+    const pays = calculateLogsPay(week, [withOvertime], settings);
+    expect(pays.slice(0, 4).every(p => p.overtimeHours === 0)).toBe(true);
+    expect(pays[4].baseHours).toBe(6);
+    expect(pays[4].overtimeHours).toBe(2);
+    expect(summarisePay(pays).amount).toBe(38 * 30 + 2 * 45);
+  });
+
+  it('keeps the weekend rate when it beats the overtime rate', () => {
+    const pay = calculateLogPay(makeLog('2025-03-08', '08:00', '18:00', 10), withOvertime, settings);
+    const overtime = pay.lines.filter(l => l.category === 'overtime');
+    expect(overtime.map(l => l.rate)).toEqual([45]);
+  });
+});
+
+describe('log status', () => {
+  it('skips planned shifts unless asked to include them', () => {
+    const logs = [makeLog('2025-03-04', '09:00', '13:00', 4, { status: 'planned' })];
+    expect(calculateLogsPay(logs, [job], settings)).toEqual([]);
+    expect(calculateLogsPay(logs, [job], settings, { includePlanned: true })[0].amount).toBe(120);
+  });
+});
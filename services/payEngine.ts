@@ -0,0 +1,247 @@
+import { WorkLog, Job, UserSettings, AllowanceUnit } from "../types";
+import { isPenaltyRateDay } from "./holidays";
+import { getRatesForDate } from "./rateHistory";
+import { parseLocalDate, formatLocalDate, parseTimeToMinutes } from "./dates";
+import { OvertimeTracker, createOvertimeTracker, allocateOvertime } from "./overtime";
+import { splitByBands, pickBand } from "./penaltyBands";
+import { isWorkedLog } from "./logStatus";
+import { getLogAllowanceLines, getPeriodAllowanceLines } from "./allowances";
+
+// Single source of truth for turning a WorkLog into money. Every screen
+// (Dashboard, Calendar, Payslip, CSV export, Wrapped) goes through here so
+// the numbers always agree.
+
+export type PayCategory = 'base' | 'penalty' | 'overtime' | 'allowance';
+
+export interface PayLine {
+  category: PayCategory;
+  date: string;   // YYYY-MM-DD the hours are attributed to
+  hours: number;
+  rate: number;   // Rate applied to these hours
+  amount: number;
+  tier?: number;  // Overtime tier index (overtime lines only)
+  band?: string;  // Time-of-day penalty band that set the rate, if any
+  allowance?: { id: string; name: string; unit: AllowanceUnit; quantity: number }; // Allowance lines only (hours 0, rate per unit)
+}
+
+export interface PayBreakdown {
+  logId: string;
+  jobId: string;
+  date: string;
+  lines: PayLine[];
+  baseHours: number;    // Mon-Fri hours
+  penaltyHours: number; // Sat-Sun & Pub Hol hours
+  overtimeHours: number; // Hours past the job's overtime thresholds
+  totalHours: number;
+  amount: number;
+  allowances: number; // Allowance earnings, included in amount
+}
+
+export interface PaySummary {
+  baseHours: number;
+  penaltyHours: number;
+  overtimeHours: number;
+  totalHours: number;
+  amount: number;
+  allowances: number; // Included in amount
+}
+
+export interface PayOptions {
+  useNextLevel?: boolean; // Price at the job's next-level rates ("potential" earnings)
+  includePlanned?: boolean; // Also price planned shifts (projections); otherwise only worked shifts earn
+}
+
+// Part of a shift that falls on one calendar day. Minutes are from that day's
+// midnight; they're null for manual-duration logs (no start/end recorded).
+export interface DaySegment {
+  date: string;
+  startMinute: number | null;
+  endMinute: number | null;
+  hours: number;
+}
+
+export const EMPTY_PAY_SUMMARY: PaySummary = { baseHours: 0, penaltyHours: 0, overtimeHours: 0, totalHours: 0, amount: 0, allowances: 0 };
+
+const buildBreakdown = (log: WorkLog, lines: PayLine[]): PayBreakdown => {
+  const baseHours = lines.filter(l => l.category === 'base').reduce((sum, l) => sum + l.hours, 0);
+  const penaltyHours = lines.filter(l => l.category === 'penalty').reduce((sum, l) => sum + l.hours, 0);
+  const overtimeHours = lines.filter(l => l.category === 'overtime').reduce((sum, l) => sum + l.hours, 0);
+  return {
+    logId: log.id,
+    jobId: log.jobId,
+    date: log.date,
+    lines,
+    baseHours,
+    penaltyHours,
+    overtimeHours,
+    totalHours: baseHours + penaltyHours + overtimeHours,
+    amount: lines.reduce((sum, l) => sum + l.amount, 0),
+    allowances: lines.filter(l => l.category === 'allowance').reduce((sum, l) => sum + l.amount, 0),
+  };
+};
+
+const nextDate = (date: string): string => {
+  const d = parseLocalDate(date);
+  d.setDate(d.getDate() + 1);
+  return formatLocalDate(d);
+};
+
+// Split a shift at midnight. Paid hours (log.duration, breaks already
+// excluded) are allocated pro rata to the time worked on each day.
+export const splitLogByDay = (log: WorkLog): DaySegment[] => {
+  const start = parseTimeToMinutes(log.startTime);
+  const end = parseTimeToMinutes(log.endTime);
+  if (start === null || end === null) {
+    return [{ date: log.date, startMinute: null, endMinute: null, hours: log.duration }];
+  }
+  if (end > start) {
+    return [{ date: log.date, startMinute: start, endMinute: end, hours: log.duration }];
+  }
+
+  // Overnight: start -> midnight on log.date, midnight -> end on the next day
+  const firstMinutes = 24 * 60 - start;
+  const span = firstMinutes + end;
+  const segments: DaySegment[] = [
+    { date: log.date, startMinute: start, endMinute: 24 * 60, hours: span > 0 ? log.duration * firstMinutes / span : log.duration },
+  ];
+  if (end > 0) {
+    segments.push({ date: nextDate(log.date), startMinute: 0, endMinute: end, hours: log.duration * end / span });
+  }
+  return segments;
+};
+
+const priceLog = (log: WorkLog, job: Job, settings: UserSettings, options: PayOptions, tracker: OvertimeTracker): PayBreakdown => {
+  const lines: PayLine[] = [];
+  splitLogByDay(log).forEach(segment => {
+    const isPenalty = isPenaltyRateDay(segment.date, settings);
+    // Historical shifts use the rate in force on the shift date
+    const rates = options.useNextLevel
+      ? { hourlyRate: job.nextHourlyRate, weekendHourlyRate: job.nextWeekendHourlyRate }
+      : getRatesForDate(job, segment.date);
+    const dayRate = isPenalty ? rates.weekendHourlyRate : rates.hourlyRate;
+
+    // Pieces are in time order, so the later hours of a long shift become overtime
+    splitByBands(segment.startMinute, segment.endMinute, segment.hours, job.penaltyBands).forEach(piece => {
+      const { band, rate } = pickBand(piece.bands, dayRate);
+      const { ordinaryHours, overtime } = allocateOvertime(tracker, job.overtime, segment.date, piece.hours);
+
+      if (ordinaryHours > 0 || overtime.length === 0) {
+        lines.push({
+          category: isPenalty ? 'penalty' : 'base',
+          date: segment.date,
+          hours: ordinaryHours,
+          rate,
+          amount: ordinaryHours * rate,
+          band: band?.name,
+        });
+      }
+      overtime.forEach(portion => {
+        // Overtime never pays less than the hour would otherwise earn
+        const otRate = Math.max(rates.hourlyRate * portion.multiplier, rate);
+        lines.push({
+          category: 'overtime',
+          date: segment.date,
+          hours: portion.hours,
+          rate: otRate,
+          amount: portion.hours * otRate,
+          tier: portion.tier,
+        });
+      });
+    });
+  });
+
+  return buildBreakdown(log, [...lines, ...getLogAllowanceLines(log, job)]);
+};
+
+// Prices a single shift on its own; daily overtime within the shift still applies.
+// Per-period allowances need the whole period, so only calculateLogsPay adds them.
+export const calculateLogPay = (log: WorkLog, job: Job, settings: UserSettings, options: PayOptions = {}): PayBreakdown => {
+  return priceLog(log, job, settings, options, createOvertimeTracker());
+};
+
+// Looks up the log's job; logs whose job was deleted earn nothing
+export const getLogPay = (log: WorkLog, jobs: Job[], settings: UserSettings, options: PayOptions = {}): PayBreakdown | null => {
+  const job = jobs.find(j => j.id === log.jobId);
+  if (!job) return null;
+  return calculateLogPay(log, job, settings, options);
+};
+
+// Prices shifts in chronological order per job so daily/weekly overtime sees
+// earlier shifts. Pass every log for a job (not a date-filtered subset) and
+// filter the results instead. Output keeps the input order. Cancelled, sick
+// (and, unless asked, planned) shifts get no breakdown.
+export const calculateLogsPay = (logs: WorkLog[], jobs: Job[], settings: UserSettings, options: PayOptions = {}): PayBreakdown[] => {
+  const trackers: Record<string, OvertimeTracker> = {};
+  const byId: Record<string, PayBreakdown> = {};
+  const pricedByJob: Record<string, WorkLog[]> = {};
+  [...logs]
+    .sort((a, b) => a.date.localeCompare(b.date) || a.startTime.localeCompare(b.startTime))
+    .forEach(log => {
+      const job = jobs.find(j => j.id === log.jobId);
+      if (!job) return;
+      if (!isWorkedLog(log) && !(options.includePlanned && log.status === 'planned')) return;
+      trackers[job.id] = trackers[job.id] || createOvertimeTracker();
+      byId[log.id] = priceLog(log, job, settings, options, trackers[job.id]);
+      (pricedByJob[job.id] = pricedByJob[job.id] || []).push(log);
+    });
+  jobs.forEach(job => {
+    getPeriodAllowanceLines(pricedByJob[job.id] || [], job, settings).forEach(({ log, line }) => {
+      byId[log.id] = buildBreakdown(log, [...byId[log.id].lines, line]);
+    });
+  });
+  return logs.map(log => byId[log.id]).filter((b): b is PayBreakdown => !!b);
+};
+
+export const summarisePay = (breakdowns: PayBreakdown[]): PaySummary => {
+  return breakdowns.reduce((acc, b) => ({
+    baseHours: acc.baseHours + b.baseHours,
+    penaltyHours: acc.penaltyHours + b.penaltyHours,
+    overtimeHours: acc.overtimeHours + b.overtimeHours,
+    totalHours: acc.totalHours + b.totalHours,
+    amount: acc.amount + b.amount,
+    allowances: acc.allowances + b.allowances,
+  }), EMPTY_PAY_SUMMARY);
+};
+
+export const summariseLines = (lines: PayLine[]): PaySummary => {
+  return lines.reduce((acc, l) => ({
+    baseHours: acc.baseHours + (l.category === 'base' ? l.hours : 0),
+    penaltyHours: acc.penaltyHours + (l.category === 'penalty' ? l.hours : 0),
+    overtimeHours: acc.overtimeHours + (l.category === 'overtime' ? l.hours : 0),
+    totalHours: acc.totalHours + l.hours,
+    amount: acc.amount + l.amount,
+    allowances: acc.allowances + (l.category === 'allowance' ? l.amount : 0),
+  }), EMPTY_PAY_SUMMARY);
+};
+
+// Totals for hours actually worked between `from` and `to` (inclusive, YYYY-MM-DD).
+// Overnight shifts count towards the day each part was worked on.
+export const linesInRange = (breakdowns: PayBreakdown[], from: string, to: string): PayLine[] => {
+  return breakdowns.flatMap(b => b.lines).filter(l => l.date >= from && l.date <= to);
+};
+
+export const summarisePayInRange = (breakdowns: PayBreakdown[], from: string, to: string): PaySummary => {
+  return summariseLines(linesInRange(breakdowns, from, to));
+};
+
+// Hours and earnings per time-of-day penalty band
+export const summariseBands = (lines: PayLine[]): Record<string, { hours: number; amount: number }> => {
+  const result: Record<string, { hours: number; amount: number }> = {};
+  lines.filter(l => l.band).forEach(l => {
+    const entry = result[l.band!] = result[l.band!] || { hours: 0, amount: 0 };
+    entry.hours += l.hours;
+    entry.amount += l.amount;
+  });
+  return result;
+};
+
+// Hours and earnings allocated per calendar day
+export const groupLinesByDate = (breakdowns: PayBreakdown[]): Record<string, PaySummary> => {
+  const byDate: Record<string, PayLine[]> = {};
+  breakdowns.forEach(b => b.lines.forEach(l => {
+    (byDate[l.date] = byDate[l.date] || []).push(l);
+  }));
+  const result: Record<string, PaySummary> = {};
+  Object.keys(byDate).forEach(date => { result[date] = summariseLines(byDate[date]); });
+  return result;
+};
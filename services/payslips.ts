@@ -0,0 +1,44 @@
+import { Payslip, PayslipStatus } from "../types";
+
+// Saved payslip checks. A payslip is compared with what the app expected for
+// the period when it was saved; a shortfall stays "unresolved" until the user
+// marks it resolved (e.g. the employer back-paid it).
+
+// Differences within this amount are treated as rounding
+export const PAYSLIP_TOLERANCE = 0.5;
+
+export const PAYSLIP_STATUSES: { value: PayslipStatus; label: string; className: string }[] = [
+  { value: 'matched', label: '相符', className: 'bg-green-50 text-green-700 dark:bg-green-900/30 dark:text-green-300' },
+  { value: 'underpaid', label: '少付', className: 'bg-red-50 text-red-700 dark:bg-red-900/30 dark:text-red-300' },
+  { value: 'overpaid', label: '多付', className: 'bg-yellow-50 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-300' },
+  { value: 'resolved', label: '已解決', className: 'bg-gray-100 text-gray-500 dark:bg-gray-700 dark:text-gray-300' },
+];
+
+export const getPayslipStatusMeta = (status: PayslipStatus) => PAYSLIP_STATUSES.find(s => s.value === status) || PAYSLIP_STATUSES[0];
+
+// Positive when the payslip paid more than expected
+export const getPayslipDifference = (payslip: Payslip): number => payslip.gross - payslip.expectedGross;
+
+// What the employer still owes: missing gross pay plus missing employer contributions
+export const getPayslipShortfall = (payslip: Payslip): number => {
+  const pay = Math.max(0, -getPayslipDifference(payslip));
+  const contribution = payslip.employerContribution !== undefined && payslip.expectedEmployerContribution !== undefined
+    ? Math.max(0, payslip.expectedEmployerContribution - payslip.employerContribution)
+    : 0;
+  const shortfall = pay + contribution;
+  return shortfall > PAYSLIP_TOLERANCE ? shortfall : 0;
+};
+
+// Status from the figures; a resolved payslip stays resolved
+export const getPayslipStatus = (payslip: Payslip, previous?: PayslipStatus): PayslipStatus => {
+  if (getPayslipShortfall(payslip) > 0) return previous === 'resolved' ? 'resolved' : 'underpaid';
+  return getPayslipDifference(payslip) > PAYSLIP_TOLERANCE ? 'overpaid' : 'matched';
+};
+
+export const getUnresolvedUnderpayment = (payslips: Payslip[]): number => {
+  return payslips.filter(p => p.status === 'underpaid').reduce((sum, p) => sum + getPayslipShortfall(p), 0);
+};
+
+export const sortPayslips = (payslips: Payslip[]): Payslip[] => {
+  return [...payslips].sort((a, b) => b.periodEnd.localeCompare(a.periodEnd) || b.timestamp - a.timestamp);
+};
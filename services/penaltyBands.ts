@@ -0,0 +1,75 @@
+import { PenaltyBand } from "../types";
+import { parseTimeToMinutes } from "./dates";
+
+// Time-of-day loadings (e.g. before 7am / after 7pm). A day segment of a shift
+// is cut wherever a band starts or ends; each piece keeps its share of the
+// segment's paid hours.
+
+export interface BandPiece {
+  startMinute: number | null;
+  endMinute: number | null;
+  hours: number;
+  bands: PenaltyBand[]; // Bands covering this piece (usually zero or one)
+}
+
+const DAY_MINUTES = 24 * 60;
+
+// A band as [start, end) ranges within a single day
+const bandRanges = (band: PenaltyBand): [number, number][] => {
+  const start = parseTimeToMinutes(band.startTime);
+  const end = parseTimeToMinutes(band.endTime);
+  if (start === null || end === null || start === end) return [];
+  return start < end ? [[start, end]] : [[start, DAY_MINUTES], [0, end]];
+};
+
+const coversMinute = (band: PenaltyBand, minute: number): boolean => {
+  return bandRanges(band).some(([from, to]) => minute >= from && minute < to);
+};
+
+export const splitByBands = (startMinute: number | null, endMinute: number | null, hours: number, bands: PenaltyBand[] = []): BandPiece[] => {
+  if (startMinute === null || endMinute === null || bands.length === 0 || endMinute <= startMinute) {
+    return [{ startMinute, endMinute, hours, bands: [] }];
+  }
+
+  const cuts = new Set<number>([startMinute, endMinute]);
+  bands.forEach(band => bandRanges(band).forEach(([from, to]) => {
+    if (from > startMinute && from < endMinute) cuts.add(from);
+    if (to > startMinute && to < endMinute) cuts.add(to);
+  }));
+  const points = [...cuts].sort((a, b) => a - b);
+  const span = endMinute - startMinute;
+
+  const pieces: BandPiece[] = [];
+  for (let i = 0; i < points.length - 1; i++) {
+    const from = points[i];
+    const to = points[i + 1];
+    const covering = bands.filter(band => coversMinute(band, from));
+    const last = pieces[pieces.length - 1];
+    // Merge neighbours with the same bands so lines stay readable
+    if (last && last.bands.length === covering.length && last.bands.every(b => covering.includes(b))) {
+      last.endMinute = to;
+      last.hours += hours * (to - from) / span;
+    } else {
+      pieces.push({ startMinute: from, endMinute: to, hours: hours * (to - from) / span, bands: covering });
+    }
+  }
+  return pieces;
+};
+
+export const getBandRate = (band: PenaltyBand, dayRate: number): number => {
+  if (band.rate !== undefined) return band.rate;
+  return dayRate * (1 + (band.loadingPercent || 0) / 100);
+};
+
+// Highest-paying band for a piece; the day's own rate wins if it's higher
+export const pickBand = (bands: PenaltyBand[], dayRate: number): { band?: PenaltyBand; rate: number } => {
+  return bands.reduce<{ band?: PenaltyBand; rate: number }>((best, band) => {
+    const rate = getBandRate(band, dayRate);
+    return rate > best.rate ? { band, rate } : best;
+  }, { rate: dayRate });
+};
+
+export const describeBand = (band: PenaltyBand): string => {
+  const pay = band.rate !== undefined ? `${band.rate}/h` : `+${band.loadingPercent || 0}%`;
+  return `${band.name} ${band.startTime}-${band.endTime} (${pay})`;
+};
@@ -0,0 +1,60 @@
+import { Job, RatePeriod } from "../types";
+
+// Effective-dated rates. A job without `ratePeriods` pays its top-level rates
+// on every date (legacy behaviour). Once a rate change is recorded, each shift
+// is priced at the period in force on its date, so level-ups never reprice
+// old shifts.
+
+// Baseline date for the period seeded from a job's original rates; shifts
+// before the first recorded change always fall back to the first period.
+export const INITIAL_PERIOD_DATE = '1970-01-01';
+
+export interface Rates {
+  hourlyRate: number;
+  weekendHourlyRate: number;
+}
+
+const sortPeriods = (periods: RatePeriod[]): RatePeriod[] =>
+  [...periods].sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom));
+
+export const getRatePeriods = (job: Job): RatePeriod[] => {
+  if (job.ratePeriods && job.ratePeriods.length > 0) return sortPeriods(job.ratePeriods);
+  return [{ effectiveFrom: INITIAL_PERIOD_DATE, hourlyRate: job.hourlyRate, weekendHourlyRate: job.weekendHourlyRate }];
+};
+
+export const getRatesForDate = (job: Job, date: string): Rates => {
+  if (!job.ratePeriods || job.ratePeriods.length === 0) {
+    return { hourlyRate: job.hourlyRate, weekendHourlyRate: job.weekendHourlyRate };
+  }
+  const periods = sortPeriods(job.ratePeriods);
+  let active = periods[0];
+  for (const p of periods) {
+    if (p.effectiveFrom <= date) active = p;
+    else break;
+  }
+  return { hourlyRate: active.hourlyRate, weekendHourlyRate: active.weekendHourlyRate };
+};
+
+// Replace the timeline and keep the top-level (current) rates in sync with the latest period
+export const withRatePeriods = (job: Job, periods: RatePeriod[]): Job => {
+  if (periods.length === 0) return { ...job, ratePeriods: undefined };
+  const sorted = sortPeriods(periods);
+  const latest = sorted[sorted.length - 1];
+  return { ...job, ratePeriods: sorted, hourlyRate: latest.hourlyRate, weekendHourlyRate: latest.weekendHourlyRate };
+};
+
+// Record a rate change from `effectiveFrom` onwards (e.g. a level-up). A change
+// on the same date as an existing period replaces it.
+export const addRateChange = (job: Job, effectiveFrom: string, rates: Rates): Job => {
+  const periods = getRatePeriods(job).filter(p => p.effectiveFrom !== effectiveFrom);
+  return withRatePeriods(job, [...periods, { effectiveFrom, ...rates }]);
+};
+
+// Correct the current rates in place (no new period); used by the rate inputs
+// and the pay scale assistant.
+export const setCurrentRates = (job: Job, rates: Partial<Rates>): Job => {
+  if (!job.ratePeriods || job.ratePeriods.length === 0) return { ...job, ...rates };
+  const periods = sortPeriods(job.ratePeriods);
+  periods[periods.length - 1] = { ...periods[periods.length - 1], ...rates };
+  return withRatePeriods(job, periods);
+};
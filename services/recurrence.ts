@@ -0,0 +1,91 @@
+import { ShiftTemplate, WorkLog, Recurrence } from "../types";
+import { parseLocalDate, formatLocalDate, getPaidHours } from "./dates";
+
+// Recurring templates produce planned shifts on the fly; nothing is stored
+// until the user confirms one (which creates a normal WorkLog linked back via
+// templateId/occurrenceDate) or skips it (recorded on the template).
+
+export interface PlannedShift {
+  templateId: string;
+  jobId: string;
+  date: string;
+  startTime: string;
+  endTime: string;
+  breakMinutes?: number;
+  duration: number; // Paid hours
+  notes: string;
+}
+
+const WEEKDAY_LABELS = ['日', '一', '二', '三', '四', '五', '六'];
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Dates in [from, to] (inclusive) the recurrence falls on
+export const getOccurrenceDates = (recurrence: Recurrence, from: string, to: string): string[] => {
+  if (recurrence.weekdays.length === 0) return [];
+  const first = from > recurrence.startDate ? from : recurrence.startDate;
+  const last = recurrence.endDate && recurrence.endDate < to ? recurrence.endDate : to;
+  if (first > last) return [];
+
+  // Week parity is counted from the Monday of the start date's week
+  const anchor = parseLocalDate(recurrence.startDate);
+  anchor.setDate(anchor.getDate() - ((anchor.getDay() + 6) % 7));
+  const interval = Math.max(1, recurrence.intervalWeeks || 1);
+
+  const dates: string[] = [];
+  const d = parseLocalDate(first);
+  const end = parseLocalDate(last);
+  while (d <= end) {
+    // Rounded to whole days so DST changes don't shift the week count
+    const weekIndex = Math.floor(Math.round((d.getTime() - anchor.getTime()) / MS_PER_DAY) / 7);
+    if (recurrence.weekdays.includes(d.getDay()) && weekIndex % interval === 0) {
+      dates.push(formatLocalDate(d));
+    }
+    d.setDate(d.getDate() + 1);
+  }
+  return dates;
+};
+
+// Planned shifts in range that haven't been confirmed or skipped yet
+export const getPlannedShifts = (templates: ShiftTemplate[], logs: WorkLog[], from: string, to: string): PlannedShift[] => {
+  const confirmed = new Set(logs.filter(l => l.templateId).map(l => `${l.templateId}:${l.occurrenceDate}`));
+  return templates
+    .filter(t => t.recurrence)
+    .flatMap(t => getOccurrenceDates(t.recurrence!, from, to)
+      .filter(date => !confirmed.has(`${t.id}:${date}`) && !(t.skippedDates || []).includes(date))
+      .map(date => ({
+        templateId: t.id,
+        jobId: t.jobId,
+        date,
+        startTime: t.startTime,
+        endTime: t.endTime,
+        breakMinutes: t.breakMinutes,
+        duration: getPaidHours(t.startTime, t.endTime, t.breakMinutes),
+        notes: t.notes,
+      })))
+    .sort((a, b) => a.date.localeCompare(b.date) || a.startTime.localeCompare(b.startTime));
+};
+
+export const plannedShiftToLog = (shift: PlannedShift): WorkLog => ({
+  id: crypto.randomUUID(),
+  jobId: shift.jobId,
+  date: shift.date,
+  startTime: shift.startTime,
+  endTime: shift.endTime,
+  duration: shift.duration,
+  breakMinutes: shift.breakMinutes,
+  notes: shift.notes,
+  timestamp: Date.now(),
+  templateId: shift.templateId,
+  occurrenceDate: shift.date,
+});
+
+export const skipOccurrence = (template: ShiftTemplate, date: string): ShiftTemplate => ({
+  ...template,
+  skippedDates: [...(template.skippedDates || []).filter(d => d !== date), date],
+});
+
+export const describeRecurrence = (recurrence: Recurrence): string => {
+  const days = [...recurrence.weekdays].sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7)).map(d => WEEKDAY_LABELS[d]).join('/');
+  const every = (recurrence.intervalWeeks || 1) > 1 ? `每 ${recurrence.intervalWeeks} 週` : '每週';
+  return `${every} ${days}${recurrence.endDate ? ` 至 ${recurrence.endDate}` : ''}`;
+};
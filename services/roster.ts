@@ -0,0 +1,159 @@
+import { WorkLog, Job, ShiftTemplate } from "../types";
+import { parseCsv } from "./csv";
+import { parseIcs } from "./ical";
+import { parseDateValue, parseTimeValue, getLogKey } from "./csvImport";
+import { formatLocalDate, getPaidHours } from "./dates";
+import { getPlannedShifts } from "./recurrence";
+import { getLogStatus, isRosteredLog } from "./logStatus";
+
+// Roster import (CSV or .ics) as planned shifts, and reconciliation of
+// rostered vs worked hours per pay period.
+
+export interface RosterImportResult {
+  logs: WorkLog[];
+  errors: string[];
+  warnings: string[]; // Imported, but the job name matched several jobs
+  duplicates: number;
+}
+
+export interface PeriodReconciliation {
+  from: string;
+  to: string;
+  rosteredHours: number;   // Everything that was on the roster, whatever happened to it
+  workedHours: number;     // All worked shifts, rostered or not
+  pendingHours: number;    // Rostered but still planned (not confirmed)
+  cancelledHours: number;
+  sickHours: number;
+  unrosteredHours: number; // Worked without being on the roster
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// An exact (case-insensitive) name wins, otherwise the longest job name found in
+// the text. Jobs tied for the match come back in `ambiguous` instead.
+const findJob = (jobs: Job[], text: string): { job?: Job; ambiguous: Job[] } => {
+  const lower = text.trim().toLowerCase();
+  const named = jobs.map(j => ({ job: j, name: j.name.trim().toLowerCase() })).filter(j => j.name);
+  const exact = named.filter(j => j.name === lower);
+  const contained = named.filter(j => lower.includes(j.name));
+  const longest = Math.max(0, ...contained.map(j => j.name.length));
+  const best = exact.length > 0 ? exact : contained.filter(j => j.name.length === longest);
+  if (best.length > 1) return { ambiguous: best.map(j => j.job) };
+  return { job: best[0]?.job, ambiguous: [] };
+};
+
+const describeAmbiguous = (text: string, ambiguous: Job[]) => `「${text}」符合多份工作 (${ambiguous.map(j => j.name).join('、')})，已使用預設工作`;
+
+const plannedLog = (jobId: string, date: string, startTime: string, endTime: string, notes: string, breakMinutes?: number): WorkLog => ({
+  id: crypto.randomUUID(),
+  jobId,
+  date,
+  startTime,
+  endTime,
+  duration: getPaidHours(startTime, endTime, breakMinutes),
+  breakMinutes: breakMinutes || undefined,
+  notes,
+  timestamp: Date.now(),
+  status: 'planned',
+  rostered: true,
+});
+
+const HEADER_ALIASES: Record<string, string[]> = {
+  date: ['date', '日期'],
+  start: ['start', '開始'],
+  end: ['end', '結束', 'finish'],
+  job: ['job', '工作', 'location', 'role'],
+  notes: ['note', '備註', 'description', 'details'],
+  break: ['break', '休息'],
+};
+
+const matchesAlias = (cell: string, key: string) => HEADER_ALIASES[key].some(a => cell.toLowerCase().startsWith(a));
+
+type ParsedRoster = Omit<RosterImportResult, 'duplicates'>;
+
+const parseRosterCsv = (text: string, jobs: Job[], defaultJobId: string): ParsedRoster => {
+  const rows = parseCsv(text);
+  const logs: WorkLog[] = [];
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  if (rows.length === 0) return { logs, errors, warnings };
+
+  // Header row is optional; without one columns are date, start, end, notes
+  const hasHeader = rows[0].some(cell => matchesAlias(cell, 'date'));
+  const columns: Record<string, number> = { date: 0, start: 1, end: 2, notes: 3, job: -1, break: -1 };
+  if (hasHeader) {
+    Object.keys(HEADER_ALIASES).forEach(key => {
+      columns[key] = rows[0].findIndex(cell => matchesAlias(cell, key));
+    });
+  }
+
+  rows.slice(hasHeader ? 1 : 0).forEach((row, i) => {
+    const lineNo = i + (hasHeader ? 2 : 1);
+    const date = parseDateValue(row[columns.date] || '');
+    const start = parseTimeValue(row[columns.start] || '');
+    const end = parseTimeValue(row[columns.end] || '');
+    if (!date || !start || !end) {
+      errors.push(`第 ${lineNo} 行: 無法讀取日期或時間`);
+      return;
+    }
+    const jobCell = columns.job >= 0 ? row[columns.job] || '' : '';
+    const { job, ambiguous } = jobCell ? findJob(jobs, jobCell) : { job: undefined, ambiguous: [] };
+    if (ambiguous.length > 0) warnings.push(`第 ${lineNo} 行: ${describeAmbiguous(jobCell, ambiguous)}`);
+    const breakMinutes = columns.break >= 0 ? parseInt(row[columns.break]) || 0 : 0;
+    logs.push(plannedLog(job?.id || defaultJobId, date, start, end, columns.notes >= 0 ? row[columns.notes] || '' : '', breakMinutes));
+  });
+  return { logs, errors, warnings };
+};
+
+const parseRosterIcs = (text: string, jobs: Job[], defaultJobId: string): ParsedRoster => {
+  const logs: WorkLog[] = [];
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  parseIcs(text).forEach(event => {
+    if (event.allDay) {
+      errors.push(`已略過全日活動: ${event.summary || formatLocalDate(event.start)}`);
+      return;
+    }
+    const time = (d: Date) => `${pad(d.getHours())}:${pad(d.getMinutes())}`;
+    // The title names the job more reliably than the description
+    const fromSummary = findJob(jobs, event.summary);
+    const { job, ambiguous } = fromSummary.job || fromSummary.ambiguous.length > 0 ? fromSummary : findJob(jobs, `${event.summary} ${event.description}`);
+    if (ambiguous.length > 0) warnings.push(describeAmbiguous(event.summary || formatLocalDate(event.start), ambiguous));
+    logs.push(plannedLog(job?.id || defaultJobId, formatLocalDate(event.start), time(event.start), time(event.end), event.summary));
+  });
+  return { logs, errors, warnings };
+};
+
+export const isIcsText = (text: string): boolean => /BEGIN:VCALENDAR/i.test(text);
+
+// Parse a pasted or uploaded roster into planned shifts, skipping ones already logged
+export const importRoster = (text: string, jobs: Job[], defaultJobId: string, existing: WorkLog[]): RosterImportResult => {
+  const parsed = isIcsText(text) ? parseRosterIcs(text, jobs, defaultJobId) : parseRosterCsv(text, jobs, defaultJobId);
+  const seen = new Set(existing.map(getLogKey));
+  const logs = parsed.logs.filter(l => {
+    if (seen.has(getLogKey(l))) return false;
+    seen.add(getLogKey(l));
+    return true;
+  });
+  return { logs, errors: parsed.errors, warnings: parsed.warnings, duplicates: parsed.logs.length - logs.length };
+};
+
+export const reconcilePeriod = (logs: WorkLog[], templates: ShiftTemplate[], from: string, to: string, jobId: string | 'all'): PeriodReconciliation => {
+  const inScope = logs.filter(l => l.date >= from && l.date <= to && (jobId === 'all' || l.jobId === jobId));
+  const sum = (items: { duration: number }[]) => items.reduce((total, l) => total + l.duration, 0);
+  // Planned, cancelled and sick shifts were scheduled even if entered by hand
+  const rostered = inScope.filter(l => isRosteredLog(l) || getLogStatus(l) !== 'worked');
+  const worked = inScope.filter(l => getLogStatus(l) === 'worked');
+  const unconfirmed = getPlannedShifts(templates, logs, from, to).filter(p => jobId === 'all' || p.jobId === jobId);
+
+  return {
+    from,
+    to,
+    rosteredHours: sum(rostered) + sum(unconfirmed),
+    workedHours: sum(worked),
+    pendingHours: sum(rostered.filter(l => getLogStatus(l) === 'planned')) + sum(unconfirmed),
+    cancelledHours: sum(rostered.filter(l => getLogStatus(l) === 'cancelled')),
+    sickHours: sum(rostered.filter(l => getLogStatus(l) === 'sick')),
+    unrosteredHours: sum(worked.filter(l => !isRosteredLog(l))),
+  };
+};
@@ -0,0 +1,53 @@
+import { ActiveShift, WorkLog } from "../types";
+import { formatLocalDate } from "./dates";
+
+// Live clock-in / clock-out. Times are epoch ms so a running shift survives
+// reloads; the WorkLog produced on clock-out uses local wall-clock times.
+
+export const isOnBreak = (shift: ActiveShift): boolean => {
+  const last = shift.breaks[shift.breaks.length - 1];
+  return !!last && last.end === undefined;
+};
+
+export const getBreakMs = (shift: ActiveShift, now: number = Date.now()): number => {
+  return shift.breaks.reduce((sum, b) => sum + ((b.end ?? now) - b.start), 0);
+};
+
+// Worked time so far, excluding paused breaks
+export const getWorkedMs = (shift: ActiveShift, now: number = Date.now()): number => {
+  return Math.max(0, now - shift.startedAt - getBreakMs(shift, now));
+};
+
+export const toggleBreak = (shift: ActiveShift, now: number = Date.now()): ActiveShift => {
+  if (isOnBreak(shift)) {
+    const breaks = shift.breaks.slice(0, -1);
+    return { ...shift, breaks: [...breaks, { ...shift.breaks[shift.breaks.length - 1], end: now }] };
+  }
+  return { ...shift, breaks: [...shift.breaks, { start: now }] };
+};
+
+export const formatElapsed = (ms: number): string => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const h = Math.floor(totalSeconds / 3600);
+  const m = Math.floor((totalSeconds % 3600) / 60);
+  const s = totalSeconds % 60;
+  return `${h}:${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}`;
+};
+
+const formatClock = (d: Date): string => `${String(d.getHours()).padStart(2, '0')}:${String(d.getMinutes()).padStart(2, '0')}`;
+
+export const buildLogFromShift = (shift: ActiveShift, now: number = Date.now()): WorkLog => {
+  const start = new Date(shift.startedAt);
+  const breakMinutes = Math.round(getBreakMs(shift, now) / 60000);
+  return {
+    id: crypto.randomUUID(),
+    jobId: shift.jobId,
+    date: formatLocalDate(start),
+    startTime: formatClock(start),
+    endTime: formatClock(new Date(now)),
+    duration: parseFloat((getWorkedMs(shift, now) / 3600000).toFixed(2)),
+    breakMinutes: breakMinutes > 0 ? breakMinutes : undefined,
+    notes: shift.notes,
+    timestamp: now
+  };
+};
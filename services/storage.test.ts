@@ -0,0 +1,182 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { AppState, WorkLog, DEFAULT_SETTINGS, DEFAULT_JOB } from '../types';
+import { createMemoryStorage, createLocalStorageAdapter, diffState, hasChanges, StorageConflictError, LEGACY_STORAGE_KEY } from './storage';
+import { createIndexedDbStorage } from './indexedDbStorage';
+import { migrateState, CURRENT_SCHEMA_VERSION } from './migrations';
+import { IDBFactory } from 'fake-indexeddb';
+
+const makeLog = (id: string, duration = 4): WorkLog => ({
+  id,
+  jobId: 'job-1',
+  date: '2025-03-04',
+  startTime: '09:00',
+  endTime: '13:00',
+  duration,
+  notes: '',
+  timestamp: 0,
+});
+
+const makeState = (logs: WorkLog[] = []): AppState => ({
+  logs,
+  jobs: [{ ...DEFAULT_JOB, id: 'job-1' }],
+  templates: [],
+  payslips: [],
+  settings: DEFAULT_SETTINGS,
+});
+
+// Minimal Storage backed by a Map
+const createLocalStorageStub = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, String(value)); },
+    removeItem: (key: string) => { items.delete(key); },
+    clear: () => items.clear(),
+    key: (index: number) => [...items.keys()][index] ?? null,
+    get length() { return items.size; },
+  };
+};
+
+describe('memory storage', () => {
+  it('rejects a save based on an old revision', async () => {
+    const storage = createMemoryStorage(makeState());
+    const first = await storage.load();
+    const next = makeState([makeLog('a')]);
+
+    // Another tab saves first
+    await storage.save(diffState(first!.state, next), first!.revision);
+    await expect(storage.save(diffState(first!.state, next), first!.revision)).rejects.toBeInstanceOf(StorageConflictError);
+  });
+
+  it('skips the conflict check when no revision is expected', async () => {
+    const storage = createMemoryStorage(makeState());
+    await storage.save(diffState(null, makeState([makeLog('a')])), null);
+    await expect(storage.save(diffState(null, makeState([makeLog('b')])), null)).resolves.toBe(3);
+    expect((await storage.load())!.state.logs.map(l => l.id)).toEqual(['b']);
+  });
+
+  it('writes only the records that changed', async () => {
+    const a = makeLog('a');
+    const b = makeLog('b');
+    const saved = makeState([a, b]);
+    const storage = createMemoryStorage(saved);
+
+    const edited = { ...saved, logs: [{ ...a, duration: 6 }, makeLog('c')] };
+    const changes = diffState(saved, edited);
+    expect(changes.replace).toBe(false);
+    expect(changes.logs.put.map(l => l.id)).toEqual(['a', 'c']);
+    expect(changes.logs.delete).toEqual(['b']);
+    expect(changes.jobs.put).toEqual([]);
+    expect(changes.meta).toBeUndefined();
+
+    const revision = await storage.save(changes, 1);
+    const loaded = await storage.load();
+    expect(loaded!.revision).toBe(revision);
+    expect(loaded!.state.logs).toEqual(edited.logs);
+    expect(loaded!.state.jobs).toEqual(saved.jobs);
+  });
+
+  it('saves settings changes through the meta record', () => {
+    const saved = makeState();
+    const changes = diffState(saved, { ...saved, settings: { ...saved.settings, taxRate: 20 } });
+    expect(changes.meta?.settings.taxRate).toBe(20);
+    expect(hasChanges(diffState(saved, saved))).toBe(false);
+  });
+});
+
+describe('localStorage adapter', () => {
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', createLocalStorageStub());
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('loads and migrates a blob saved under the original key', async () => {
+    // Pre-versioning data: pay settings on the user, logs without a job
+    localStorage.setItem(LEGACY_STORAGE_KEY, JSON.stringify({
+      logs: [{ ...makeLog('a'), jobId: undefined }],
+      settings: { ...DEFAULT_SETTINGS, hourlyRate: 31, weekendHourlyRate: 44 },
+    }));
+
+    const loaded = await createLocalStorageAdapter().load();
+    expect(loaded!.revision).toBe(0);
+
+    const state = migrateState(loaded!.state);
+    expect(state.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(state.jobs).toHaveLength(1);
+    expect(state.jobs[0]).toMatchObject({ name: 'Main Job', hourlyRate: 31, weekendHourlyRate: 44 });
+    expect(state.logs[0].jobId).toBe(state.jobs[0].id);
+    expect(state.templates).toEqual([]);
+    expect(state.payslips).toEqual([]);
+  });
+
+  it('keeps the blob and bumps the revision on each save', async () => {
+    const storage = createLocalStorageAdapter();
+    const first = makeState([makeLog('a')]);
+    expect(await storage.save(diffState(null, first), 0)).toBe(1);
+    expect(await storage.save(diffState(first, makeState([makeLog('a'), makeLog('b')])), 1)).toBe(2);
+    await expect(storage.save(diffState(first, first), 1)).rejects.toBeInstanceOf(StorageConflictError);
+
+    const stored = JSON.parse(localStorage.getItem(LEGACY_STORAGE_KEY)!);
+    expect(stored.revision).toBe(2);
+    expect(stored.logs.map((l: WorkLog) => l.id)).toEqual(['a', 'b']);
+  });
+
+  it('recovers a save interrupted after the journal write', async () => {
+    localStorage.setItem(LEGACY_STORAGE_KEY, JSON.stringify({ ...makeState([makeLog('a')]), revision: 1 }));
+    localStorage.setItem(`${LEGACY_STORAGE_KEY}_journal`, JSON.stringify({ ...makeState([makeLog('a'), makeLog('b')]), revision: 2 }));
+
+    const loaded = await createLocalStorageAdapter().load();
+    expect(loaded!.revision).toBe(2);
+    expect(loaded!.state.logs.map(l => l.id)).toEqual(['a', 'b']);
+    expect(localStorage.getItem(`${LEGACY_STORAGE_KEY}_journal`)).toBeNull();
+  });
+});
+
+describe('IndexedDB adapter', () => {
+  beforeEach(() => {
+    vi.stubGlobal('indexedDB', new IDBFactory());
+    vi.stubGlobal('localStorage', createLocalStorageStub());
+    // Change notifications fall back to the localStorage ping
+    vi.stubGlobal('BroadcastChannel', undefined);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const openOtherTab = (version: number): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+    const request = indexedDB.open('paylevel-up', version);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  it('reopens the database after another tab takes it over', async () => {
+    const storage = createIndexedDbStorage();
+    const first = makeState([makeLog('a')]);
+    await storage.save(diffState(null, first), 0);
+
+    // Deleting the database closes this tab's connection through versionchange
+    await new Promise((resolve, reject) => {
+      const request = indexedDB.deleteDatabase('paylevel-up');
+      request.onsuccess = resolve;
+      request.onerror = () => reject(request.error);
+    });
+
+    await expect(storage.save(diffState(null, first), null)).resolves.toBe(1);
+    expect((await storage.load())!.state.logs.map(l => l.id)).toEqual(['a']);
+  });
+
+  it('retries opening after an upgrade was blocked', async () => {
+    // An older tab that ignores versionchange holds the upgrade up
+    const other = await openOtherTab(1);
+    const storage = createIndexedDbStorage();
+    await expect(storage.load()).rejects.toThrow('blocked');
+
+    other.close();
+    await expect(storage.load()).resolves.toBeNull();
+    await expect(storage.save(diffState(null, makeState()), 0)).resolves.toBe(1);
+  });
+});
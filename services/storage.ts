@@ -0,0 +1,252 @@
+import { AppState, WorkLog, Job, ShiftTemplate, Payslip } from "../types";
+
+// Persistence behind a small adapter interface. Logs, jobs, templates and
+// payslips are saved as record sets with incremental puts/deletes; everything
+// else lives in a single meta record. Adapters: IndexedDB (default, see
+// indexedDbStorage.ts), the original localStorage blob (fallback where
+// IndexedDB is unavailable) and in-memory (tests).
+//
+// Every save bumps a revision. A save states the revision it was based on and
+// is rejected with StorageConflictError if another tab saved in between;
+// adapters notify other tabs after each save so they can reload.
+
+export const LEGACY_STORAGE_KEY = 'paylevel_up_data_v1';
+
+export interface RecordChanges<T> {
+  put: T[];
+  delete: string[];
+}
+
+export type StateMeta = Omit<AppState, 'logs' | 'jobs' | 'templates' | 'payslips'>;
+
+export interface StorageChanges {
+  replace: boolean; // Clear the record sets first (initial save, or after a failed write)
+  logs: RecordChanges<WorkLog>;
+  jobs: RecordChanges<Job>;
+  templates: RecordChanges<ShiftTemplate>;
+  payslips: RecordChanges<Payslip>;
+  meta?: StateMeta; // Only when it changed
+}
+
+export interface StoredState {
+  state: AppState;
+  revision: number;
+}
+
+export interface StorageAdapter {
+  name: string;
+  load: () => Promise<StoredState | null>; // null when nothing has been saved yet
+  // Resolves with the new revision; `expectedRevision` null skips the conflict check
+  save: (changes: StorageChanges, expectedRevision: number | null) => Promise<number>;
+  // Called when another tab saves; returns an unsubscribe function
+  subscribe: (listener: (revision: number) => void) => () => void;
+}
+
+export class StorageConflictError extends Error {
+  constructor() {
+    super('Data was changed in another tab');
+    this.name = 'StorageConflictError';
+  }
+}
+
+const diffRecords = <T extends { id: string }>(prev: T[] | undefined, next: T[]): RecordChanges<T> => {
+  if (!prev) return { put: next, delete: [] };
+  // State updates are immutable, so unchanged records keep their identity
+  const prevById = new Map(prev.map(r => [r.id, r]));
+  const nextIds = new Set(next.map(r => r.id));
+  return {
+    put: next.filter(r => prevById.get(r.id) !== r),
+    delete: prev.filter(r => !nextIds.has(r.id)).map(r => r.id),
+  };
+};
+
+const getMeta = (state: AppState): StateMeta => {
+  const { logs, jobs, templates, payslips, ...meta } = state;
+  return meta;
+};
+
+// What changed between the last saved state and `next`; `prev` null means save everything
+export const diffState = (prev: AppState | null, next: AppState): StorageChanges => {
+  const metaChanged = !prev || JSON.stringify(getMeta(prev)) !== JSON.stringify(getMeta(next));
+  return {
+    replace: !prev,
+    logs: diffRecords(prev?.logs, next.logs),
+    jobs: diffRecords(prev?.jobs, next.jobs),
+    templates: diffRecords(prev?.templates, next.templates),
+    payslips: diffRecords(prev?.payslips, next.payslips),
+    meta: metaChanged ? getMeta(next) : undefined,
+  };
+};
+
+export const hasChanges = (changes: StorageChanges): boolean => {
+  return changes.replace || !!changes.meta ||
+    [changes.logs, changes.jobs, changes.templates, changes.payslips].some(c => c.put.length > 0 || c.delete.length > 0);
+};
+
+const applyRecordChanges = <T extends { id: string }>(records: T[], changes: RecordChanges<T>, replace: boolean): T[] => {
+  const byId = new Map((replace ? [] : records).map(r => [r.id, r]));
+  changes.delete.forEach(id => byId.delete(id));
+  changes.put.forEach(r => byId.set(r.id, r));
+  return [...byId.values()];
+};
+
+// Apply changes to a whole state object (used by the blob-based adapters)
+export const applyChanges = (state: AppState | null, changes: StorageChanges): AppState => {
+  const base: AppState = state || { logs: [], jobs: [], templates: [], payslips: [], settings: changes.meta!.settings };
+  return {
+    ...base,
+    ...(changes.meta || {}),
+    logs: applyRecordChanges(base.logs, changes.logs, changes.replace),
+    jobs: applyRecordChanges(base.jobs, changes.jobs, changes.replace),
+    templates: applyRecordChanges(base.templates, changes.templates, changes.replace),
+    payslips: applyRecordChanges(base.payslips || [], changes.payslips, changes.replace),
+  };
+};
+
+// Three-way merge: fields changed in `ours` since `base` win, the rest come from `theirs`
+export const mergeFields = <T extends object>(base: T | null | undefined, ours: T, theirs: T): T => {
+  if (!base) return ours;
+  const baseFields = base as Record<string, unknown>;
+  const ourFields = ours as Record<string, unknown>;
+  const result = { ...theirs } as Record<string, unknown>;
+  new Set([...Object.keys(base), ...Object.keys(ours)]).forEach(key => {
+    if (JSON.stringify(baseFields[key]) === JSON.stringify(ourFields[key])) return;
+    if (ourFields[key] === undefined) delete result[key];
+    else result[key] = ourFields[key];
+  });
+  return result as T;
+};
+
+// This tab's changes (diffed from `base`) re-applied on top of data another
+// tab saved in between: record puts/deletes as they were, meta and settings
+// merged field by field so the other tab's edits survive
+export const rebaseChanges = (changes: StorageChanges, base: AppState | null, latest: AppState | null): StorageChanges => {
+  if (!changes.meta || !base || !latest) return { ...changes, replace: false };
+  const baseMeta = getMeta(base);
+  const theirs = getMeta(latest);
+  return {
+    ...changes,
+    replace: false,
+    meta: { ...mergeFields(baseMeta, changes.meta, theirs), settings: mergeFields(baseMeta.settings, changes.meta.settings, theirs.settings) },
+  };
+};
+
+// Another tab's record changes applied to `current`, skipping records edited
+// here since `saved`
+export const mergeRecordChanges = <T extends { id: string }>(saved: T[], current: T[], incoming: RecordChanges<T>): T[] => {
+  const savedById = new Map(saved.map(r => [r.id, r]));
+  const currentById = new Map(current.map(r => [r.id, r]));
+  const editedHere = (id: string) => savedById.get(id) !== currentById.get(id);
+  return applyRecordChanges(current, {
+    put: incoming.put.filter(r => !editedHere(r.id)),
+    delete: incoming.delete.filter(id => !editedHere(id)),
+  }, false);
+};
+
+// Cross-tab notifications over BroadcastChannel, falling back to the
+// `storage` event of a ping key where BroadcastChannel isn't supported
+export const createChangeNotifier = (name: string) => {
+  const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(name) : null;
+  const pingKey = `${name}_ping`;
+  return {
+    notify: (revision: number) => {
+      if (channel) channel.postMessage({ revision });
+      else localStorage.setItem(pingKey, String(revision));
+    },
+    subscribe: (listener: (revision: number) => void) => {
+      if (channel) {
+        const onMessage = (e: MessageEvent<{ revision: number }>) => listener(e.data.revision);
+        channel.addEventListener('message', onMessage);
+        return () => channel.removeEventListener('message', onMessage);
+      }
+      const onStorage = (e: StorageEvent) => { if (e.key === pingKey && e.newValue) listener(Number(e.newValue)); };
+      window.addEventListener('storage', onStorage);
+      return () => window.removeEventListener('storage', onStorage);
+    },
+  };
+};
+
+const checkRevision = (current: number, expected: number | null) => {
+  if (expected !== null && current !== expected) throw new StorageConflictError();
+};
+
+export const createMemoryStorage = (initial: AppState | null = null): StorageAdapter => {
+  let state = initial;
+  let revision = initial ? 1 : 0;
+  return {
+    name: 'memory',
+    load: async () => state ? { state, revision } : null,
+    save: async (changes, expectedRevision) => {
+      checkRevision(revision, expectedRevision);
+      state = applyChanges(state, changes);
+      return ++revision;
+    },
+    subscribe: () => () => {},
+  };
+};
+
+// The blob is written to a journal key first and only then to the main key,
+// so an interrupted save leaves a complete copy to recover on next load.
+export const createLocalStorageAdapter = (key = LEGACY_STORAGE_KEY): StorageAdapter => {
+  const journalKey = `${key}_journal`;
+  type Blob = AppState & { revision?: number };
+
+  const read = (): Blob | null => {
+    const journal = localStorage.getItem(journalKey);
+    if (journal) {
+      try {
+        const recovered = JSON.parse(journal) as Blob;
+        localStorage.setItem(key, journal);
+        localStorage.removeItem(journalKey);
+        return recovered;
+      } catch {
+        // A torn journal write; the main key still holds the previous save
+        localStorage.removeItem(journalKey);
+      }
+    }
+    const saved = localStorage.getItem(key);
+    return saved ? JSON.parse(saved) : null;
+  };
+
+  return {
+    name: 'localStorage',
+    load: async () => {
+      const blob = read();
+      if (!blob) return null;
+      const { revision = 0, ...state } = blob;
+      return { state, revision };
+    },
+    save: async (changes, expectedRevision) => {
+      const blob = read();
+      const { revision = 0, ...state } = blob || ({} as Blob);
+      checkRevision(revision, expectedRevision);
+      const next = JSON.stringify({ ...applyChanges(blob ? state : null, changes), revision: revision + 1 });
+      localStorage.setItem(journalKey, next);
+      try {
+        localStorage.setItem(key, next);
+      } finally {
+        // On failure (e.g. quota) the main key still holds the previous save
+        localStorage.removeItem(journalKey);
+      }
+      return revision + 1;
+    },
+    subscribe: listener => {
+      // Writing the main key fires `storage` in every other tab
+      const onStorage = (e: StorageEvent) => {
+        if (e.key === key && e.newValue) listener(JSON.parse(e.newValue).revision || 0);
+      };
+      window.addEventListener('storage', onStorage);
+      return () => window.removeEventListener('storage', onStorage);
+    },
+  };
+};
+
+// Message shown to the user when a save fails
+export const describeStorageError = (error: unknown): string => {
+  const name = error instanceof DOMException || error instanceof Error ? error.name : '';
+  if (name === 'QuotaExceededError') {
+    return '儲存空間已滿，最新的變更未能儲存。請匯出備份並清理舊紀錄。';
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return `儲存失敗，最新的變更可能未被保存 (${message || name || 'unknown error'})。`;
+};
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { UserSettings } from '../types';
+import { calculatePeriodTax, calculateAnnualTax, calculateNetPay, calculateBracketTax } from './tax';
+
+const settings: UserSettings = {
+  currency: 'AUD',
+  userName: 'Test',
+  payFrequency: 'biweekly',
+  taxRate: 0,
+  theme: 'light',
+};
+
+const au = (taxFreeThreshold: boolean): UserSettings => ({ ...settings, taxProfile: 'AU', taxFreeThreshold });
+const hk = (taxFreeThreshold = true): UserSettings => ({ ...settings, currency: 'HKD', taxProfile: 'HK', taxFreeThreshold });
+
+describe('bracket tax', () => {
+  const brackets = [{ upTo: 100, rate: 0 }, { upTo: 200, rate: 0.1 }, { rate: 0.5 }];
+
+  it('taxes each slice at its own rate', () => {
+    expect(calculateBracketTax(100, brackets)).toBe(0);
+    expect(calculateBracketTax(150, brackets)).toBeCloseTo(5);
+    expect(calculateBracketTax(200, brackets)).toBeCloseTo(10);
+    expect(calculateBracketTax(300, brackets)).toBeCloseTo(60);
+  });
+});
+
+// ATO Schedule 1 weekly tax table, from 1 July 2024
+describe('AU PAYG withholding', () => {
+  it('withholds scale 2 (tax-free threshold claimed) weekly amounts', () => {
+    expect(calculatePeriodTax(361, 'weekly', au(true))).toBe(0);
+    expect(calculatePeriodTax(500, 'weekly', au(true))).toBe(22);
+    expect(calculatePeriodTax(1000, 'weekly', au(true))).toBe(143);
+    expect(calculatePeriodTax(2000, 'weekly', au(true))).toBe(464);
+  });
+
+  it('withholds scale 1 (no tax-free threshold) weekly amounts', () => {
+    expect(calculatePeriodTax(100, 'weekly', au(false))).toBe(16);
+    expect(calculatePeriodTax(500, 'weekly', au(false))).toBe(95);
+    expect(calculatePeriodTax(1000, 'weekly', au(false))).toBe(255);
+  });
+
+  it('ignores cents in weekly earnings', () => {
+    expect(calculatePeriodTax(1000.75, 'weekly', au(true))).toBe(calculatePeriodTax(1000, 'weekly', au(true)));
+  });
+
+  it('withholds twice the weekly amount on half the fortnightly earnings', () => {
+    expect(calculatePeriodTax(2000, 'fortnightly', au(true))).toBe(286);
+  });
+
+  it('scales monthly earnings through the weekly formula', () => {
+    expect(calculatePeriodTax(4333, 'monthly', au(true))).toBe(620);
+  });
+});
+
+describe('HK salaries tax', () => {
+  // Progressive and standard rate meet at 2,022,000
+  it('charges progressive rates below the crossover', () => {
+    expect(calculateAnnualTax(2000000, hk())).toBeCloseTo(299560);
+  });
+
+  it('caps at the standard rate above the crossover', () => {
+    expect(calculateAnnualTax(2100000, hk())).toBeCloseTo(315000);
+  });
+
+  it('only applies the basic allowance when claimed', () => {
+    expect(calculateAnnualTax(240000, hk())).toBeCloseTo(4800);
+    expect(calculateAnnualTax(240000, hk(false))).toBeCloseTo(16000 + 40000 * 0.17);
+  });
+
+  it('sets aside an even share of the annual tax each period', () => {
+    expect(calculatePeriodTax(20000, 'monthly', hk())).toBeCloseTo(400);
+    expect(calculatePeriodTax(240000 / 26, 'fortnightly', hk())).toBeCloseTo(4800 / 26);
+  });
+});
+
+describe('flat rate', () => {
+  it('takes the same percentage from every period', () => {
+    const flat = { ...settings, taxRate: 20 };
+    expect(calculateNetPay(1000, 'weekly', flat)).toEqual({ tax: 200, net: 800 });
+    expect(calculatePeriodTax(0, 'weekly', flat)).toBe(0);
+  });
+});
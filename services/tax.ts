@@ -0,0 +1,197 @@
+import { UserSettings } from "../types";
+
+// Tax profiles: each knows the annual tax on an income and how much is
+// withheld from one pay period. Profiles without a withholding schedule
+// annualise the period's gross and spread the annual tax evenly (a "set
+// aside" estimate, e.g. HK where salaries tax is assessed yearly).
+
+export type TaxPeriod = 'weekly' | 'fortnightly' | 'semimonthly' | 'monthly';
+
+export interface TaxBracket {
+  upTo?: number; // Top of the bracket; omitted for the last one
+  rate: number;  // Fraction, e.g. 0.16
+}
+
+export interface TaxOptions {
+  flatRate: number;           // Percent, for the flat profile
+  taxFreeThreshold: boolean;
+}
+
+export interface TaxProfile {
+  id: string;
+  label: string;
+  hint: string;
+  supportsTaxFreeThreshold: boolean;
+  annualTax: (income: number, options: TaxOptions) => number;
+  periodTax?: (gross: number, period: TaxPeriod, options: TaxOptions) => number;
+}
+
+export const PERIODS_PER_YEAR: Record<TaxPeriod, number> = { weekly: 52, fortnightly: 26, semimonthly: 24, monthly: 12 };
+
+export const TAX_PERIOD_LABELS: Record<TaxPeriod, string> = { weekly: '每週', fortnightly: '每兩週', semimonthly: '每半月', monthly: '每月' };
+
+export const calculateBracketTax = (income: number, brackets: TaxBracket[]): number => {
+  let tax = 0;
+  let lower = 0;
+  for (const bracket of brackets) {
+    const upper = bracket.upTo ?? Infinity;
+    if (income <= lower) break;
+    tax += (Math.min(income, upper) - lower) * bracket.rate;
+    lower = upper;
+  }
+  return tax;
+};
+
+// --- Hong Kong salaries tax (2024/25 onwards) ---
+// Progressive rates on income after the basic allowance, capped at the
+// standard rate on the whole income.
+
+const HK_BASIC_ALLOWANCE = 132000;
+const HK_PROGRESSIVE: TaxBracket[] = [
+  { upTo: 50000, rate: 0.02 },
+  { upTo: 100000, rate: 0.06 },
+  { upTo: 150000, rate: 0.10 },
+  { upTo: 200000, rate: 0.14 },
+  { rate: 0.17 },
+];
+const HK_STANDARD: TaxBracket[] = [
+  { upTo: 5000000, rate: 0.15 },
+  { rate: 0.16 },
+];
+
+const hkAnnualTax = (income: number, options: TaxOptions): number => {
+  const allowance = options.taxFreeThreshold ? HK_BASIC_ALLOWANCE : 0;
+  const progressive = calculateBracketTax(Math.max(0, income - allowance), HK_PROGRESSIVE);
+  return Math.min(progressive, calculateBracketTax(income, HK_STANDARD));
+};
+
+// --- Australian PAYG withholding (Schedule 1, from 1 July 2024) ---
+// Weekly coefficients: withholding = a * x - b where x is weekly earnings in
+// whole dollars plus 99 cents. Scale 2 claims the tax-free threshold, scale 1
+// doesn't. Both include the Medicare levy.
+
+interface WithholdingCoefficient {
+  below?: number; // Weekly earnings limit; omitted for the last row
+  a: number;
+  b: number;
+}
+
+const AU_SCALE_1: WithholdingCoefficient[] = [
+  { below: 150, a: 0.1600, b: 0.1600 },
+  { below: 371, a: 0.2117, b: 7.7550 },
+  { below: 515, a: 0.1890, b: -0.6702 },
+  { below: 932, a: 0.3227, b: 68.2367 },
+  { below: 2246, a: 0.3200, b: 65.7202 },
+  { below: 3303, a: 0.3900, b: 222.9510 },
+  { a: 0.4700, b: 487.2587 },
+];
+
+const AU_SCALE_2: WithholdingCoefficient[] = [
+  { below: 361, a: 0, b: 0 },
+  { below: 500, a: 0.1600, b: 57.8462 },
+  { below: 625, a: 0.2600, b: 107.8462 },
+  { below: 721, a: 0.1800, b: 57.8462 },
+  { below: 865, a: 0.1890, b: 64.3365 },
+  { below: 1282, a: 0.3227, b: 180.0385 },
+  { below: 2596, a: 0.3200, b: 176.5769 },
+  { below: 3653, a: 0.3900, b: 358.3077 },
+  { a: 0.4700, b: 650.6154 },
+];
+
+const AU_RESIDENT: TaxBracket[] = [
+  { upTo: 18200, rate: 0 },
+  { upTo: 45000, rate: 0.16 },
+  { upTo: 135000, rate: 0.30 },
+  { upTo: 190000, rate: 0.37 },
+  { rate: 0.45 },
+];
+const AU_MEDICARE_LEVY = 0.02;
+
+const weeklyWithholding = (weekly: number, scale: WithholdingCoefficient[]): number => {
+  const x = Math.floor(weekly) + 0.99;
+  const row = scale.find(r => r.below === undefined || x < r.below)!;
+  return Math.max(0, Math.round(row.a * x - row.b));
+};
+
+// Fortnightly and monthly amounts go through the weekly formula, as the ATO does
+const auPeriodTax = (gross: number, period: TaxPeriod, options: TaxOptions): number => {
+  const scale = options.taxFreeThreshold ? AU_SCALE_2 : AU_SCALE_1;
+  if (period === 'weekly') return weeklyWithholding(gross, scale);
+  if (period === 'fortnightly') return weeklyWithholding(gross / 2, scale) * 2;
+  // Half-monthly: weekly equivalent scaled back up (no separate ATO schedule)
+  if (period === 'semimonthly') return Math.round(weeklyWithholding(gross * 24 / 52, scale) * 52 / 24);
+  // Monthly: whole-dollar earnings, cents ignored, then weekly * 13 / 3
+  const weekly = (Math.floor(gross) + 0.01) * 3 / 13;
+  return Math.round(weeklyWithholding(weekly, scale) * 13 / 3);
+};
+
+// Annual estimate. Without the threshold the income is treated as earning on
+// top of another job that already used it (how scale 1 withholding is built).
+const auAnnualTax = (income: number, options: TaxOptions): number => {
+  const taxOn = (taxable: number) => calculateBracketTax(taxable, AU_RESIDENT) + taxable * AU_MEDICARE_LEVY;
+  const threshold = AU_RESIDENT[0].upTo!;
+  return options.taxFreeThreshold ? taxOn(income) : taxOn(income + threshold) - taxOn(threshold);
+};
+
+export const TAX_PROFILES: TaxProfile[] = [
+  {
+    id: 'flat',
+    label: '固定稅率',
+    hint: '所有收入按同一百分比扣稅',
+    supportsTaxFreeThreshold: false,
+    annualTax: (income, options) => income * options.flatRate / 100,
+    periodTax: (gross, _, options) => gross * options.flatRate / 100,
+  },
+  {
+    id: 'HK',
+    label: '香港薪俸稅 (2024/25)',
+    hint: '累進稅率或標準稅率，取較低者；按週期平均預留',
+    supportsTaxFreeThreshold: true,
+    annualTax: hkAnnualTax,
+  },
+  {
+    id: 'AU',
+    label: 'Australia PAYG (2024-25)',
+    hint: 'ATO Schedule 1 預扣表 (含 Medicare levy)',
+    supportsTaxFreeThreshold: true,
+    annualTax: auAnnualTax,
+    periodTax: auPeriodTax,
+  },
+];
+
+export const getTaxProfile = (settings: UserSettings): TaxProfile => {
+  return TAX_PROFILES.find(p => p.id === settings.taxProfile) || TAX_PROFILES[0];
+};
+
+const getTaxOptions = (settings: UserSettings): TaxOptions => ({
+  flatRate: settings.taxRate || 0,
+  taxFreeThreshold: settings.taxFreeThreshold !== false,
+});
+
+// Whether there's any tax to show (the default flat 0% means "not set up")
+export const hasTaxSetup = (settings: UserSettings): boolean => {
+  return getTaxProfile(settings).id !== 'flat' || (settings.taxRate || 0) > 0;
+};
+
+export const getTaxPeriod = (payFrequency: UserSettings['payFrequency']): TaxPeriod => {
+  return payFrequency === 'monthly' ? 'monthly' : 'fortnightly';
+};
+
+export const calculatePeriodTax = (gross: number, period: TaxPeriod, settings: UserSettings): number => {
+  if (gross <= 0) return 0;
+  const profile = getTaxProfile(settings);
+  const options = getTaxOptions(settings);
+  if (profile.periodTax) return profile.periodTax(gross, period, options);
+  const periods = PERIODS_PER_YEAR[period];
+  return profile.annualTax(gross * periods, options) / periods;
+};
+
+export const calculateAnnualTax = (income: number, settings: UserSettings): number => {
+  if (income <= 0) return 0;
+  return getTaxProfile(settings).annualTax(income, getTaxOptions(settings));
+};
+
+export const calculateNetPay = (gross: number, period: TaxPeriod, settings: UserSettings): { tax: number; net: number } => {
+  const tax = calculatePeriodTax(gross, period, settings);
+  return { tax, net: gross - tax };
+};
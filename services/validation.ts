@@ -0,0 +1,166 @@
+import { AppState, WorkLog, Job, ShiftTemplate, Payslip } from "../types";
+import { isValidLocalDate, parseTimeToMinutes, getPaidHours } from "./dates";
+
+// Record-level checks run after migration. Each malformed record is reported
+// with what's wrong and whether it can be repaired; the caller then either
+// repairs what it can (dropping the rest) or skips every malformed record.
+
+export type DataIssueMode = 'repair' | 'skip';
+
+export interface DataIssue {
+  kind: 'log' | 'job' | 'template' | 'payslip';
+  id: string;
+  label: string;
+  problems: string[];
+  repairable: boolean;
+}
+
+interface Check<T> {
+  problems: string[];
+  repaired: T | null; // null when the record can't be repaired
+}
+
+const isTime = (time: unknown) => typeof time === 'string' && parseTimeToMinutes(time) !== null;
+const isFiniteNumber = (n: unknown): n is number => typeof n === 'number' && Number.isFinite(n);
+
+const checkJob = (job: Job): Check<Job> => {
+  const problems: string[] = [];
+  const repaired = { ...job };
+  if (!job.id) { problems.push('缺少 ID'); repaired.id = crypto.randomUUID(); }
+  if (!job.name) { problems.push('缺少名稱'); repaired.name = 'Job'; }
+  (['hourlyRate', 'weekendHourlyRate', 'targetHours', 'nextHourlyRate', 'nextWeekendHourlyRate'] as const).forEach(field => {
+    if (!isFiniteNumber(job[field]) || job[field] < 0) {
+      problems.push(`${field} 無效: ${job[field]}`);
+      repaired[field] = 0;
+    }
+  });
+  if (job.allowances !== undefined) {
+    const list = Array.isArray(job.allowances) ? job.allowances : [];
+    const valid = list.filter(a => a && a.id && isFiniteNumber(a.amount) && a.amount >= 0);
+    if (!Array.isArray(job.allowances) || valid.length !== list.length) { problems.push('津貼設定無效'); repaired.allowances = valid; }
+  }
+  return { problems, repaired };
+};
+
+const checkLog = (log: WorkLog, jobIds: Set<string>, fallbackJobId?: string): Check<WorkLog> => {
+  const problems: string[] = [];
+  const repaired = { ...log };
+  let repairable = true;
+
+  if (!log.id) { problems.push('缺少 ID'); repaired.id = crypto.randomUUID(); }
+  if (typeof log.date !== 'string' || !isValidLocalDate(log.date)) {
+    problems.push(`日期無效: ${log.date}`);
+    repairable = false;
+  }
+  if (!jobIds.has(log.jobId)) {
+    problems.push(`工作不存在: ${log.jobId}`);
+    if (fallbackJobId) repaired.jobId = fallbackJobId;
+    else repairable = false;
+  }
+  const manual = log.startTime === '-' && log.endTime === '-';
+  const timesValid = isTime(log.startTime) && isTime(log.endTime);
+  if (!manual && !timesValid) {
+    problems.push(`時間無效: ${log.startTime}-${log.endTime}`);
+    // Keep the hours as a manual-duration log
+    repaired.startTime = '-';
+    repaired.endTime = '-';
+  }
+  // Payslip corrections take hours off, so they may be negative
+  const minDuration = log.correction && manual ? -24 : 0;
+  if (!isFiniteNumber(log.duration) || log.duration < minDuration || log.duration > 24) {
+    problems.push(log.duration < 0 ? `負數工時: ${log.duration}` : `工時無效: ${log.duration}`);
+    if (timesValid) repaired.duration = getPaidHours(log.startTime, log.endTime, log.breakMinutes);
+    else repairable = false;
+  }
+  if (typeof log.notes !== 'string') { problems.push('備註格式無效'); repaired.notes = ''; }
+  if (log.allowances && !Array.isArray(log.allowances)) { problems.push('津貼格式無效'); delete repaired.allowances; }
+  if (!isFiniteNumber(log.timestamp)) { problems.push('缺少時間戳記'); repaired.timestamp = Date.now(); }
+
+  return { problems, repaired: repairable ? repaired : null };
+};
+
+const checkTemplate = (template: ShiftTemplate, jobIds: Set<string>, fallbackJobId?: string): Check<ShiftTemplate> => {
+  const problems: string[] = [];
+  const repaired = { ...template };
+  let repairable = true;
+
+  if (!template.id) { problems.push('缺少 ID'); repaired.id = crypto.randomUUID(); }
+  if (!jobIds.has(template.jobId)) {
+    problems.push(`工作不存在: ${template.jobId}`);
+    if (fallbackJobId) repaired.jobId = fallbackJobId;
+    else repairable = false;
+  }
+  if (!isTime(template.startTime) || !isTime(template.endTime)) {
+    problems.push(`時間無效: ${template.startTime}-${template.endTime}`);
+    repairable = false;
+  }
+  if (template.recurrence && !isValidLocalDate(template.recurrence.startDate)) {
+    problems.push(`重複開始日期無效: ${template.recurrence.startDate}`);
+    repairable = false;
+  }
+  return { problems, repaired: repairable ? repaired : null };
+};
+
+const checkPayslip = (payslip: Payslip, jobIds: Set<string>, fallbackJobId?: string): Check<Payslip> => {
+  const problems: string[] = [];
+  const repaired = { ...payslip };
+  let repairable = true;
+
+  if (!payslip.id) { problems.push('缺少 ID'); repaired.id = crypto.randomUUID(); }
+  if (!jobIds.has(payslip.jobId)) {
+    problems.push(`工作不存在: ${payslip.jobId}`);
+    if (fallbackJobId) repaired.jobId = fallbackJobId;
+    else repairable = false;
+  }
+  if (!isValidLocalDate(payslip.periodStart) || !isValidLocalDate(payslip.periodEnd)) {
+    problems.push(`週期無效: ${payslip.periodStart} - ${payslip.periodEnd}`);
+    repairable = false;
+  }
+  (['gross', 'tax', 'net', 'expectedGross'] as const).forEach(field => {
+    if (!isFiniteNumber(payslip[field])) { problems.push(`${field} 無效: ${payslip[field]}`); repairable = false; }
+  });
+  if (!Array.isArray(payslip.adjustments)) { problems.push('調整項目格式無效'); repaired.adjustments = []; }
+  return { problems, repaired: repairable ? repaired : null };
+};
+
+// Runs every check once and builds both outcomes, so the report and the
+// resolved state can never disagree. Jobs are always repaired (never
+// skipped) so skipping doesn't orphan the logs under them.
+const inspect = (state: AppState) => {
+  const issues: DataIssue[] = [];
+  const repaired: Pick<AppState, 'logs' | 'jobs' | 'templates' | 'payslips'> = { logs: [], jobs: [], templates: [], payslips: [] };
+  const skipped: Pick<AppState, 'logs' | 'jobs' | 'templates' | 'payslips'> = { logs: [], jobs: [], templates: [], payslips: [] };
+
+  state.jobs.forEach(job => {
+    const check = checkJob(job);
+    if (check.problems.length > 0) {
+      issues.push({ kind: 'job', id: job.id, label: job.name || '(未命名工作)', problems: check.problems, repairable: true });
+    }
+    repaired.jobs.push(check.repaired!);
+    skipped.jobs.push(check.repaired!);
+  });
+
+  const jobIds = new Set(repaired.jobs.map(j => j.id));
+  const fallbackJobId = repaired.jobs[0]?.id;
+  const collect = <T,>(kind: DataIssue['kind'], record: T, id: string, label: string, check: Check<T>, list: (s: typeof repaired) => T[]) => {
+    if (check.problems.length === 0) {
+      list(repaired).push(record);
+      list(skipped).push(record);
+      return;
+    }
+    issues.push({ kind, id, label, problems: check.problems, repairable: check.repaired !== null });
+    if (check.repaired) list(repaired).push(check.repaired);
+  };
+
+  state.logs.forEach(log => collect('log', log, log.id, `${log.date} ${log.startTime}-${log.endTime}`, checkLog(log, jobIds, fallbackJobId), s => s.logs));
+  state.templates.forEach(t => collect('template', t, t.id, t.name || '(未命名範本)', checkTemplate(t, jobIds, fallbackJobId), s => s.templates));
+  state.payslips.forEach(p => collect('payslip', p, p.id, `${p.periodStart} - ${p.periodEnd}`, checkPayslip(p, jobIds, fallbackJobId), s => s.payslips));
+
+  return { issues, resolved: { repair: repaired, skip: skipped } };
+};
+
+export const validateState = (state: AppState): DataIssue[] => inspect(state).issues;
+
+export const resolveDataIssues = (state: AppState, mode: DataIssueMode): AppState => {
+  return { ...state, ...inspect(state).resolved[mode] };
+};
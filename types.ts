@@ -1,4 +1,74 @@
 
+export interface RatePeriod {
+  effectiveFrom: string; // YYYY-MM-DD, rates apply from this date until the next period
+  hourlyRate: number;
+  weekendHourlyRate: number;
+}
+
+export interface CareerLevel {
+  name: string; // e.g. "Level 3A"
+  thresholdHours: number; // Cumulative job hours at which this level is reached
+  hourlyRate: number;
+  weekendHourlyRate: number;
+}
+
+export interface OvertimeTier {
+  hours?: number; // Overtime hours (per day) paid at this multiplier; omit on the last tier for "all remaining"
+  multiplier: number; // Applied to the ordinary weekday rate
+}
+
+export interface OvertimeRules {
+  dailyThreshold?: number;  // Ordinary hours per day before overtime starts
+  weeklyThreshold?: number; // Ordinary hours per week (Mon-Sun) before overtime starts
+  tiers: OvertimeTier[];    // e.g. first 2h at 1.5x, then 2x
+}
+
+export interface PenaltyBand {
+  name: string;            // e.g. "Evening", "Early Morning"
+  startTime: string;       // HH:mm
+  endTime: string;         // HH:mm; earlier than startTime means the band runs past midnight
+  rate?: number;           // Flat hourly rate for hours in the band
+  loadingPercent?: number; // Or a loading on top of the day's weekday/weekend rate
+}
+
+export interface ContributionRules {
+  employerPercent: number;    // Of relevant income (ordinary-time earnings)
+  employeePercent?: number;   // Mandatory employee share, deducted from pay (e.g. MPF)
+  voluntaryPercent?: number;  // Employee voluntary contributions, deducted from pay
+  minRelevantIncome?: number; // Per month; below it the employee's mandatory share is waived
+  maxRelevantIncome?: number; // Per month; earnings above it don't attract contributions
+  includeOvertime?: boolean;  // Count overtime as relevant income (MPF); super excludes it
+}
+
+export type PayCycleFrequency = 'weekly' | 'fortnightly' | 'semimonthly' | 'monthly';
+
+export interface PayCycle {
+  frequency: PayCycleFrequency;
+  anchorDate?: string;       // Weekly/fortnightly: last day of any one pay period (YYYY-MM-DD)
+  cutoffDay?: number;        // Monthly: last day of the period (31 = month end); semi-monthly: last day of the first half (default 15)
+  paydayOffsetDays?: number; // Days from the end of the period to payday (default 0)
+}
+
+export type AllowanceUnit = 'shift' | 'hour' | 'km' | 'period';
+export type AllowanceRule = 'manual' | 'always' | 'conditional';
+
+export interface AllowanceDefinition {
+  id: string;
+  name: string;           // e.g. "Meal", "First Aid", "Travel"
+  unit: AllowanceUnit;    // Paid per shift, per paid hour, per km, or once per pay period worked
+  amount: number;         // Per unit
+  rule: AllowanceRule;    // manual: only on shifts it's attached to; always: every worked shift; conditional: every worked shift while conditionMet
+  condition?: string;     // What a conditional allowance depends on, e.g. "First-aid certificate"
+  conditionMet?: boolean;
+  minShiftHours?: number; // Rule-applied allowances skip shifts shorter than this (e.g. meal allowance)
+  kmPerShift?: number;    // Rule-applied per-km allowances: distance claimed per shift
+}
+
+export interface LogAllowance {
+  allowanceId: string; // Into the job's allowances
+  quantity?: number;   // km for per-km, hours for per-hour (default: paid hours), times paid for per-shift (default 1)
+}
+
 export interface Job {
   id: string;
   name: string; // e.g., "State Swim", "Private Tutoring"
@@ -8,17 +78,43 @@ export interface Job {
   targetHours: number;
   nextHourlyRate: number;    // Next Level Mon-Fri
   nextWeekendHourlyRate: number; // Next Level Sat-Sun & Pub Hol
+  ratePeriods?: RatePeriod[]; // Rate timeline; hourlyRate/weekendHourlyRate mirror the latest period
+  ladder?: CareerLevel[]; // Full career path; targetHours/next* rates mirror the next level
+  currentLevelIndex?: number; // Index into ladder
+  overtime?: OvertimeRules; // No overtime when unset
+  penaltyBands?: PenaltyBand[]; // Time-of-day loadings
+  contributions?: ContributionRules; // Super / MPF; none when unset
+  payCycle?: PayCycle; // Follows the global pay frequency when unset
+  allowances?: AllowanceDefinition[]; // Expected allowances; see services/allowances.ts
 }
 
+export type LogStatus = 'planned' | 'worked' | 'cancelled' | 'sick';
+
 export interface WorkLog {
   id: string;
   jobId: string; // Link to specific Job
   date: string; // ISO Date string YYYY-MM-DD
   startTime: string; // HH:mm
   endTime: string; // HH:mm
-  duration: number; // in hours
+  duration: number; // in hours (paid time, breaks excluded)
+  breakMinutes?: number; // Unpaid break within startTime-endTime
   notes: string;
   timestamp: number; // Creation timestamp
+  updatedAt?: number;      // Last edit; unset until the shift is edited
+  sequence?: number;       // Times edited, exported as the calendar event's SEQUENCE
+  templateId?: string;     // Recurring template this shift was confirmed from
+  occurrenceDate?: string; // The planned date it was confirmed for (YYYY-MM-DD)
+  status?: LogStatus;      // Defaults to 'worked'; only worked shifts count towards hours and pay
+  rostered?: boolean;      // Came from an imported roster
+  correction?: boolean;    // Payslip reconciliation entry (manual hours, may be negative)
+  allowances?: LogAllowance[]; // Allowances claimed on this shift (or overriding a rule's quantity)
+}
+
+export interface Recurrence {
+  weekdays: number[];     // 0 = Sun ... 6 = Sat
+  startDate: string;      // YYYY-MM-DD
+  endDate?: string;       // Inclusive; repeats indefinitely when unset
+  intervalWeeks?: number; // 1 = every week (default), 2 = fortnightly
 }
 
 export interface ShiftTemplate {
@@ -27,17 +123,74 @@ export interface ShiftTemplate {
   jobId: string;
   startTime: string;
   endTime: string;
+  breakMinutes?: number; // Unpaid break
+  notes: string;
+  recurrence?: Recurrence; // Generates planned shifts on the calendar
+  skippedDates?: string[]; // Planned occurrences the user skipped
+}
+
+export interface CustomHoliday {
+  date: string; // YYYY-MM-DD
+  name: string;
+}
+
+export interface ShiftBreak {
+  start: number; // epoch ms
+  end?: number;  // epoch ms; open while on break
+}
+
+export interface ActiveShift {
+  jobId: string;
+  startedAt: number; // epoch ms
+  breaks: ShiftBreak[];
   notes: string;
 }
 
+export type PayslipStatus = 'matched' | 'underpaid' | 'overpaid' | 'resolved';
+
+export interface PayslipAdjustment {
+  id: string;
+  category: string; // e.g. 'Overtime 1', 'Allowance', 'Deduction'
+  name: string;
+  hours?: number;
+  rate?: number;
+  amount: number;
+}
+
+export interface Payslip {
+  id: string;
+  jobId: string;
+  periodStart: string; // YYYY-MM-DD
+  periodEnd: string;   // YYYY-MM-DD, inclusive
+  weekdayHours: number;
+  weekendHours: number; // Sat-Sun & Pub Hol
+  allowances: number; // Total allowances paid on the payslip
+  adjustments: PayslipAdjustment[];
+  gross: number;
+  tax: number;
+  employerContribution?: number; // Super / MPF, when on the payslip
+  employeeContribution?: number;
+  net: number;
+  expectedGross: number; // What the app calculated for the period when saved
+  expectedEmployerContribution?: number;
+  expectedAllowances?: number; // Part of expectedGross from the job's allowances
+  status: PayslipStatus; // 'resolved' once an underpayment has been sorted out with the employer
+  notes?: string;
+  timestamp: number; // Last saved
+}
+
 export interface UserSettings {
   // Global Settings
   currency: string;
   userName: string;
-  payFrequency: 'biweekly' | 'monthly';
-  taxRate: number; 
+  payFrequency: 'biweekly' | 'monthly'; // Default pay cycle for jobs without their own
+  taxRate: number; // Percent, used by the flat tax profile
+  taxProfile?: string; // See services/tax.ts; defaults to flat
+  taxFreeThreshold?: boolean; // Claim the tax-free threshold / basic allowance (default true)
   theme: 'light' | 'dark'; // New Theme setting
   lastBackupTimestamp?: number; // New Backup tracking
+  holidayRegion?: string; // Bundled public holiday list, e.g. 'HK', 'AU-QLD'
+  customHolidays?: CustomHoliday[]; // User-defined holidays (paid at weekend rate)
   
   // Deprecated fields (kept for migration types, but moved to Job)
   targetHours?: number;
@@ -48,11 +201,14 @@ export interface UserSettings {
 }
 
 export interface AppState {
+  schemaVersion?: number; // Missing on data saved before versioning; see services/migrations.ts
   logs: WorkLog[];
   settings: UserSettings;
   jobs: Job[];
   templates: ShiftTemplate[]; // New Templates list
+  payslips: Payslip[]; // Saved payslip checks
   activeJobId?: string; // Added for global persistence
+  activeShift?: ActiveShift; // Running clock-in timer (survives reloads)
 }
 
 export const DEFAULT_SETTINGS: UserSettings = {
@@ -61,6 +217,8 @@ export const DEFAULT_SETTINGS: UserSettings = {
   payFrequency: 'biweekly',
   taxRate: 0,
   theme: 'light',
+  holidayRegion: 'none',
+  customHolidays: [],
 };
 
 export const DEFAULT_JOB: Job = {